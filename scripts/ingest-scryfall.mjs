@@ -0,0 +1,254 @@
+/**
+ * Load a Scryfall bulk-data file into the `cards` table.
+ *
+ *   npm run cards:ingest -- ./default-cards.json
+ *   npm run cards:ingest -- --download oracle_cards
+ *
+ * Bulk files are several hundred MB, so the JSON array is streamed and each
+ * card object is parsed on its own instead of reading the whole file at once.
+ */
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { Readable } from 'stream';
+import { pipeline } from 'stream/promises';
+import * as dotenv from 'dotenv';
+import { neon } from '@neondatabase/serverless';
+
+dotenv.config({ path: '.env.local' });
+
+const BULK_TYPES = ['default_cards', 'oracle_cards', 'unique_artwork', 'all_cards'];
+const BATCH_SIZE = 500;
+// Not playable cards, and they share names with real ones
+const SKIPPED_LAYOUTS = new Set(['art_series', 'token', 'double_faced_token', 'emblem', 'vanguard', 'scheme', 'planar']);
+
+const COLUMNS = [
+  ['id', 'uuid'],
+  ['oracle_id', 'uuid'],
+  ['name', 'varchar'],
+  ['mana_cost', 'varchar'],
+  ['cmc', 'decimal'],
+  ['type_line', 'varchar'],
+  ['oracle_text', 'text'],
+  ['colors', 'text[]'],
+  ['color_identity', 'text[]'],
+  ['keywords', 'text[]'],
+  ['legalities', 'jsonb'],
+  ['image_uris', 'jsonb'],
+  ['prices', 'jsonb'],
+  ['scryfall_uri', 'varchar'],
+  ['edhrec_rank', 'integer'],
+  ['game_changer', 'boolean'],
+  ['set_code', 'varchar'],
+  ['set_name', 'varchar'],
+  ['collector_number', 'varchar'],
+  ['rarity', 'varchar'],
+  ['layout', 'varchar'],
+  ['card_faces', 'jsonb'],
+  ['released_at', 'date'],
+  ['from_bulk_data', 'boolean'],
+];
+
+function mapImageUris(uris) {
+  if (!uris) return null;
+  return { small: uris.small, normal: uris.normal, large: uris.large, artCrop: uris.art_crop };
+}
+
+function mapPrices(prices) {
+  if (!prices) return null;
+  return {
+    usd: prices.usd ?? undefined,
+    usdFoil: prices.usd_foil ?? undefined,
+    usdEtched: prices.usd_etched ?? undefined,
+    eur: prices.eur ?? undefined,
+    eurFoil: prices.eur_foil ?? undefined,
+    tix: prices.tix ?? undefined,
+  };
+}
+
+function toJson(value) {
+  return value == null ? null : JSON.stringify(value);
+}
+
+// Mirrors mapScryfallCard in src/types/card.ts
+function toRow(card) {
+  const faces = card.card_faces;
+  const oracleId = card.oracle_id || faces?.[0]?.oracle_id;
+  if (!oracleId || SKIPPED_LAYOUTS.has(card.layout)) return null;
+
+  const cardFaces = faces?.map((face) => ({
+    name: face.name,
+    manaCost: face.mana_cost,
+    typeLine: face.type_line,
+    oracleText: face.oracle_text,
+    imageUris: mapImageUris(face.image_uris) || undefined,
+  }));
+
+  return [
+    card.id,
+    oracleId,
+    card.name,
+    card.mana_cost || faces?.[0]?.mana_cost || null,
+    card.cmc ?? null,
+    card.type_line || faces?.map((face) => face.type_line).join(' // ') || null,
+    card.oracle_text || faces?.[0]?.oracle_text || null,
+    card.colors || faces?.[0]?.colors || [],
+    card.color_identity || [],
+    card.keywords || [],
+    toJson(card.legalities || {}),
+    toJson(mapImageUris(card.image_uris || faces?.[0]?.image_uris)),
+    toJson(mapPrices(card.prices)),
+    card.scryfall_uri,
+    card.edhrec_rank ?? null,
+    card.game_changer ?? null,
+    card.set,
+    card.set_name,
+    card.collector_number,
+    card.rarity,
+    card.layout,
+    toJson(cardFaces),
+    card.released_at || null,
+    true,
+  ];
+}
+
+function buildUpsert(rowCount) {
+  const values = [];
+  for (let r = 0; r < rowCount; r++) {
+    const placeholders = COLUMNS.map(([, type], c) => `$${r * COLUMNS.length + c + 1}::${type}`);
+    values.push(`(${placeholders.join(', ')}, now())`);
+  }
+
+  const names = COLUMNS.map(([name]) => name);
+  const updates = names
+    .filter((name) => name !== 'id')
+    .map((name) => `${name} = excluded.${name}`);
+
+  return `insert into cards (${names.join(', ')}, cached_at) values ${values.join(', ')}
+    on conflict (id) do update set ${updates.join(', ')}, cached_at = now()`;
+}
+
+/**
+ * Yield each top-level object of a streamed JSON array by tracking brace
+ * depth outside of strings.
+ */
+async function* streamJsonArray(filePath) {
+  const stream = fs.createReadStream(filePath, { encoding: 'utf8' });
+  let buffer = '';
+  let depth = 0;
+  let inString = false;
+  let escaped = false;
+  let start = -1;
+
+  for await (const chunk of stream) {
+    const offset = buffer.length;
+    buffer += chunk;
+
+    for (let i = offset; i < buffer.length; i++) {
+      const ch = buffer[i];
+      if (inString) {
+        if (escaped) escaped = false;
+        else if (ch === '\\') escaped = true;
+        else if (ch === '"') inString = false;
+        continue;
+      }
+      if (ch === '"') {
+        inString = true;
+      } else if (ch === '{') {
+        if (depth === 0) start = i;
+        depth++;
+      } else if (ch === '}') {
+        depth--;
+        if (depth === 0) {
+          yield JSON.parse(buffer.slice(start, i + 1));
+          start = -1;
+        }
+      }
+    }
+
+    // Keep only the object currently being read
+    if (start === -1) {
+      buffer = '';
+    } else if (start > 0) {
+      buffer = buffer.slice(start);
+      start = 0;
+    }
+  }
+}
+
+async function downloadBulkFile(type) {
+  const response = await fetch(`https://api.scryfall.com/bulk-data/${type}`, {
+    headers: { Accept: 'application/json', 'User-Agent': 'DeckTutor/1.0' },
+  });
+  if (!response.ok) {
+    throw new Error(`Failed to look up bulk data "${type}": ${response.status}`);
+  }
+  const { download_uri: downloadUri, updated_at: updatedAt } = await response.json();
+
+  console.log(`Downloading ${type} (updated ${updatedAt})...`);
+  const file = await fetch(downloadUri, { headers: { 'User-Agent': 'DeckTutor/1.0' } });
+  if (!file.ok || !file.body) {
+    throw new Error(`Failed to download ${downloadUri}: ${file.status}`);
+  }
+
+  const filePath = path.join(os.tmpdir(), `scryfall-${type}.json`);
+  await pipeline(Readable.fromWeb(file.body), fs.createWriteStream(filePath));
+  return filePath;
+}
+
+function parseArgs(argv) {
+  const downloadIndex = argv.indexOf('--download');
+  if (downloadIndex !== -1) {
+    const type = argv[downloadIndex + 1] || 'default_cards';
+    if (!BULK_TYPES.includes(type)) {
+      throw new Error(`Unknown bulk data type "${type}". Use one of: ${BULK_TYPES.join(', ')}`);
+    }
+    return { download: type };
+  }
+  if (!argv[0]) {
+    throw new Error('Usage: ingest-scryfall.mjs <bulk-file.json> | --download <type>');
+  }
+  return { file: argv[0] };
+}
+
+async function ingest() {
+  if (!process.env.DATABASE_URL) {
+    throw new Error('DATABASE_URL is not set');
+  }
+  const sql = neon(process.env.DATABASE_URL);
+
+  const args = parseArgs(process.argv.slice(2));
+  const filePath = args.download ? await downloadBulkFile(args.download) : path.resolve(args.file);
+
+  let batch = [];
+  let written = 0;
+  let skipped = 0;
+
+  const flush = async () => {
+    if (batch.length === 0) return;
+    await sql.query(buildUpsert(batch.length), batch.flat());
+    written += batch.length;
+    batch = [];
+    process.stdout.write(`\rWrote ${written} cards`);
+  };
+
+  for await (const card of streamJsonArray(filePath)) {
+    const row = toRow(card);
+    if (!row) {
+      skipped++;
+      continue;
+    }
+    batch.push(row);
+    if (batch.length >= BATCH_SIZE) {
+      await flush();
+    }
+  }
+  await flush();
+
+  console.log(`\nDone: ${written} cards written, ${skipped} skipped.`);
+}
+
+ingest().catch((error) => {
+  console.error(`\n${error.message}`);
+  process.exit(1);
+});
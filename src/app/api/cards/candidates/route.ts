@@ -0,0 +1,46 @@
+import { NextResponse } from 'next/server';
+import { autocomplete, getCardByFuzzyName, getCardsInBulk } from '@/lib/clients/scryfall';
+import type { Card } from '@/types';
+
+const MAX_CANDIDATES = 8;
+
+/**
+ * Candidate cards for a name that didn't resolve cleanly on import:
+ * the fuzzy match first, then autocomplete suggestions.
+ */
+export async function GET(request: Request) {
+  try {
+    const { searchParams } = new URL(request.url);
+    const query = searchParams.get('q')?.trim();
+
+    if (!query || query.length < 2) {
+      return NextResponse.json({ candidates: [] });
+    }
+
+    const [fuzzy, suggestions] = await Promise.all([
+      getCardByFuzzyName(query),
+      autocomplete(query),
+    ]);
+
+    const names = suggestions
+      .filter((name) => name.toLowerCase() !== fuzzy?.card.name.toLowerCase())
+      .slice(0, MAX_CANDIDATES - (fuzzy ? 1 : 0));
+
+    const { cards } = names.length > 0
+      ? await getCardsInBulk(names.map((name) => ({ name })))
+      : { cards: [] as Card[] };
+
+    const candidates = fuzzy ? [fuzzy.card, ...cards] : cards;
+
+    return NextResponse.json(
+      { candidates },
+      {
+        headers: {
+          'Cache-Control': 'public, s-maxage=3600, stale-while-revalidate=86400',
+        },
+      }
+    );
+  } catch {
+    return NextResponse.json({ candidates: [] });
+  }
+}
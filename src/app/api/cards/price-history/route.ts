@@ -0,0 +1,34 @@
+import { NextResponse } from 'next/server';
+import { getPriceHistory, isScryfallId, parseHistoryDays } from '@/lib/price-history';
+
+// GET /api/cards/price-history?id=<scryfall id>&days=90 - Daily prices for one printing
+export async function GET(request: Request) {
+  try {
+    const { searchParams } = new URL(request.url);
+    const id = searchParams.get('id');
+
+    if (!isScryfallId(id)) {
+      return NextResponse.json(
+        { error: 'INVALID_REQUEST', message: 'A card id is required' },
+        { status: 400 }
+      );
+    }
+
+    const history = await getPriceHistory([id], parseHistoryDays(searchParams.get('days')));
+
+    return NextResponse.json(
+      { history: history.get(id) ?? [] },
+      {
+        headers: {
+          'Cache-Control': 'public, s-maxage=3600, stale-while-revalidate=86400',
+        },
+      }
+    );
+  } catch (error) {
+    console.error('Price history error:', error);
+    return NextResponse.json(
+      { error: 'INTERNAL_ERROR', message: 'Failed to fetch price history' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,42 @@
+import { NextResponse } from 'next/server';
+import { getCardRulings, ScryfallError } from '@/lib/clients/scryfall';
+import { isScryfallId } from '@/lib/price-history';
+
+// GET /api/cards/rulings?id=<scryfall id> - Rulings for a card
+export async function GET(request: Request) {
+  try {
+    const { searchParams } = new URL(request.url);
+    const id = searchParams.get('id');
+
+    if (!isScryfallId(id)) {
+      return NextResponse.json(
+        { error: 'INVALID_REQUEST', message: 'A card id is required' },
+        { status: 400 }
+      );
+    }
+
+    const rulings = await getCardRulings(id);
+
+    return NextResponse.json(
+      { rulings },
+      {
+        headers: {
+          'Cache-Control': 'public, s-maxage=86400, stale-while-revalidate=604800',
+        },
+      }
+    );
+  } catch (error) {
+    if (error instanceof ScryfallError) {
+      return NextResponse.json(
+        { error: 'CARD_NOT_FOUND', message: error.message },
+        { status: error.status }
+      );
+    }
+
+    console.error('Card rulings error:', error);
+    return NextResponse.json(
+      { error: 'INTERNAL_ERROR', message: 'Failed to fetch rulings' },
+      { status: 500 }
+    );
+  }
+}
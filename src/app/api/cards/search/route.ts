@@ -0,0 +1,63 @@
+import { NextResponse } from 'next/server';
+import { searchCards, ScryfallError, type CardSearchFilters } from '@/lib/clients/scryfall';
+
+const MAX_RESULTS = 50;
+const IDENTITY_PATTERN = /^[WUBRGC]*$/i;
+const FORMAT_PATTERN = /^[a-z]+$/;
+
+/**
+ * GET /api/cards/search?q=<scryfall query>&identity=WUB&format=commander
+ * Pass identity=C for a colourless commander; leave it out to search every colour.
+ */
+export async function GET(request: Request) {
+  try {
+    const { searchParams } = new URL(request.url);
+    const query = searchParams.get('q')?.trim();
+    const identity = searchParams.get('identity');
+    const format = searchParams.get('format');
+
+    if (!query) {
+      return NextResponse.json({ cards: [] });
+    }
+
+    if (identity !== null && !IDENTITY_PATTERN.test(identity)) {
+      return NextResponse.json(
+        { error: 'INVALID_IDENTITY', message: 'identity must be made of the letters W, U, B, R, G or C' },
+        { status: 400 }
+      );
+    }
+
+    if (format !== null && !FORMAT_PATTERN.test(format)) {
+      return NextResponse.json(
+        { error: 'INVALID_FORMAT', message: 'format must be a Scryfall format name' },
+        { status: 400 }
+      );
+    }
+
+    const filters: CardSearchFilters = {
+      ...(identity !== null && { colorIdentity: identity.toUpperCase().replace(/C/g, '').split('').filter(Boolean) }),
+      ...(format !== null && { format }),
+    };
+
+    const cards = await searchCards(query, MAX_RESULTS, filters);
+
+    return NextResponse.json(
+      { cards },
+      {
+        headers: {
+          'Cache-Control': 'public, s-maxage=3600, stale-while-revalidate=86400',
+        },
+      }
+    );
+  } catch (error) {
+    if (error instanceof ScryfallError && error.status === 400) {
+      return NextResponse.json({ error: 'INVALID_QUERY', message: error.message }, { status: 400 });
+    }
+
+    console.error('Card search error:', error);
+    return NextResponse.json(
+      { error: 'INTERNAL_ERROR', message: 'Failed to search cards' },
+      { status: 500 }
+    );
+  }
+}
@@ -1,8 +1,53 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { geminiChat, buildSystemPrompt, GeminiError } from '@/lib/clients/gemini';
 import { openaiChat, OpenAIError } from '@/lib/clients/openai';
+import { getCardByName, getCardRulings } from '@/lib/clients/scryfall';
 import { verifyToken, extractBearerToken } from '@/lib/auth';
-import type { ChatRequest, ChatResponse, GeminiModel, OpenAIModel } from '@/types';
+import type { CardRulingContext, ChatRequest, ChatResponse, DeckContext, GeminiModel, OpenAIModel } from '@/types';
+
+const MAX_RULING_CARDS = 5;
+const MAX_RULINGS_PER_CARD = 15;
+
+function escapeRegExp(text: string): string {
+  return text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+/**
+ * Cards the message is about: anything in [[double brackets]], then deck cards
+ * named in the text. Used to look up rulings for rules questions.
+ */
+function findMentionedCards(message: string, deckContext?: DeckContext | null): string[] {
+  const names = [...message.matchAll(/\[\[([^\]]+)\]\]/g)].map((match) => match[1].trim());
+
+  if (deckContext) {
+    const deckCards = [...deckContext.commanders, ...deckContext.mainboardCards, ...deckContext.sideboardCards];
+    for (const name of deckCards) {
+      const frontName = name.split(' // ')[0];
+      if (new RegExp(`\\b${escapeRegExp(frontName)}\\b`, 'i').test(message)) {
+        names.push(name);
+      }
+    }
+  }
+
+  const unique = new Map(names.map((name) => [name.toLowerCase(), name]));
+  return [...unique.values()].slice(0, MAX_RULING_CARDS);
+}
+
+// Unknown names and Scryfall failures are skipped rather than failing the chat
+async function getMentionedCardRulings(
+  message: string,
+  deckContext?: DeckContext | null
+): Promise<CardRulingContext[]> {
+  const results = await Promise.allSettled(
+    findMentionedCards(message, deckContext).map(async (name) => {
+      const card = await getCardByName(name);
+      const rulings = await getCardRulings(card.id);
+      return { name: card.name, oracleText: card.oracleText || '', rulings: rulings.slice(0, MAX_RULINGS_PER_CARD) };
+    })
+  );
+
+  return results.flatMap((result) => (result.status === 'fulfilled' ? [result.value] : []));
+}
 
 export async function POST(request: NextRequest) {
   try {
@@ -42,11 +87,13 @@ export async function POST(request: NextRequest) {
       );
     }
 
-    // Build system prompt with optional deck context
+    // Build system prompt with optional deck context and rulings for the cards asked about
+    const cardRulings = await getMentionedCardRulings(body.message, body.deckContext);
     const systemPrompt = buildSystemPrompt(
       body.deckContext,
       body.settings.bracketLevel,
-      body.settings.includeContext
+      body.settings.includeContext,
+      cardRulings
     );
 
     const provider = body.settings.provider || 'openai';
@@ -1,6 +1,70 @@
 import { NextResponse } from 'next/server';
-import { checkCombos, ComboServiceError } from '@/lib/clients/combo-service';
-import type { ComboCheckRequest } from '@/types';
+import { and, eq } from 'drizzle-orm';
+import { db, userDecks } from '@/lib/db';
+import { verifyToken, extractBearerToken } from '@/lib/auth';
+import { checkCombos, ComboServiceError, getComboCacheKey } from '@/lib/clients/combo-service';
+import { getDeckComboResults, saveDeckComboResults } from '@/lib/combo-store';
+import { getComboFingerprint, type ComboCheckRequest, type ComboCheckResponse } from '@/types';
+
+interface OwnedDeck {
+  id: string;
+  // Card list the stored results were detected for
+  comboCacheKey: string | null;
+}
+
+// The deck, if the request is signed in and the deck belongs to that user
+async function getOwnedDeck(request: Request, deckId?: string): Promise<OwnedDeck | null> {
+  const token = extractBearerToken(request.headers.get('authorization'));
+  if (!deckId || !token) return null;
+
+  const payload = await verifyToken(token);
+  if (!payload) return null;
+
+  const [deck] = await db
+    .select({ id: userDecks.id, comboCacheKey: userDecks.comboCacheKey })
+    .from(userDecks)
+    .where(and(eq(userDecks.id, deckId), eq(userDecks.userId, payload.userId)))
+    .limit(1);
+
+  return deck ?? null;
+}
+
+/**
+ * Store the combos found against a signed-in owner's saved deck. A cached
+ * result the deck already has stored is only read back, for its favourites
+ * and notes. Storage problems are logged rather than failing the check.
+ */
+async function storeResults(request: Request, body: ComboCheckRequest, result: ComboCheckResponse) {
+  if (result.stale) return result;
+
+  try {
+    const deck = await getOwnedDeck(request, body.deckId);
+    if (!deck) return result;
+
+    const keys = { fingerprint: getComboFingerprint(body), cacheKey: getComboCacheKey(body) };
+    const stored = result.cached && deck.comboCacheKey === keys.cacheKey
+      ? await getDeckComboResults(deck.id)
+      : await saveDeckComboResults(deck.id, keys, result);
+    return stored ? { ...result, ...stored } : result;
+  } catch (error) {
+    console.error('Error storing combo results:', error);
+    return result;
+  }
+}
+
+// The results last stored for the caller's deck, used when Commander Spellbook is down
+async function getLastKnownResults(request: Request, body: ComboCheckRequest): Promise<ComboCheckResponse | null> {
+  try {
+    const deck = await getOwnedDeck(request, body.deckId);
+    const stored = deck ? await getDeckComboResults(deck.id) : null;
+    if (!stored) return null;
+
+    return { ...stored, synergies: [], analyzedCards: body.cards.length, processingTime: 0, cached: true, stale: true };
+  } catch (error) {
+    console.error('Error loading stored combo results:', error);
+    return null;
+  }
+}
 
 export async function POST(request: Request) {
   try {
@@ -13,11 +77,19 @@ export async function POST(request: Request) {
       );
     }
 
-    const result = await checkCombos(body);
+    let result: ComboCheckResponse;
+    try {
+      result = await storeResults(request, body, await checkCombos(body));
+    } catch (error) {
+      const lastKnown = error instanceof ComboServiceError ? await getLastKnownResults(request, body) : null;
+      if (!lastKnown) throw error;
+      console.error('Combo check failed, serving stored results:', error);
+      result = lastKnown;
+    }
 
     return NextResponse.json(result, {
       headers: {
-        'Cache-Control': 'private, s-maxage=3600',
+        'Cache-Control': result.stale || body.refresh ? 'no-store' : 'private, s-maxage=3600',
       },
     });
   } catch (error) {
@@ -0,0 +1,47 @@
+import { NextResponse } from 'next/server';
+import { ComboServiceError, extractSpellbookComboId, getSpellbookCombo } from '@/lib/clients/combo-service';
+
+// GET /api/combos/spellbook?id=<combo id or URL> - A single Commander Spellbook combo, e.g. to import as a custom combo
+export async function GET(request: Request) {
+  try {
+    const { searchParams } = new URL(request.url);
+    const comboId = extractSpellbookComboId(searchParams.get('id') || '');
+
+    if (!comboId) {
+      return NextResponse.json(
+        { error: 'INVALID_REQUEST', message: 'A Commander Spellbook combo ID or URL is required' },
+        { status: 400 }
+      );
+    }
+
+    const combo = await getSpellbookCombo(comboId);
+
+    return NextResponse.json(
+      { combo },
+      {
+        headers: {
+          'Cache-Control': 'public, s-maxage=86400, stale-while-revalidate=604800',
+        },
+      }
+    );
+  } catch (error) {
+    if (error instanceof ComboServiceError) {
+      if (error.status === 404) {
+        return NextResponse.json({ error: 'COMBO_NOT_FOUND', message: error.message }, { status: 404 });
+      }
+      if (error.status === 422) {
+        return NextResponse.json({ error: 'INVALID_COMBO', message: error.message }, { status: 422 });
+      }
+      return NextResponse.json(
+        { error: 'COMBO_SERVICE_ERROR', message: 'Commander Spellbook is currently unavailable' },
+        { status: 503 }
+      );
+    }
+
+    console.error('Spellbook combo error:', error);
+    return NextResponse.json(
+      { error: 'INTERNAL_ERROR', message: 'Failed to fetch combo' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,28 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { extractBearerToken } from '@/lib/auth';
+import { snapshotDeckPrices } from '@/lib/price-history';
+
+// Fetching every saved deck's cards takes a while at Scryfall's rate limit
+export const maxDuration = 300;
+
+// GET /api/cron/price-snapshot - Record today's prices for every card in a saved deck
+export async function GET(request: NextRequest) {
+  // Vercel Cron sends CRON_SECRET as a bearer token
+  const secret = process.env.CRON_SECRET;
+  const token = extractBearerToken(request.headers.get('authorization'));
+
+  if (!secret || token !== secret) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+  }
+
+  try {
+    const snapshot = await snapshotDeckPrices();
+    return NextResponse.json(snapshot);
+  } catch (error) {
+    console.error('Price snapshot error:', error);
+    return NextResponse.json(
+      { error: 'SNAPSHOT_FAILED', message: 'Failed to record price snapshot' },
+      { status: 500 }
+    );
+  }
+}
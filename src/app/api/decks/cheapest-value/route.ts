@@ -1,76 +1,23 @@
 import { NextResponse } from 'next/server';
+import { getCheapestPrices } from '@/lib/clients/scryfall';
+import { PRICE_KEYS, type PriceKey } from '@/types';
 
-const SCRYFALL_API = 'https://api.scryfall.com';
-const RATE_LIMIT_MS = 100;
-
-let lastRequestTime = 0;
-
-async function rateLimit(): Promise<void> {
-  const now = Date.now();
-  const timeSinceLastRequest = now - lastRequestTime;
-  if (timeSinceLastRequest < RATE_LIMIT_MS) {
-    await new Promise((resolve) =>
-      setTimeout(resolve, RATE_LIMIT_MS - timeSinceLastRequest)
-    );
-  }
-  lastRequestTime = Date.now();
-}
+type Prices = Partial<Record<PriceKey, number>>;
 
 interface CardPriceRequest {
   oracleId: string;
   name: string;
   quantity: number;
-  currentPrice: number; // Price from the deck's current printing
-}
-
-interface PrintingPrice {
-  set: string;
-  price: number;
+  currentPrices: Prices; // Prices from the deck's current printing
 }
 
-async function getCheapestPrinting(oracleId: string, cardName: string): Promise<number | null> {
-  await rateLimit();
-
-  try {
-    // Search for all printings by exact card name (more reliable than oracle_id)
-    const encodedName = encodeURIComponent(`!"${cardName}"`);
-    const response = await fetch(
-      `${SCRYFALL_API}/cards/search?q=${encodedName}&unique=prints`,
-      {
-        headers: {
-          Accept: 'application/json',
-          'User-Agent': 'DeckTutor/1.0',
-        },
-      }
-    );
-
-    if (!response.ok) {
-      console.log(`No printings found for: ${cardName}`);
-      return null;
-    }
-
-    const data = await response.json();
-
-    // Find the cheapest USD price among all printings
-    let cheapest: number | null = null;
-
-    for (const card of data.data || []) {
-      const priceStr = card.prices?.usd;
-      if (priceStr) {
-        const price = parseFloat(priceStr);
-        if (!isNaN(price) && price > 0) {
-          if (cheapest === null || price < cheapest) {
-            cheapest = price;
-          }
-        }
-      }
-    }
-
-    return cheapest;
-  } catch (error) {
-    console.error(`Error fetching printings for ${cardName}:`, error);
-    return null;
+// Search every printing by exact name (more reliable than oracle_id)
+async function getCheapestPrinting(cardName: string): Promise<Prices> {
+  const prices = await getCheapestPrices(cardName);
+  if (Object.keys(prices).length === 0) {
+    console.log(`No printings found for: ${cardName}`);
   }
+  return prices;
 }
 
 export async function POST(request: Request) {
@@ -86,46 +33,53 @@ export async function POST(request: Request) {
     }
 
     // Group by oracle ID to avoid duplicate lookups
-    const uniqueCards = new Map<string, { name: string; totalQuantity: number; currentPrice: number }>();
+    const uniqueCards = new Map<string, { name: string; totalQuantity: number; currentPrices: Prices }>();
 
     for (const card of cards) {
+      const currentPrices = card.currentPrices || {};
       const existing = uniqueCards.get(card.oracleId);
       if (existing) {
         existing.totalQuantity += card.quantity;
         // Use the max current price if same card appears multiple times
-        existing.currentPrice = Math.max(existing.currentPrice, card.currentPrice);
+        for (const key of PRICE_KEYS) {
+          existing.currentPrices[key] = Math.max(existing.currentPrices[key] ?? 0, currentPrices[key] ?? 0);
+        }
       } else {
         uniqueCards.set(card.oracleId, {
           name: card.name,
           totalQuantity: card.quantity,
-          currentPrice: card.currentPrice,
+          currentPrices: { ...currentPrices },
         });
       }
     }
 
-    let totalCheapest = 0;
-    const cardPrices: Array<{ name: string; cheapestPrice: number | null; currentPrice: number }> = [];
+    // Totals for every price key, so the client can switch without refetching
+    const totals = Object.fromEntries(PRICE_KEYS.map((key) => [key, 0])) as Record<PriceKey, number>;
 
     // Fetch cheapest price for each unique card
-    for (const [oracleId, { name, totalQuantity, currentPrice }] of uniqueCards) {
-      const cheapestPrice = await getCheapestPrinting(oracleId, name);
-
-      cardPrices.push({ name, cheapestPrice, currentPrice });
-
-      if (cheapestPrice !== null) {
-        // Use the cheaper of: cheapest printing found OR current price (if available)
-        const priceToUse = currentPrice > 0
-          ? Math.min(cheapestPrice, currentPrice)
-          : cheapestPrice;
-        totalCheapest += priceToUse * totalQuantity;
-      } else if (currentPrice > 0) {
-        // No cheapest found, use current price
-        totalCheapest += currentPrice * totalQuantity;
+    for (const { name, totalQuantity, currentPrices } of uniqueCards.values()) {
+      const cheapestPrices = await getCheapestPrinting(name);
+
+      for (const key of PRICE_KEYS) {
+        const cheapestPrice = cheapestPrices[key];
+        const currentPrice = currentPrices[key] ?? 0;
+
+        if (cheapestPrice !== undefined) {
+          // Use the cheaper of: cheapest printing found OR current price (if available)
+          const priceToUse = currentPrice > 0
+            ? Math.min(cheapestPrice, currentPrice)
+            : cheapestPrice;
+          totals[key] += priceToUse * totalQuantity;
+        } else if (currentPrice > 0) {
+          // No cheapest found, use current price
+          totals[key] += currentPrice * totalQuantity;
+        }
       }
     }
 
     return NextResponse.json({
-      cheapestValue: totalCheapest,
+      cheapestValue: totals.usd,
+      cheapestValues: totals,
       cardCount: uniqueCards.size,
     });
   } catch (error) {
@@ -0,0 +1,44 @@
+import { NextResponse } from 'next/server';
+import {
+  buildDeckValueHistory,
+  getPriceHistory,
+  isScryfallId,
+  parseHistoryDays,
+  parsePriceKey,
+} from '@/lib/price-history';
+
+interface DeckValueCard {
+  id: string;
+  quantity: number;
+}
+
+// POST /api/decks/value-history - Deck value on each snapshot date
+export async function POST(request: Request) {
+  try {
+    const body = await request.json();
+    const { cards, days, priceKey } = body as { cards: DeckValueCard[]; days?: number; priceKey?: string };
+
+    if (!cards || !Array.isArray(cards)) {
+      return NextResponse.json(
+        { error: 'INVALID_REQUEST', message: 'Cards array is required' },
+        { status: 400 }
+      );
+    }
+
+    const valid = cards.filter(
+      (card) => isScryfallId(card.id) && Number.isFinite(card.quantity) && card.quantity > 0
+    );
+    const history = await getPriceHistory(
+      [...new Set(valid.map((card) => card.id))],
+      parseHistoryDays(days)
+    );
+
+    return NextResponse.json({ points: buildDeckValueHistory(history, valid, parsePriceKey(priceKey)) });
+  } catch (error) {
+    console.error('Deck value history error:', error);
+    return NextResponse.json(
+      { error: 'INTERNAL_ERROR', message: 'Failed to fetch deck value history' },
+      { status: 500 }
+    );
+  }
+}
@@ -1,11 +1,13 @@
 import { NextResponse } from 'next/server';
 import { healthCheck as commanderSpellbookHealthCheck } from '@/lib/clients/combo-service';
 import { cacheHealthCheck } from '@/lib/cache';
+import { getCardCacheStats } from '@/lib/card-cache';
 
 export async function GET() {
-  const [commanderSpellbookHealthy, redisHealthy] = await Promise.all([
+  const [commanderSpellbookHealthy, cache, cardCache] = await Promise.all([
     commanderSpellbookHealthCheck(),
     cacheHealthCheck(),
+    getCardCacheStats(),
   ]);
 
   return NextResponse.json({
@@ -13,8 +15,10 @@ export async function GET() {
     timestamp: new Date().toISOString(),
     services: {
       api: true,
-      redis: redisHealthy,
+      redis: cache.backend === 'redis' && cache.healthy,
+      cache,
       commanderSpellbook: commanderSpellbookHealthy,
     },
+    cardCache,
   });
 }
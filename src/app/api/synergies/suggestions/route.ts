@@ -1,6 +1,5 @@
 import { NextResponse } from 'next/server';
-
-const SCRYFALL_API = 'https://api.scryfall.com';
+import { scryfallRequest, type ScryfallList } from '@/lib/clients/scryfall-gateway';
 
 // Scryfall search queries for each synergy type (without color filter - added dynamically)
 const SYNERGY_QUERIES: Record<string, string> = {
@@ -45,22 +44,14 @@ interface ScryfallCard {
   edhrec_rank?: number;
 }
 
-interface ScryfallSearchResponse {
-  data?: ScryfallCard[];
-  has_more?: boolean;
-  next_page?: string;
-}
-
 async function searchScryfall(query: string): Promise<string[]> {
   try {
     // Add sorting by EDHREC rank (popularity in Commander)
-    const url = `${SCRYFALL_API}/cards/search?q=${encodeURIComponent(query)}&order=edhrec&dir=asc`;
+    const path = `/cards/search?q=${encodeURIComponent(query)}&order=edhrec&dir=asc`;
 
-    console.log('Scryfall query URL:', url);
+    console.log('Scryfall query path:', path);
 
-    const response = await fetch(url, {
-      headers: { Accept: 'application/json', 'User-Agent': 'DeckTutor/1.0' },
-    });
+    const response = await scryfallRequest<ScryfallList<ScryfallCard>>(path);
 
     if (!response.ok) {
       // 404 means no cards found - that's okay, return empty
@@ -68,15 +59,12 @@ async function searchScryfall(query: string): Promise<string[]> {
         console.log('No cards found for query:', query);
         return [];
       }
-      const errorText = await response.text();
-      console.error(`Scryfall search failed for query: ${query}`, response.status, errorText);
+      console.error(`Scryfall search failed for query: ${query}`, response.status, response.data);
       return [];
     }
 
-    const data: ScryfallSearchResponse = await response.json();
-
     // Return top cards sorted by EDHREC rank
-    return (data.data || [])
+    return (response.data.data || [])
       .slice(0, 20) // Get top 20 results
       .map(card => card.name);
   } catch (error) {
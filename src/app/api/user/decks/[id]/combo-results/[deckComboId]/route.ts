@@ -0,0 +1,80 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { eq, and } from 'drizzle-orm';
+import { db, userDecks } from '@/lib/db';
+import { verifyToken, extractBearerToken } from '@/lib/auth';
+import { updateDeckComboState, type ComboStateUpdate } from '@/lib/combo-store';
+
+const MAX_NOTES_LENGTH = 2000;
+
+// PATCH /api/user/decks/[id]/combo-results/[deckComboId] - Favourite a combo or edit its notes
+export async function PATCH(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string; deckComboId: string }> }
+) {
+  try {
+    const { id: deckId, deckComboId } = await params;
+    const authHeader = request.headers.get('authorization');
+    const token = extractBearerToken(authHeader);
+
+    if (!token) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const payload = await verifyToken(token);
+    if (!payload) {
+      return NextResponse.json({ error: 'Invalid token' }, { status: 401 });
+    }
+
+    // Verify the deck belongs to the user
+    const [deck] = await db
+      .select({ id: userDecks.id })
+      .from(userDecks)
+      .where(and(eq(userDecks.id, deckId), eq(userDecks.userId, payload.userId)))
+      .limit(1);
+
+    if (!deck) {
+      return NextResponse.json({ error: 'Deck not found' }, { status: 404 });
+    }
+
+    const body = await request.json();
+    const { isFavorited, notes } = body as { isFavorited?: unknown; notes?: unknown };
+    const update: ComboStateUpdate = {};
+
+    if (isFavorited !== undefined) {
+      if (typeof isFavorited !== 'boolean') {
+        return NextResponse.json(
+          { error: 'INVALID_REQUEST', message: 'isFavorited must be a boolean' },
+          { status: 400 }
+        );
+      }
+      update.isFavorited = isFavorited;
+    }
+
+    if (notes !== undefined) {
+      if (notes !== null && (typeof notes !== 'string' || notes.length > MAX_NOTES_LENGTH)) {
+        return NextResponse.json(
+          { error: 'INVALID_REQUEST', message: `notes must be text of at most ${MAX_NOTES_LENGTH} characters` },
+          { status: 400 }
+        );
+      }
+      update.notes = notes?.trim() || null;
+    }
+
+    if (Object.keys(update).length === 0) {
+      return NextResponse.json(
+        { error: 'INVALID_REQUEST', message: 'Nothing to update' },
+        { status: 400 }
+      );
+    }
+
+    const saved = await updateDeckComboState(deckId, deckComboId, update);
+    if (!saved) {
+      return NextResponse.json({ error: 'Combo not found' }, { status: 404 });
+    }
+
+    return NextResponse.json({ saved });
+  } catch (error) {
+    console.error('Error updating combo:', error);
+    return NextResponse.json({ error: 'Failed to update combo' }, { status: 500 });
+  }
+}
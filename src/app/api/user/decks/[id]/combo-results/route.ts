@@ -0,0 +1,44 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { eq, and } from 'drizzle-orm';
+import { db, userDecks } from '@/lib/db';
+import { verifyToken, extractBearerToken } from '@/lib/auth';
+import { getDeckComboResults } from '@/lib/combo-store';
+
+// GET /api/user/decks/[id]/combo-results - Combos stored from the deck's last check
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params;
+    const authHeader = request.headers.get('authorization');
+    const token = extractBearerToken(authHeader);
+
+    if (!token) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const payload = await verifyToken(token);
+    if (!payload) {
+      return NextResponse.json({ error: 'Invalid token' }, { status: 401 });
+    }
+
+    // Verify the deck belongs to the user
+    const [deck] = await db
+      .select({ id: userDecks.id })
+      .from(userDecks)
+      .where(and(eq(userDecks.id, id), eq(userDecks.userId, payload.userId)))
+      .limit(1);
+
+    if (!deck) {
+      return NextResponse.json({ error: 'Deck not found' }, { status: 404 });
+    }
+
+    const results = await getDeckComboResults(id);
+
+    return NextResponse.json({ results });
+  } catch (error) {
+    console.error('Error fetching combo results:', error);
+    return NextResponse.json({ error: 'Failed to fetch combo results' }, { status: 500 });
+  }
+}
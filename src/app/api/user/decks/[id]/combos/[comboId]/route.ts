@@ -2,6 +2,8 @@ import { NextRequest, NextResponse } from 'next/server';
 import { eq, and } from 'drizzle-orm';
 import { db, customCombos, userDecks } from '@/lib/db';
 import { verifyToken, extractBearerToken } from '@/lib/auth';
+import { ScryfallError } from '@/lib/clients/scryfall';
+import { getCustomComboStatus, getSavedDeckCardNames, resolveComboCards } from '@/lib/custom-combos';
 
 // GET /api/user/decks/[id]/combos/[comboId] - Get a single custom combo
 export async function GET(
@@ -24,7 +26,7 @@ export async function GET(
 
     // Verify the deck belongs to the user
     const [deck] = await db
-      .select({ id: userDecks.id })
+      .select({ id: userDecks.id, deckData: userDecks.moxfieldData })
       .from(userDecks)
       .where(and(eq(userDecks.id, deckId), eq(userDecks.userId, payload.userId)))
       .limit(1);
@@ -49,7 +51,9 @@ export async function GET(
       return NextResponse.json({ error: 'Combo not found' }, { status: 404 });
     }
 
-    return NextResponse.json({ combo });
+    return NextResponse.json({
+      combo: { ...combo, ...getCustomComboStatus(combo.cardNames, getSavedDeckCardNames(deck.deckData)) },
+    });
   } catch (error) {
     console.error('Error fetching custom combo:', error);
     return NextResponse.json({ error: 'Failed to fetch combo' }, { status: 500 });
@@ -93,7 +97,7 @@ export async function PUT(
     }
 
     const body = await request.json();
-    const { name, description, cardNames, cardIds, colorIdentity } = body;
+    const { name, description, cardNames } = body;
 
     if (!name || !name.trim()) {
       return NextResponse.json({ error: 'Combo name is required' }, { status: 400 });
@@ -107,21 +111,48 @@ export async function PUT(
       return NextResponse.json({ error: 'At least 2 cards are required for a combo' }, { status: 400 });
     }
 
+    if (!cardNames.every((cardName: unknown) => typeof cardName === 'string' && cardName.trim())) {
+      return NextResponse.json({ error: 'Card names must be non-empty strings' }, { status: 400 });
+    }
+
+    const resolved = await resolveComboCards(cardNames);
+    if (resolved.notFound.length > 0) {
+      return NextResponse.json(
+        { error: `Unknown cards: ${resolved.notFound.join(', ')}`, notFound: resolved.notFound },
+        { status: 400 }
+      );
+    }
+
+    if (resolved.cardNames.length < 2) {
+      return NextResponse.json({ error: 'At least 2 different cards are required for a combo' }, { status: 400 });
+    }
+
     const [updatedCombo] = await db
       .update(customCombos)
       .set({
         name: name.trim(),
         description: description.trim(),
-        cardNames,
-        cardIds: cardIds || null,
-        colorIdentity: colorIdentity || null,
+        cardNames: resolved.cardNames,
+        cardIds: resolved.cardIds,
+        colorIdentity: resolved.colorIdentity,
         updatedAt: new Date(),
       })
       .where(eq(customCombos.id, comboId))
       .returning();
 
-    return NextResponse.json({ combo: updatedCombo });
+    const [deck] = await db
+      .select({ deckData: userDecks.moxfieldData })
+      .from(userDecks)
+      .where(eq(userDecks.id, deckId))
+      .limit(1);
+
+    return NextResponse.json({
+      combo: { ...updatedCombo, ...getCustomComboStatus(updatedCombo.cardNames, getSavedDeckCardNames(deck?.deckData)) },
+    });
   } catch (error) {
+    if (error instanceof ScryfallError) {
+      return NextResponse.json({ error: 'Could not look up the combo cards, try again later' }, { status: 502 });
+    }
     console.error('Error updating custom combo:', error);
     return NextResponse.json({ error: 'Failed to update combo' }, { status: 500 });
   }
@@ -2,6 +2,8 @@ import { NextRequest, NextResponse } from 'next/server';
 import { eq, and } from 'drizzle-orm';
 import { db, customCombos, userDecks } from '@/lib/db';
 import { verifyToken, extractBearerToken } from '@/lib/auth';
+import { ScryfallError } from '@/lib/clients/scryfall';
+import { getCustomComboStatus, getSavedDeckCardNames, resolveComboCards } from '@/lib/custom-combos';
 
 // GET /api/user/decks/[id]/combos - List custom combos for a deck
 export async function GET(
@@ -24,7 +26,7 @@ export async function GET(
 
     // Verify the deck belongs to the user
     const [deck] = await db
-      .select({ id: userDecks.id })
+      .select({ id: userDecks.id, deckData: userDecks.moxfieldData })
       .from(userDecks)
       .where(and(eq(userDecks.id, id), eq(userDecks.userId, payload.userId)))
       .limit(1);
@@ -39,7 +41,12 @@ export async function GET(
       .where(and(eq(customCombos.deckId, id), eq(customCombos.userId, payload.userId)))
       .orderBy(customCombos.createdAt);
 
-    return NextResponse.json({ combos });
+    // Flag combos whose pieces have since been cut from the deck
+    const deckCardNames = getSavedDeckCardNames(deck.deckData);
+
+    return NextResponse.json({
+      combos: combos.map((combo) => ({ ...combo, ...getCustomComboStatus(combo.cardNames, deckCardNames) })),
+    });
   } catch (error) {
     console.error('Error fetching custom combos:', error);
     return NextResponse.json({ error: 'Failed to fetch combos' }, { status: 500 });
@@ -67,7 +74,7 @@ export async function POST(
 
     // Verify the deck belongs to the user
     const [deck] = await db
-      .select({ id: userDecks.id })
+      .select({ id: userDecks.id, deckData: userDecks.moxfieldData })
       .from(userDecks)
       .where(and(eq(userDecks.id, id), eq(userDecks.userId, payload.userId)))
       .limit(1);
@@ -77,7 +84,7 @@ export async function POST(
     }
 
     const body = await request.json();
-    const { name, description, cardNames, cardIds, colorIdentity } = body;
+    const { name, description, cardNames } = body;
 
     if (!name || !name.trim()) {
       return NextResponse.json({ error: 'Combo name is required' }, { status: 400 });
@@ -91,6 +98,23 @@ export async function POST(
       return NextResponse.json({ error: 'At least 2 cards are required for a combo' }, { status: 400 });
     }
 
+    if (!cardNames.every((cardName: unknown) => typeof cardName === 'string' && cardName.trim())) {
+      return NextResponse.json({ error: 'Card names must be non-empty strings' }, { status: 400 });
+    }
+
+    // Store canonical names with their Scryfall IDs and the combo's colour identity
+    const resolved = await resolveComboCards(cardNames);
+    if (resolved.notFound.length > 0) {
+      return NextResponse.json(
+        { error: `Unknown cards: ${resolved.notFound.join(', ')}`, notFound: resolved.notFound },
+        { status: 400 }
+      );
+    }
+
+    if (resolved.cardNames.length < 2) {
+      return NextResponse.json({ error: 'At least 2 different cards are required for a combo' }, { status: 400 });
+    }
+
     const [newCombo] = await db
       .insert(customCombos)
       .values({
@@ -98,14 +122,19 @@ export async function POST(
         deckId: id,
         name: name.trim(),
         description: description.trim(),
-        cardNames,
-        cardIds: cardIds || null,
-        colorIdentity: colorIdentity || null,
+        cardNames: resolved.cardNames,
+        cardIds: resolved.cardIds,
+        colorIdentity: resolved.colorIdentity,
       })
       .returning();
 
-    return NextResponse.json({ combo: newCombo });
+    return NextResponse.json({
+      combo: { ...newCombo, ...getCustomComboStatus(newCombo.cardNames, getSavedDeckCardNames(deck.deckData)) },
+    });
   } catch (error) {
+    if (error instanceof ScryfallError) {
+      return NextResponse.json({ error: 'Could not look up the combo cards, try again later' }, { status: 502 });
+    }
     console.error('Error creating custom combo:', error);
     return NextResponse.json({ error: 'Failed to create combo' }, { status: 500 });
   }
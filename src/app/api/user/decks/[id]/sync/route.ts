@@ -0,0 +1,135 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { eq, and } from 'drizzle-orm';
+import { db, userDecks } from '@/lib/db';
+import { verifyToken, extractBearerToken } from '@/lib/auth';
+import { detectDeckSource, isDeckSourceError } from '@/lib/clients/deck-sources';
+import { getDeckUrl } from '@/lib/clients/moxfield';
+import { buildDeckFromSource } from '@/lib/deck-import';
+
+interface StoredDeckData {
+  moxfieldUrl?: string;
+  sourceUrl?: string;
+}
+
+// GET /api/user/decks/[id]/sync - Fetch the upstream list a saved deck was imported from
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params;
+    const authHeader = request.headers.get('authorization');
+    const token = extractBearerToken(authHeader);
+
+    if (!token) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const payload = await verifyToken(token);
+    if (!payload) {
+      return NextResponse.json({ error: 'Invalid token' }, { status: 401 });
+    }
+
+    const [deck] = await db
+      .select()
+      .from(userDecks)
+      .where(and(eq(userDecks.id, id), eq(userDecks.userId, payload.userId)))
+      .limit(1);
+
+    if (!deck) {
+      return NextResponse.json({ error: 'Deck not found' }, { status: 404 });
+    }
+
+    const deckData = (deck.moxfieldData || {}) as StoredDeckData;
+    const url = deckData.sourceUrl || deckData.moxfieldUrl || (deck.moxfieldId ? getDeckUrl(deck.moxfieldId) : null);
+
+    const source = url ? detectDeckSource(url) : null;
+    const sourceDeckId = url && source ? source.extractDeckId(url) : null;
+
+    if (!source || !sourceDeckId) {
+      return NextResponse.json(
+        { error: 'NO_UPSTREAM', message: 'This deck was not imported from a deck site' },
+        { status: 400 }
+      );
+    }
+
+    const sourceDeck = await source.fetchDeck(sourceDeckId);
+    const { deck: upstreamDeck, warnings } = await buildDeckFromSource(sourceDeck);
+
+    return NextResponse.json({
+      upstreamDeck,
+      source: source.id,
+      syncedAt: deck.syncedWithMoxfieldAt,
+      warnings,
+    });
+  } catch (error) {
+    console.error('Error fetching upstream deck:', error);
+
+    if (isDeckSourceError(error)) {
+      return NextResponse.json(
+        { error: 'DECK_SOURCE_ERROR', message: error.message },
+        { status: error.status === 404 ? 404 : 502 }
+      );
+    }
+
+    return NextResponse.json({ error: 'Failed to fetch upstream deck' }, { status: 500 });
+  }
+}
+
+// POST /api/user/decks/[id]/sync - Save a deck with upstream changes applied
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params;
+    const authHeader = request.headers.get('authorization');
+    const token = extractBearerToken(authHeader);
+
+    if (!token) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const payload = await verifyToken(token);
+    if (!payload) {
+      return NextResponse.json({ error: 'Invalid token' }, { status: 401 });
+    }
+
+    // Verify the deck belongs to the user
+    const [existingDeck] = await db
+      .select({ id: userDecks.id })
+      .from(userDecks)
+      .where(and(eq(userDecks.id, id), eq(userDecks.userId, payload.userId)))
+      .limit(1);
+
+    if (!existingDeck) {
+      return NextResponse.json({ error: 'Deck not found' }, { status: 404 });
+    }
+
+    const body = await request.json();
+    const { commanderIds, deckData } = body;
+
+    const now = new Date();
+    const [updatedDeck] = await db
+      .update(userDecks)
+      .set({
+        commanderIds,
+        moxfieldData: deckData,
+        lastModifiedAt: now,
+        syncedWithMoxfieldAt: now,
+      })
+      .where(eq(userDecks.id, id))
+      .returning();
+
+    return NextResponse.json({
+      deck: {
+        id: updatedDeck.id,
+        lastModifiedAt: updatedDeck.lastModifiedAt,
+        syncedAt: updatedDeck.syncedWithMoxfieldAt,
+      },
+    });
+  } catch (error) {
+    console.error('Error syncing deck:', error);
+    return NextResponse.json({ error: 'Failed to sync deck' }, { status: 500 });
+  }
+}
@@ -0,0 +1,66 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { eq, and, isNotNull } from 'drizzle-orm';
+import { db, users, userDecks } from '@/lib/db';
+import { verifyToken, extractBearerToken } from '@/lib/auth';
+import { getUserDecks, MoxfieldError } from '@/lib/clients/moxfield';
+
+// GET /api/user/moxfield/decks - Public decks on the linked Moxfield account
+export async function GET(request: NextRequest) {
+  try {
+    const authHeader = request.headers.get('authorization');
+    const token = extractBearerToken(authHeader);
+
+    if (!token) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const payload = await verifyToken(token);
+    if (!payload) {
+      return NextResponse.json({ error: 'Invalid token' }, { status: 401 });
+    }
+
+    const [user] = await db
+      .select({
+        moxfieldLinked: users.moxfieldLinked,
+        moxfieldUsername: users.moxfieldUsername,
+      })
+      .from(users)
+      .where(eq(users.id, payload.userId))
+      .limit(1);
+
+    if (!user?.moxfieldLinked || !user.moxfieldUsername) {
+      return NextResponse.json(
+        { error: 'NOT_LINKED', message: 'Link a Moxfield account first' },
+        { status: 400 }
+      );
+    }
+
+    const [moxfieldDecks, savedDecks] = await Promise.all([
+      getUserDecks(user.moxfieldUsername),
+      db
+        .select({ moxfieldId: userDecks.moxfieldId })
+        .from(userDecks)
+        .where(and(eq(userDecks.userId, payload.userId), isNotNull(userDecks.moxfieldId))),
+    ]);
+
+    const savedIds = new Set(savedDecks.map((d) => d.moxfieldId));
+
+    return NextResponse.json({
+      username: user.moxfieldUsername,
+      decks: moxfieldDecks.map((deck) => ({
+        ...deck,
+        alreadyImported: savedIds.has(deck.id),
+      })),
+    });
+  } catch (error) {
+    if (error instanceof MoxfieldError) {
+      return NextResponse.json(
+        { error: 'MOXFIELD_ERROR', message: error.message },
+        { status: error.status === 404 ? 404 : 502 }
+      );
+    }
+
+    console.error('Error fetching Moxfield decks:', error);
+    return NextResponse.json({ error: 'Failed to fetch Moxfield decks' }, { status: 500 });
+  }
+}
@@ -0,0 +1,119 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { eq } from 'drizzle-orm';
+import { db, users } from '@/lib/db';
+import { verifyToken, extractBearerToken } from '@/lib/auth';
+import { getUserDecks, MoxfieldError } from '@/lib/clients/moxfield';
+
+const USERNAME_PATTERN = /^[a-zA-Z0-9_.-]{1,100}$/;
+
+// GET /api/user/moxfield - Linked Moxfield account
+export async function GET(request: NextRequest) {
+  try {
+    const authHeader = request.headers.get('authorization');
+    const token = extractBearerToken(authHeader);
+
+    if (!token) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const payload = await verifyToken(token);
+    if (!payload) {
+      return NextResponse.json({ error: 'Invalid token' }, { status: 401 });
+    }
+
+    const [user] = await db
+      .select({
+        moxfieldLinked: users.moxfieldLinked,
+        moxfieldUsername: users.moxfieldUsername,
+      })
+      .from(users)
+      .where(eq(users.id, payload.userId))
+      .limit(1);
+
+    if (!user) {
+      return NextResponse.json({ error: 'User not found' }, { status: 404 });
+    }
+
+    return NextResponse.json({
+      linked: !!user.moxfieldLinked && !!user.moxfieldUsername,
+      username: user.moxfieldUsername,
+    });
+  } catch (error) {
+    console.error('Error fetching Moxfield link:', error);
+    return NextResponse.json({ error: 'Failed to fetch Moxfield account' }, { status: 500 });
+  }
+}
+
+// PUT /api/user/moxfield - Link a Moxfield username
+export async function PUT(request: NextRequest) {
+  try {
+    const authHeader = request.headers.get('authorization');
+    const token = extractBearerToken(authHeader);
+
+    if (!token) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const payload = await verifyToken(token);
+    if (!payload) {
+      return NextResponse.json({ error: 'Invalid token' }, { status: 401 });
+    }
+
+    const body = await request.json();
+    const username = typeof body.username === 'string' ? body.username.trim() : '';
+
+    if (!USERNAME_PATTERN.test(username)) {
+      return NextResponse.json(
+        { error: 'INVALID_USERNAME', message: 'Please provide a valid Moxfield username' },
+        { status: 400 }
+      );
+    }
+
+    // Make sure the profile exists before linking it
+    await getUserDecks(username);
+
+    await db
+      .update(users)
+      .set({ moxfieldLinked: true, moxfieldUsername: username })
+      .where(eq(users.id, payload.userId));
+
+    return NextResponse.json({ linked: true, username });
+  } catch (error) {
+    if (error instanceof MoxfieldError) {
+      return NextResponse.json(
+        { error: 'MOXFIELD_ERROR', message: error.message },
+        { status: error.status === 404 ? 404 : 502 }
+      );
+    }
+
+    console.error('Error linking Moxfield account:', error);
+    return NextResponse.json({ error: 'Failed to link Moxfield account' }, { status: 500 });
+  }
+}
+
+// DELETE /api/user/moxfield - Unlink the Moxfield account
+export async function DELETE(request: NextRequest) {
+  try {
+    const authHeader = request.headers.get('authorization');
+    const token = extractBearerToken(authHeader);
+
+    if (!token) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const payload = await verifyToken(token);
+    if (!payload) {
+      return NextResponse.json({ error: 'Invalid token' }, { status: 401 });
+    }
+
+    await db
+      .update(users)
+      .set({ moxfieldLinked: false, moxfieldUsername: null })
+      .where(eq(users.id, payload.userId));
+
+    return NextResponse.json({ linked: false, username: null });
+  } catch (error) {
+    console.error('Error unlinking Moxfield account:', error);
+    return NextResponse.json({ error: 'Failed to unlink Moxfield account' }, { status: 500 });
+  }
+}
@@ -0,0 +1,86 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { eq } from 'drizzle-orm';
+import { db, users } from '@/lib/db';
+import { verifyToken, extractBearerToken } from '@/lib/auth';
+import { PRICE_KEYS, type PriceKey } from '@/types';
+
+// GET /api/user/preferences - Saved display preferences
+export async function GET(request: NextRequest) {
+  try {
+    const authHeader = request.headers.get('authorization');
+    const token = extractBearerToken(authHeader);
+
+    if (!token) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const payload = await verifyToken(token);
+    if (!payload) {
+      return NextResponse.json({ error: 'Invalid token' }, { status: 401 });
+    }
+
+    const [user] = await db
+      .select({ preferences: users.preferences })
+      .from(users)
+      .where(eq(users.id, payload.userId))
+      .limit(1);
+
+    if (!user) {
+      return NextResponse.json({ error: 'User not found' }, { status: 404 });
+    }
+
+    return NextResponse.json({ preferences: user.preferences ?? {} });
+  } catch (error) {
+    console.error('Error fetching preferences:', error);
+    return NextResponse.json({ error: 'Failed to fetch preferences' }, { status: 500 });
+  }
+}
+
+// PUT /api/user/preferences - Update display preferences, keeping unspecified ones
+export async function PUT(request: NextRequest) {
+  try {
+    const authHeader = request.headers.get('authorization');
+    const token = extractBearerToken(authHeader);
+
+    if (!token) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const payload = await verifyToken(token);
+    if (!payload) {
+      return NextResponse.json({ error: 'Invalid token' }, { status: 401 });
+    }
+
+    const body = await request.json();
+    const { priceKey } = body as { priceKey?: unknown };
+
+    if (priceKey !== undefined && !PRICE_KEYS.includes(priceKey as PriceKey)) {
+      return NextResponse.json(
+        { error: 'INVALID_PRICE_KEY', message: `priceKey must be one of: ${PRICE_KEYS.join(', ')}` },
+        { status: 400 }
+      );
+    }
+
+    const [user] = await db
+      .select({ preferences: users.preferences })
+      .from(users)
+      .where(eq(users.id, payload.userId))
+      .limit(1);
+
+    if (!user) {
+      return NextResponse.json({ error: 'User not found' }, { status: 404 });
+    }
+
+    const preferences = {
+      ...user.preferences,
+      ...(priceKey !== undefined && { priceKey: priceKey as PriceKey }),
+    };
+
+    await db.update(users).set({ preferences }).where(eq(users.id, payload.userId));
+
+    return NextResponse.json({ preferences });
+  } catch (error) {
+    console.error('Error updating preferences:', error);
+    return NextResponse.json({ error: 'Failed to update preferences' }, { status: 500 });
+  }
+}
@@ -1,6 +1,6 @@
 'use client';
 
-import { useEffect, useState, useMemo } from 'react';
+import { useEffect, useState, useMemo, useRef } from 'react';
 import { useParams } from 'next/navigation';
 import Link from 'next/link';
 import { Header } from '@/components/layout/Header';
@@ -9,7 +9,10 @@ import { ChatContainer, AuthGate } from '@/components/chat';
 import { Button } from '@/components/ui/button';
 import { Skeleton } from '@/components/ui/skeleton';
 import { useDeckStore } from '@/stores/deckStore';
+import { useChatStore } from '@/stores/chatStore';
 import { detectSynergies } from '@/lib/synergy-detector';
+import { analyzeCommanders, COMMANDER_PAIRING_NAMES } from '@/lib/commander-rules';
+import { estimateBracket } from '@/lib/bracket-estimator';
 import { calculateDeckStats } from '@/types';
 import type { DeckContext, DeckCombo, PotentialCombo } from '@/types';
 
@@ -21,6 +24,9 @@ export default function DeckChatPage() {
   const [combos, setCombos] = useState<DeckCombo[]>([]);
   const [potentialCombos, setPotentialCombos] = useState<PotentialCombo[]>([]);
   const [isLoadingCombos, setIsLoadingCombos] = useState(true);
+  const setChatSettings = useChatStore((state) => state.setSettings);
+  // Deck whose estimated bracket has already been put into the chat settings
+  const prefilledDeckId = useRef<string | null>(null);
 
   // Detect synergies
   const synergies = useMemo(() => {
@@ -30,9 +36,7 @@ export default function DeckChatPage() {
       ...currentDeck.commanders,
       ...currentDeck.mainboard.map((dc) => dc.card),
     ];
-    const commander = currentDeck.commanders[0];
-
-    return detectSynergies(allCards, commander);
+    return detectSynergies(allCards, currentDeck.commanders);
   }, [currentDeck]);
 
   // Calculate stats
@@ -47,6 +51,7 @@ export default function DeckChatPage() {
       if (!currentDeck) return;
 
       setIsLoadingCombos(true);
+      let detected: DeckCombo[] = [];
       try {
         const allCards = [
           ...currentDeck.commanders.map((c) => c.name),
@@ -58,13 +63,14 @@ export default function DeckChatPage() {
           headers: { 'Content-Type': 'application/json' },
           body: JSON.stringify({
             cards: allCards,
-            commander: currentDeck.commanders[0]?.name,
+            commanders: currentDeck.commanders.map((c) => c.name),
           }),
         });
 
         if (response.ok) {
           const data = await response.json();
-          setCombos(data.combos || []);
+          detected = data.combos || [];
+          setCombos(detected);
           setPotentialCombos(data.potentialCombos || []);
         }
       } catch (err) {
@@ -72,17 +78,22 @@ export default function DeckChatPage() {
       } finally {
         setIsLoadingCombos(false);
       }
+
+      // Start the conversation at the deck's estimated bracket; the user can still change it
+      if (prefilledDeckId.current !== currentDeck.id) {
+        prefilledDeckId.current = currentDeck.id;
+        setChatSettings({ bracketLevel: estimateBracket(currentDeck, detected).bracket });
+      }
     }
 
     checkCombos();
-  }, [currentDeck]);
+  }, [currentDeck, setChatSettings]);
 
   // Build deck context for the AI
   const deckContext: DeckContext | null = useMemo(() => {
     if (!currentDeck || !stats) return null;
 
-    // Get commander's color identity
-    const colorIdentity = currentDeck.commanders[0]?.colorIdentity || [];
+    const { pairing, companion } = analyzeCommanders(currentDeck);
 
     return {
       deckId: currentDeck.id,
@@ -94,7 +105,9 @@ export default function DeckChatPage() {
       synergies,
       combos,
       potentialCombos,
-      colorIdentity,
+      colorIdentity: stats.colorIdentity,
+      ...(currentDeck.commanders.length > 1 && { commanderPairing: COMMANDER_PAIRING_NAMES[pairing] }),
+      ...(companion && { companion: companion.name }),
       format: currentDeck.format,
     };
   }, [currentDeck, stats, synergies, combos, potentialCombos]);
@@ -15,8 +15,20 @@ import { Textarea } from '@/components/ui/textarea';
 import { Label } from '@/components/ui/label';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
 import { toast } from 'sonner';
-import { ArrowLeft } from 'lucide-react';
-import type { Card as CardType } from '@/types';
+import { ArrowLeft, Download, Loader2 } from 'lucide-react';
+import type { Card as CardType, Combo } from '@/types';
+
+// Spellbook's setup, steps and result as an editable "How It Works" text
+function describeSpellbookCombo(combo: Combo): string {
+  const sections = [
+    combo.prerequisites?.length ? `Setup:\n${combo.prerequisites.map((line) => `- ${line}`).join('\n')}` : null,
+    combo.manaNeeded ? `Mana needed: ${combo.manaNeeded}` : null,
+    combo.steps.length > 0 ? `Steps:\n${combo.steps.map((step, i) => `${i + 1}. ${step}`).join('\n')}` : null,
+    `Result: ${combo.result}`,
+    combo.sourceUrl ? `Source: ${combo.sourceUrl}` : null,
+  ];
+  return sections.filter(Boolean).join('\n\n');
+}
 
 export default function CreateDeckComboPage() {
   const router = useRouter();
@@ -30,6 +42,8 @@ export default function CreateDeckComboPage() {
   const [saving, setSaving] = useState(false);
   const [previewCard, setPreviewCard] = useState<CardType | null>(null);
   const [cardCache, setCardCache] = useState<Map<string, CardType>>(new Map());
+  const [spellbookInput, setSpellbookInput] = useState('');
+  const [importing, setImporting] = useState(false);
 
   // Build card map from current deck for quick lookup
   const deckCardMap = useCallback(() => {
@@ -120,6 +134,33 @@ export default function CreateDeckComboPage() {
     setSelectedCards((prev) => prev.filter((c) => c !== cardName));
   };
 
+  const handleImport = async () => {
+    if (!spellbookInput.trim()) return;
+
+    setImporting(true);
+    try {
+      const response = await fetch(`/api/combos/spellbook?id=${encodeURIComponent(spellbookInput.trim())}`);
+      const data = await response.json();
+
+      if (!response.ok) {
+        toast.error(data.message || 'Failed to import combo');
+        return;
+      }
+
+      const combo: Combo = data.combo;
+      setName(combo.result.slice(0, 255));
+      setDescription(describeSpellbookCombo(combo));
+      setSelectedCards(combo.cards);
+      fetchCardData(combo.cards[0]);
+      toast.success('Combo imported, review it and save');
+    } catch (error) {
+      console.error('Error importing combo:', error);
+      toast.error('Failed to import combo');
+    } finally {
+      setImporting(false);
+    }
+  };
+
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
 
@@ -199,6 +240,34 @@ export default function CreateDeckComboPage() {
           </p>
         </div>
 
+        <Card className="mb-6">
+          <CardHeader>
+            <CardTitle>Import from Commander Spellbook</CardTitle>
+            <CardDescription>
+              Paste a combo ID or URL to fill in the cards, setup and steps
+            </CardDescription>
+          </CardHeader>
+          <CardContent>
+            <div className="flex gap-2">
+              <Input
+                value={spellbookInput}
+                onChange={(e) => setSpellbookInput(e.target.value)}
+                onKeyDown={(e) => {
+                  if (e.key === 'Enter') {
+                    e.preventDefault();
+                    handleImport();
+                  }
+                }}
+                placeholder="e.g., https://commanderspellbook.com/combo/1414-2730/"
+              />
+              <Button type="button" variant="outline" onClick={handleImport} disabled={importing || !spellbookInput.trim()}>
+                {importing ? <Loader2 className="h-4 w-4 mr-2 animate-spin" /> : <Download className="h-4 w-4 mr-2" />}
+                Import
+              </Button>
+            </div>
+          </CardContent>
+        </Card>
+
         <Card>
           <CardHeader>
             <CardTitle>Combo Details</CardTitle>
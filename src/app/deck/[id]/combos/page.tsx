@@ -2,7 +2,7 @@
 
 import { useEffect, useState, useMemo, useCallback } from 'react';
 import Link from 'next/link';
-import { Sparkles, Zap, Target, X, Loader2, Plus, Wand2 } from 'lucide-react';
+import { Sparkles, Zap, Target, X, Loader2, Plus, Wand2, RefreshCw, AlertTriangle, Network } from 'lucide-react';
 import { useAuth } from '@/context/AuthContext';
 import { Header } from '@/components/layout/Header';
 import { Footer } from '@/components/layout/Footer';
@@ -13,12 +13,30 @@ import { Skeleton } from '@/components/ui/skeleton';
 import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
 import { ManaText } from '@/components/ui/mana-symbol';
 import { CardPreview } from '@/components/card/CardPreview';
+import { ComboNotes, FavoriteComboButton } from '@/components/combo/SavedComboControls';
+import { ComboUpgradeActions } from '@/components/combo/ComboUpgradeActions';
+import { CardRelationshipGraph } from '@/components/combo/CardRelationshipGraph';
+import { ComboExecutionGuide } from '@/components/combo/ComboExecutionGuide';
 import { useDeckStore } from '@/stores/deckStore';
 import { detectSynergies } from '@/lib/synergy-detector';
-import type { Card as CardType, DeckCombo, PotentialCombo, Synergy } from '@/types';
+import { rankComboUpgrades, type ComboUpgrade } from '@/lib/combo-planner';
+import {
+  combineColorIdentity,
+  COMBO_CATEGORY_LABELS,
+  getComboFingerprint,
+  type Card as CardType,
+  type DeckCombo,
+  type PotentialCombo,
+  type SavedComboState,
+  type StoredComboResults,
+  type Synergy,
+} from '@/types';
 
 // Scryfall API for fetching cards not in deck
 const SCRYFALL_API = 'https://api.scryfall.com';
+// Most names /api/cards/bulk accepts per request
+const BULK_CARD_LIMIT = 300;
+const UPGRADES_PAGE_SIZE = 20;
 
 interface ScryfallCard {
   id: string;
@@ -64,6 +82,7 @@ interface ScryfallCard {
     usd?: string;
     usd_foil?: string;
     eur?: string;
+    tix?: string;
   };
   legalities: Record<string, string>;
   scryfall_uri: string;
@@ -112,7 +131,9 @@ function mapScryfallToCard(data: ScryfallCard): CardType {
     })),
     prices: {
       usd: data.prices.usd,
+      usdFoil: data.prices.usd_foil,
       eur: data.prices.eur,
+      tix: data.prices.tix,
     },
     rarity: data.rarity,
     setCode: data.set,
@@ -157,11 +178,16 @@ interface CustomCombo {
 
 export default function CombosPage() {
   const { user } = useAuth();
-  const { currentDeck } = useDeckStore();
+  const { currentDeck, savedDeckId, priceKey } = useDeckStore();
   const [combos, setCombos] = useState<DeckCombo[]>([]);
   const [potentialCombos, setPotentialCombos] = useState<PotentialCombo[]>([]);
+  const [differentCommanderCombos, setDifferentCommanderCombos] = useState<DeckCombo[]>([]);
+  const [extraColorCombos, setExtraColorCombos] = useState<PotentialCombo[]>([]);
   const [isLoading, setIsLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
+  const [isChecking, setIsChecking] = useState(false);
+  const [checkedAt, setCheckedAt] = useState<string | null>(null);
+  const [isStale, setIsStale] = useState(false);
   const [selectedCard, setSelectedCard] = useState<CardType | null>(null);
   const [loadingCardName, setLoadingCardName] = useState<string | null>(null);
   const [externalCardCache, setExternalCardCache] = useState<Map<string, CardType>>(new Map());
@@ -255,8 +281,8 @@ export default function CombosPage() {
         ...currentDeck.sideboard.map(dc => dc.card.name),
       ];
 
-      // Get commander's color identity for filtering suggestions
-      const colorIdentity = currentDeck.commanders[0]?.colorIdentity || [];
+      // Combined identity of all commanders (partners, Background) for filtering suggestions
+      const colorIdentity = combineColorIdentity(currentDeck.commanders);
 
       const response = await fetch('/api/synergies/suggestions', {
         method: 'POST',
@@ -297,11 +323,77 @@ export default function CombosPage() {
       ...currentDeck.commanders,
       ...currentDeck.mainboard.map((dc) => dc.card),
     ];
-    const commander = currentDeck.commanders[0];
-
-    return detectSynergies(allCards, commander);
+    return detectSynergies(allCards, currentDeck.commanders);
   }, [currentDeck]);
 
+  // Missing combo pieces, looked up for prices and colour identity
+  const missingNamesRequest = useMemo(
+    () =>
+      JSON.stringify(
+        [...new Set([...potentialCombos, ...extraColorCombos].flatMap((potential) => potential.missingPieces))].sort()
+      ),
+    [potentialCombos, extraColorCombos]
+  );
+  // Tagged with the request it answers, so a stale response reads as loading
+  const [missingCardData, setMissingCardData] = useState<{ request: string; cards: Map<string, CardType> } | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+    const names: string[] = JSON.parse(missingNamesRequest);
+
+    async function fetchMissingCards() {
+      const found = new Map<string, CardType>();
+      for (let i = 0; i < names.length; i += BULK_CARD_LIMIT) {
+        try {
+          const response = await fetch('/api/cards/bulk', {
+            method: 'POST',
+            headers: { 'Content-Type': 'application/json' },
+            body: JSON.stringify({ cards: names.slice(i, i + BULK_CARD_LIMIT) }),
+          });
+          if (!response.ok) continue;
+
+          const data: { cards: CardType[] } = await response.json();
+          for (const card of data.cards) {
+            // Spellbook names double-faced cards either way
+            found.set(card.name.toLowerCase(), card);
+            found.set(card.name.split(' // ')[0].toLowerCase(), card);
+          }
+        } catch (err) {
+          console.error('Error fetching missing combo pieces:', err);
+        }
+      }
+      if (!cancelled) setMissingCardData({ request: missingNamesRequest, cards: found });
+    }
+
+    fetchMissingCards();
+    return () => {
+      cancelled = true;
+    };
+  }, [missingNamesRequest]);
+
+  const [rankedUpgrades, extraColorUpgrades] = useMemo(() => {
+    const options = {
+      cards: missingCardData?.cards ?? new Map<string, CardType>(),
+      colorIdentity: combineColorIdentity(currentDeck?.commanders ?? []),
+      priceKey,
+    };
+    return [rankComboUpgrades(potentialCombos, options), rankComboUpgrades(extraColorCombos, options)];
+  }, [potentialCombos, extraColorCombos, missingCardData, currentDeck, priceKey]);
+  const [visibleUpgrades, setVisibleUpgrades] = useState(UPGRADES_PAGE_SIZE);
+  // Near-miss combos whose execution guide has been opened
+  const [openGuides, setOpenGuides] = useState<Set<string>>(new Set());
+
+  // Suggested cuts never touch a combo piece or a synergy card
+  const protectedNames = useMemo(
+    () =>
+      new Set([
+        ...[...combos, ...differentCommanderCombos].flatMap((dc) => dc.combo.cards),
+        ...[...potentialCombos, ...extraColorCombos].flatMap((potential) => potential.cards),
+        ...synergies.flatMap((synergy) => synergy.cards),
+      ]),
+    [combos, differentCommanderCombos, potentialCombos, extraColorCombos, synergies]
+  );
+
   // Fetch custom combos when user is authenticated and deck is loaded
   useEffect(() => {
     async function fetchCustomCombos() {
@@ -330,52 +422,126 @@ export default function CombosPage() {
     fetchCustomCombos();
   }, [user, currentDeck]);
 
-  useEffect(() => {
-    async function checkCombos() {
-      if (!currentDeck) return;
+  // Check the deck (from the server's cache unless refreshing); for a signed-in user's saved deck the results are stored
+  const runComboCheck = useCallback(async (hasResults: boolean, refresh = false) => {
+    if (!currentDeck) return;
 
-      setIsLoading(true);
-      setError(null);
+    if (!hasResults) setIsLoading(true);
+    setIsChecking(true);
+    setError(null);
 
-      try {
-        const allCards = [
-          ...currentDeck.commanders.map((c) => c.name),
-          ...currentDeck.mainboard.map((dc) => dc.card.name),
-        ];
-
-        const response = await fetch('/api/combos/check', {
-          method: 'POST',
-          headers: { 'Content-Type': 'application/json' },
-          body: JSON.stringify({
-            cards: allCards,
-            commander: currentDeck.commanders[0]?.name,
-          }),
-        });
+    try {
+      const allCards = [
+        ...currentDeck.commanders.map((c) => c.name),
+        ...currentDeck.mainboard.map((dc) => dc.card.name),
+      ];
 
-        if (!response.ok) {
-          if (response.status === 503) {
-            setError(
-              'Combo detection service is currently unavailable. Please try again later.'
-            );
-          } else {
-            setError('Failed to check combos. Please try again.');
-          }
-          return;
+      const token = user && savedDeckId ? localStorage.getItem('decktutor-token') : null;
+      const response = await fetch('/api/combos/check', {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          ...(token ? { Authorization: `Bearer ${token}` } : {}),
+        },
+        body: JSON.stringify({
+          cards: allCards,
+          commanders: currentDeck.commanders.map((c) => c.name),
+          deckId: token ? savedDeckId : undefined,
+          refresh,
+        }),
+      });
+
+      if (!response.ok) {
+        // Keep showing what we already have rather than replacing it with an error
+        if (hasResults) {
+          setIsStale(true);
+        } else if (response.status === 503) {
+          setError(
+            'Combo detection service is currently unavailable. Please try again later.'
+          );
+        } else {
+          setError('Failed to check combos. Please try again.');
         }
+        return;
+      }
 
-        const data = await response.json();
-        setCombos(data.combos || []);
-        setPotentialCombos(data.potentialCombos || []);
-      } catch (err) {
-        console.error('Combo check error:', err);
+      const data = await response.json();
+      setCombos(data.combos || []);
+      setPotentialCombos(data.potentialCombos || []);
+      setDifferentCommanderCombos(data.differentCommanderCombos || []);
+      setExtraColorCombos(data.extraColorCombos || []);
+      setCheckedAt(data.checkedAt ?? null);
+      setIsStale(!!data.stale);
+    } catch (err) {
+      console.error('Combo check error:', err);
+      if (hasResults) {
+        setIsStale(true);
+      } else {
         setError('Failed to connect to Commander Spellbook. Please try again.');
-      } finally {
-        setIsLoading(false);
       }
+    } finally {
+      setIsLoading(false);
+      setIsChecking(false);
     }
+  }, [currentDeck, user, savedDeckId]);
 
-    checkCombos();
-  }, [currentDeck]);
+  // Show stored results straight away and only re-check when the deck has changed since
+  useEffect(() => {
+    async function loadCombos() {
+      if (!currentDeck) return;
+
+      if (user && savedDeckId) {
+        try {
+          const token = localStorage.getItem('decktutor-token');
+          const response = await fetch(`/api/user/decks/${savedDeckId}/combo-results`, {
+            headers: {
+              Authorization: `Bearer ${token}`,
+            },
+          });
+
+          if (response.ok) {
+            const { results }: { results: StoredComboResults | null } = await response.json();
+            if (results) {
+              setCombos(results.combos);
+              setPotentialCombos(results.potentialCombos);
+              setDifferentCommanderCombos(results.differentCommanderCombos);
+              setExtraColorCombos(results.extraColorCombos);
+              setCheckedAt(results.checkedAt);
+              setError(null);
+              setIsLoading(false);
+
+              const fingerprint = getComboFingerprint({
+                cards: [
+                  ...currentDeck.commanders.map((c) => c.name),
+                  ...currentDeck.mainboard.map((dc) => dc.card.name),
+                ],
+                commanders: currentDeck.commanders.map((c) => c.name),
+              });
+              if (results.fingerprint === fingerprint) return;
+
+              await runComboCheck(true);
+              return;
+            }
+          }
+        } catch (err) {
+          console.error('Error fetching stored combos:', err);
+        }
+      }
+
+      await runComboCheck(false);
+    }
+
+    loadCombos();
+  }, [currentDeck, user, savedDeckId, runComboCheck]);
+
+  const updateSavedState = (saved: SavedComboState) => {
+    const withDeckCombo = (prev: DeckCombo[]) => prev.map((dc) => (dc.saved?.id === saved.id ? { ...dc, saved } : dc));
+    const withPotential = (prev: PotentialCombo[]) => prev.map((pc) => (pc.saved?.id === saved.id ? { ...pc, saved } : pc));
+    setCombos(withDeckCombo);
+    setDifferentCommanderCombos(withDeckCombo);
+    setPotentialCombos(withPotential);
+    setExtraColorCombos(withPotential);
+  };
 
   if (!currentDeck) {
     return (
@@ -427,6 +593,150 @@ export default function CombosPage() {
     );
   };
 
+  // Deck cards first, then missing pieces that have been looked up
+  const findComboCard = (name: string): CardType | undefined =>
+    findCard(name) ?? missingCardData?.cards.get(name.toLowerCase());
+
+  const handleComboCardClick = (name: string) => {
+    if (findCard(name)) {
+      handleCardClick(name);
+    } else {
+      fetchExternalCard(name);
+    }
+  };
+
+  const renderDeckCombo = (deckCombo: DeckCombo) => (
+    <Card key={deckCombo.combo.id}>
+      <CardHeader>
+        <div className="flex items-start justify-between gap-2">
+          <CardTitle className="text-lg">
+            {deckCombo.combo.name || 'Combo'}
+          </CardTitle>
+          {deckCombo.saved && savedDeckId && (
+            <FavoriteComboButton deckId={savedDeckId} saved={deckCombo.saved} onChange={updateSavedState} />
+          )}
+        </div>
+        <CardDescription>
+          <ManaText text={deckCombo.combo.result} />
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div>
+          <p className="text-sm font-medium mb-2">Cards:</p>
+          <div className="flex flex-wrap gap-1">
+            {deckCombo.combo.cards.map((card) => (
+              <CardBadge key={card} name={card} variant="secondary" />
+            ))}
+          </div>
+        </div>
+        <ComboExecutionGuide combo={deckCombo.combo} findCard={findComboCard} onCardClick={handleComboCardClick} />
+        {deckCombo.saved && savedDeckId && (
+          <ComboNotes deckId={savedDeckId} saved={deckCombo.saved} onChange={updateSavedState} />
+        )}
+        {deckCombo.combo.sourceUrl && (
+          <a
+            href={deckCombo.combo.sourceUrl}
+            target="_blank"
+            rel="noopener noreferrer"
+            className="text-xs text-muted-foreground hover:underline"
+          >
+            View on Commander Spellbook →
+          </a>
+        )}
+      </CardContent>
+    </Card>
+  );
+
+  const renderPotentialCombo = (upgrade: ComboUpgrade, i: number) => {
+    const { potential } = upgrade;
+    return (
+      <Card key={potential.combo?.id ?? i}>
+        <CardHeader>
+          <div className="flex items-start justify-between gap-2">
+            <CardTitle className="text-lg">
+              <ManaText text={potential.description} />
+            </CardTitle>
+            {potential.saved && savedDeckId && (
+              <FavoriteComboButton deckId={savedDeckId} saved={potential.saved} onChange={updateSavedState} />
+            )}
+          </div>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <div>
+            <p className="text-sm font-medium mb-2">You have:</p>
+            <div className="flex flex-wrap gap-1">
+              {potential.cards.map((card) => (
+                <CardBadge key={card} name={card} variant="outline" />
+              ))}
+            </div>
+          </div>
+          <div>
+            <p className="text-sm font-medium mb-2">Missing pieces:</p>
+            <div className="flex flex-wrap gap-1">
+              {potential.missingPieces.map((cardName) => {
+                const isLoading = loadingCardName === cardName;
+                const isSelected = selectedCard?.name.toLowerCase() === cardName.toLowerCase();
+                return (
+                  <Badge
+                    key={cardName}
+                    variant="destructive"
+                    className={`cursor-pointer transition-all hover:scale-105 ${
+                      isSelected ? 'ring-2 ring-primary ring-offset-1' : ''
+                    }`}
+                    onClick={() => fetchExternalCard(cardName)}
+                    title="Click to preview"
+                  >
+                    {isLoading ? (
+                      <span className="flex items-center gap-1">
+                        <Loader2 className="h-3 w-3 animate-spin" />
+                        {cardName}
+                      </span>
+                    ) : (
+                      cardName
+                    )}
+                  </Badge>
+                );
+              })}
+            </div>
+          </div>
+          {potential.combo && (
+            openGuides.has(potential.combo.id) ? (
+              <ComboExecutionGuide combo={potential.combo} findCard={findComboCard} onCardClick={handleComboCardClick} />
+            ) : (
+              <Button
+                variant="ghost"
+                size="sm"
+                className="h-7 px-2 text-xs"
+                onClick={() => setOpenGuides((prev) => new Set(prev).add(potential.combo!.id))}
+              >
+                How to go off
+              </Button>
+            )
+          )}
+          {potential.saved && savedDeckId && (
+            <ComboNotes deckId={savedDeckId} saved={potential.saved} onChange={updateSavedState} />
+          )}
+          {potential.sourceUrl && (
+            <a
+              href={potential.sourceUrl}
+              target="_blank"
+              rel="noopener noreferrer"
+              className="text-xs text-muted-foreground hover:underline"
+            >
+              View on Commander Spellbook →
+            </a>
+          )}
+          <ComboUpgradeActions
+            upgrade={upgrade}
+            rank={i + 1}
+            priceKey={priceKey}
+            protectedNames={protectedNames}
+          />
+        </CardContent>
+      </Card>
+    );
+  };
+
   return (
     <div className="flex min-h-screen flex-col">
       <Header />
@@ -438,14 +748,40 @@ export default function CombosPage() {
             <p className="text-sm text-muted-foreground">
               Combos and synergies in {currentDeck.name}
             </p>
+            {checkedAt && (
+              <p className="text-xs text-muted-foreground">
+                {isChecking ? 'Re-checking combos...' : `Combos checked ${new Date(checkedAt).toLocaleString()}`}
+              </p>
+            )}
+          </div>
+          <div className="flex items-center gap-2">
+            {checkedAt && (
+              <Button
+                variant="ghost"
+                size="sm"
+                onClick={() => runComboCheck(true, true)}
+                disabled={isChecking}
+                title="Check Commander Spellbook again"
+              >
+                <RefreshCw className={`h-4 w-4 mr-2 ${isChecking ? 'animate-spin' : ''}`} />
+                Re-check
+              </Button>
+            )}
+            <Button variant="outline" asChild>
+              <Link href={`/deck/${currentDeck.id}`}>Back to Deck</Link>
+            </Button>
           </div>
-          <Button variant="outline" asChild>
-            <Link href={`/deck/${currentDeck.id}`}>Back to Deck</Link>
-          </Button>
         </div>
 
+        {isStale && checkedAt && !isChecking && (
+          <div className="mb-6 rounded-md border border-yellow-500/30 bg-yellow-500/10 px-4 py-3 text-sm text-yellow-700 dark:text-yellow-400">
+            Commander Spellbook is unavailable right now. Showing the last known combos, checked{' '}
+            {new Date(checkedAt).toLocaleString()}.
+          </div>
+        )}
+
         <Tabs defaultValue="synergies" className="space-y-6">
-          <TabsList className="grid w-full grid-cols-4">
+          <TabsList className="grid w-full grid-cols-5">
             <TabsTrigger value="synergies" className="flex items-center gap-2">
               <Sparkles className="h-4 w-4" />
               <span className="hidden sm:inline">Synergies</span> ({synergies.length})
@@ -462,6 +798,10 @@ export default function CombosPage() {
               <Wand2 className="h-4 w-4" />
               <span className="hidden sm:inline">Custom</span> ({customCombos.length})
             </TabsTrigger>
+            <TabsTrigger value="graph" className="flex items-center gap-2">
+              <Network className="h-4 w-4" />
+              <span className="hidden sm:inline">Graph</span>
+            </TabsTrigger>
           </TabsList>
 
           {/* Synergies Tab */}
@@ -618,48 +958,22 @@ export default function CombosPage() {
 
             {!isLoading && !error && combos.length > 0 && (
               <div className="grid gap-4 md:grid-cols-2">
-                {combos.map((deckCombo, i) => (
-                  <Card key={i}>
-                    <CardHeader>
-                      <CardTitle className="text-lg">
-                        {deckCombo.combo.name || 'Combo'}
-                      </CardTitle>
-                      <CardDescription>
-                        <ManaText text={deckCombo.combo.result} />
-                      </CardDescription>
-                    </CardHeader>
-                    <CardContent className="space-y-4">
-                      <div>
-                        <p className="text-sm font-medium mb-2">Cards:</p>
-                        <div className="flex flex-wrap gap-1">
-                          {deckCombo.combo.cards.map((card) => (
-                            <CardBadge key={card} name={card} variant="secondary" />
-                          ))}
-                        </div>
-                      </div>
-                      {deckCombo.combo.steps.length > 0 && (
-                        <div>
-                          <p className="text-sm font-medium mb-2">How it works:</p>
-                          <ol className="text-sm text-muted-foreground list-decimal list-inside space-y-1">
-                            {deckCombo.combo.steps.map((step, j) => (
-                              <li key={j}><ManaText text={step} /></li>
-                            ))}
-                          </ol>
-                        </div>
-                      )}
-                      {deckCombo.combo.sourceUrl && (
-                        <a
-                          href={deckCombo.combo.sourceUrl}
-                          target="_blank"
-                          rel="noopener noreferrer"
-                          className="text-xs text-muted-foreground hover:underline"
-                        >
-                          View on Commander Spellbook →
-                        </a>
-                      )}
-                    </CardContent>
-                  </Card>
-                ))}
+                {combos.map(renderDeckCombo)}
+              </div>
+            )}
+
+            {!isLoading && !error && differentCommanderCombos.length > 0 && (
+              <div className="space-y-4">
+                <div>
+                  <h2 className="text-lg font-semibold">{COMBO_CATEGORY_LABELS['different-commander']}</h2>
+                  <p className="text-sm text-muted-foreground">
+                    Every piece is in your deck, but one of them has to be your commander
+                    for the combo to work.
+                  </p>
+                </div>
+                <div className="grid gap-4 md:grid-cols-2">
+                  {differentCommanderCombos.map(renderDeckCombo)}
+                </div>
               </div>
             )}
           </TabsContent>
@@ -688,70 +1002,36 @@ export default function CombosPage() {
             {!isLoading && !error && potentialCombos.length > 0 && (
               <>
                 <p className="text-muted-foreground">
-                  Add these cards to complete powerful combos:
+                  Add these cards to complete powerful combos. Ranked by colour legality,
+                  pieces missing, other combos completed along the way, and cost:
                 </p>
                 <div className="grid gap-4 md:grid-cols-2">
-                  {potentialCombos.map((potential, i) => (
-                    <Card key={i}>
-                      <CardHeader>
-                        <CardTitle className="text-lg">
-                          <ManaText text={potential.description} />
-                        </CardTitle>
-                      </CardHeader>
-                      <CardContent className="space-y-4">
-                        <div>
-                          <p className="text-sm font-medium mb-2">You have:</p>
-                          <div className="flex flex-wrap gap-1">
-                            {potential.cards.map((card) => (
-                              <CardBadge key={card} name={card} variant="outline" />
-                            ))}
-                          </div>
-                        </div>
-                        <div>
-                          <p className="text-sm font-medium mb-2">Missing pieces:</p>
-                          <div className="flex flex-wrap gap-1">
-                            {potential.missingPieces.map((cardName) => {
-                              const isLoading = loadingCardName === cardName;
-                              const isSelected = selectedCard?.name.toLowerCase() === cardName.toLowerCase();
-                              return (
-                                <Badge
-                                  key={cardName}
-                                  variant="destructive"
-                                  className={`cursor-pointer transition-all hover:scale-105 ${
-                                    isSelected ? 'ring-2 ring-primary ring-offset-1' : ''
-                                  }`}
-                                  onClick={() => fetchExternalCard(cardName)}
-                                  title="Click to preview"
-                                >
-                                  {isLoading ? (
-                                    <span className="flex items-center gap-1">
-                                      <Loader2 className="h-3 w-3 animate-spin" />
-                                      {cardName}
-                                    </span>
-                                  ) : (
-                                    cardName
-                                  )}
-                                </Badge>
-                              );
-                            })}
-                          </div>
-                        </div>
-                        {potential.sourceUrl && (
-                          <a
-                            href={potential.sourceUrl}
-                            target="_blank"
-                            rel="noopener noreferrer"
-                            className="text-xs text-muted-foreground hover:underline"
-                          >
-                            View on Commander Spellbook →
-                          </a>
-                        )}
-                      </CardContent>
-                    </Card>
-                  ))}
+                  {rankedUpgrades.slice(0, visibleUpgrades).map(renderPotentialCombo)}
                 </div>
+                {rankedUpgrades.length > visibleUpgrades && (
+                  <div className="flex justify-center">
+                    <Button variant="outline" onClick={() => setVisibleUpgrades(visibleUpgrades + UPGRADES_PAGE_SIZE)}>
+                      Show more ({rankedUpgrades.length - visibleUpgrades} left)
+                    </Button>
+                  </div>
+                )}
               </>
             )}
+
+            {!isLoading && !error && extraColorCombos.length > 0 && (
+              <div className="space-y-4">
+                <div>
+                  <h2 className="text-lg font-semibold">{COMBO_CATEGORY_LABELS['extra-colors']}</h2>
+                  <p className="text-sm text-muted-foreground">
+                    The missing pieces are outside your commander&apos;s colour identity, so
+                    these need a different commander to be legal.
+                  </p>
+                </div>
+                <div className="grid gap-4 md:grid-cols-2">
+                  {extraColorUpgrades.map(renderPotentialCombo)}
+                </div>
+              </div>
+            )}
           </TabsContent>
 
           {/* Custom Combos Tab */}
@@ -815,20 +1095,30 @@ export default function CombosPage() {
                       const missingCards = combo.cardNames.filter(
                         (name) => !cardMap.has(name.toLowerCase())
                       );
+                      const isBroken = missingCards.length > 0;
 
                       return (
-                        <Card key={combo.id}>
+                        <Card key={combo.id} className={isBroken ? 'border-destructive/50' : undefined}>
                           <CardHeader>
-                            <div className="flex items-center justify-between">
+                            <div className="flex items-center justify-between gap-2">
                               <CardTitle className="text-lg">{combo.name}</CardTitle>
-                              <Badge
-                                variant={
-                                  missingCards.length === 0 ? 'default' : 'secondary'
-                                }
-                              >
-                                {presentCards.length}/{combo.cardNames.length} pieces
-                              </Badge>
+                              <div className="flex flex-shrink-0 items-center gap-1">
+                                {isBroken && <Badge variant="destructive">Broken</Badge>}
+                                <Badge
+                                  variant={
+                                    missingCards.length === 0 ? 'default' : 'secondary'
+                                  }
+                                >
+                                  {presentCards.length}/{combo.cardNames.length} pieces
+                                </Badge>
+                              </div>
                             </div>
+                            {isBroken && (
+                              <CardDescription className="flex items-center gap-1 text-destructive">
+                                <AlertTriangle className="h-4 w-4 flex-shrink-0" />
+                                No longer in the deck: {missingCards.join(', ')}
+                              </CardDescription>
+                            )}
                           </CardHeader>
                           <CardContent className="space-y-4">
                             <div>
@@ -896,6 +1186,23 @@ export default function CombosPage() {
               </>
             )}
           </TabsContent>
+
+          {/* Graph Tab */}
+          <TabsContent value="graph" className="space-y-6">
+            <p className="text-muted-foreground">
+              How the deck&apos;s combos and synergies connect. Bigger cards take part in more of them.
+            </p>
+            {isLoading ? (
+              <Skeleton className="h-96 w-full" />
+            ) : (
+              <CardRelationshipGraph
+                combos={combos}
+                synergies={synergies}
+                selectedName={selectedCard?.name}
+                onCardClick={handleCardClick}
+              />
+            )}
+          </TabsContent>
         </Tabs>
       </main>
 
@@ -11,52 +11,74 @@ import { DeckStatsSummary, ManaCurve } from '@/components/deck/DeckStats';
 import { CardPreview } from '@/components/card/CardPreview';
 import { CardImage } from '@/components/card/CardImage';
 import { ExportDeckModal } from '@/components/deck/ExportDeckModal';
+import { PullFromSourceButton } from '@/components/deck/PullFromSourceButton';
+import { DeckValueChart } from '@/components/deck/DeckValueChart';
+import { BracketEstimateCard } from '@/components/deck/BracketEstimateCard';
 import { Button } from '@/components/ui/button';
 import { Card, CardContent } from '@/components/ui/card';
 import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
-import { X, RefreshCw, Pencil, Check, Download } from 'lucide-react';
+import { X, RefreshCw, Pencil, Check, Download, LineChart } from 'lucide-react';
 import { Input } from '@/components/ui/input';
 import { useDeckStore } from '@/stores/deckStore';
 import { useAuth } from '@/context/AuthContext';
-import { calculateDeckStats, type Deck, type Card as CardType, type DeckCard } from '@/types';
+import { analyzeCommanders, COMMANDER_PAIRING_NAMES } from '@/lib/commander-rules';
+import {
+  calculateDeckStats,
+  formatPrice,
+  getCardPrice,
+  PRICE_KEYS,
+  type Deck,
+  type Card as CardType,
+  type DeckCard,
+  type PriceKey,
+} from '@/types';
 
 function isLand(card: CardType): boolean {
   return card.typeLine.toLowerCase().includes('land');
 }
 
-function calculateDeckValue(deck: Deck, excludeLands: boolean = false): number {
+function calculateDeckValue(deck: Deck, excludeLands: boolean = false, priceKey: PriceKey = 'usd'): number {
   let total = 0;
 
   // Commanders
   for (const commander of deck.commanders) {
     if (excludeLands && isLand(commander)) continue;
-    const price = parseFloat(commander.prices?.usd || '0');
-    if (!isNaN(price)) total += price;
+    total += getCardPrice(commander, priceKey) ?? 0;
   }
 
   // Mainboard
   for (const dc of deck.mainboard) {
     if (excludeLands && isLand(dc.card)) continue;
-    const price = parseFloat(dc.card.prices?.usd || '0');
-    if (!isNaN(price)) total += price * dc.quantity;
+    total += (getCardPrice(dc.card, priceKey) ?? 0) * dc.quantity;
   }
 
   // Sideboard
   for (const dc of deck.sideboard) {
     if (excludeLands && isLand(dc.card)) continue;
-    const price = parseFloat(dc.card.prices?.usd || '0');
-    if (!isNaN(price)) total += price * dc.quantity;
+    total += (getCardPrice(dc.card, priceKey) ?? 0) * dc.quantity;
   }
 
   return total;
 }
 
+// The cards counted by calculateDeckValue, for the value history chart
+function getValuedCards(deck: Deck, excludeLands: boolean): Array<{ id: string; quantity: number }> {
+  return [
+    ...deck.commanders.map((card) => ({ card, quantity: 1 })),
+    ...deck.mainboard,
+    ...deck.sideboard,
+  ]
+    .filter(({ card }) => !excludeLands || !isLand(card))
+    .map(({ card, quantity }) => ({ id: card.id, quantity }));
+}
+
 export default function DeckPage() {
   const params = useParams();
   const deckId = params.id as string;
   const {
     currentDeck,
     selectedCard,
+    priceKey,
     setCurrentDeck,
     setSelectedCard,
     setSavedDeckSnapshot,
@@ -68,8 +90,10 @@ export default function DeckPage() {
   const [fetchAttempted, setFetchAttempted] = useState(false);
   const [showCheapest, setShowCheapest] = useState(false);
   const [excludeLands, setExcludeLands] = useState(false);
-  const [cheapestValue, setCheapestValue] = useState<number | null>(null);
-  const [cheapestValueNoLands, setCheapestValueNoLands] = useState<number | null>(null);
+  const [showValueHistory, setShowValueHistory] = useState(false);
+  // Cheapest totals for every price key, so switching currency needs no refetch
+  const [cheapestValue, setCheapestValue] = useState<Record<PriceKey, number> | null>(null);
+  const [cheapestValueNoLands, setCheapestValueNoLands] = useState<Record<PriceKey, number> | null>(null);
   const [isLoadingCheapest, setIsLoadingCheapest] = useState(false);
   const [isEditingName, setIsEditingName] = useState(false);
   const [editedName, setEditedName] = useState('');
@@ -107,6 +131,8 @@ export default function DeckPage() {
               format: savedDeck.format || 'commander',
               moxfieldId: savedDeck.moxfieldId || undefined,
               moxfieldUrl: savedDeck.deckData.moxfieldUrl || (savedDeck.moxfieldId ? `https://www.moxfield.com/decks/${savedDeck.moxfieldId}` : undefined),
+              source: savedDeck.deckData.source,
+              sourceUrl: savedDeck.deckData.sourceUrl,
               importedAt: savedDeck.createdAt,
               lastModifiedAt: savedDeck.lastModifiedAt,
               commanders: savedDeck.deckData.commanders || [],
@@ -140,6 +166,8 @@ export default function DeckPage() {
             format: sharedDeck.format || 'commander',
             moxfieldId: sharedDeck.moxfieldId || undefined,
             moxfieldUrl: sharedDeck.deckData.moxfieldUrl || (sharedDeck.moxfieldId ? `https://www.moxfield.com/decks/${sharedDeck.moxfieldId}` : undefined),
+            source: sharedDeck.deckData.source,
+            sourceUrl: sharedDeck.deckData.sourceUrl,
             importedAt: sharedDeck.createdAt,
             lastModifiedAt: sharedDeck.lastModifiedAt,
             commanders: sharedDeck.deckData.commanders || [],
@@ -204,7 +232,8 @@ export default function DeckPage() {
   }
 
   const stats = calculateDeckStats(deck);
-  const deckValue = calculateDeckValue(deck, excludeLands);
+  const commanderAnalysis = analyzeCommanders(deck);
+  const deckValue = calculateDeckValue(deck, excludeLands, priceKey);
 
   const fetchCheapestValue = async (excludeLandsParam: boolean) => {
     const cacheKey = excludeLandsParam ? cheapestValueNoLands : cheapestValue;
@@ -227,7 +256,7 @@ export default function DeckPage() {
         oracleId: card.oracleId,
         name: card.name,
         quantity,
-        currentPrice: parseFloat(card.prices?.usd || '0') || 0,
+        currentPrices: Object.fromEntries(PRICE_KEYS.map((key) => [key, getCardPrice(card, key) ?? 0])),
       }));
 
       const response = await fetch('/api/decks/cheapest-value', {
@@ -239,9 +268,9 @@ export default function DeckPage() {
       if (response.ok) {
         const data = await response.json();
         if (excludeLandsParam) {
-          setCheapestValueNoLands(data.cheapestValue);
+          setCheapestValueNoLands(data.cheapestValues);
         } else {
-          setCheapestValue(data.cheapestValue);
+          setCheapestValue(data.cheapestValues);
         }
       }
     } catch (error) {
@@ -273,7 +302,7 @@ export default function DeckPage() {
     }
   };
 
-  const currentCheapestValue = excludeLands ? cheapestValueNoLands : cheapestValue;
+  const currentCheapestValue = (excludeLands ? cheapestValueNoLands : cheapestValue)?.[priceKey] ?? null;
 
   const handleStartEditName = () => {
     setEditedName(deck.name);
@@ -372,6 +401,7 @@ export default function DeckPage() {
                   <Download className="mr-2 h-4 w-4" />
                   Export
                 </Button>
+                {!isReadOnly && user && <PullFromSourceButton />}
               </>
             )}
           </div>
@@ -393,12 +423,12 @@ export default function DeckPage() {
                     Calculating...
                   </span>
                 ) : currentCheapestValue !== null ? (
-                  `$${currentCheapestValue.toFixed(2)}`
+                  formatPrice(currentCheapestValue, priceKey)
                 ) : (
-                  `$${deckValue.toFixed(2)}`
+                  formatPrice(deckValue, priceKey)
                 )
               ) : (
-                `$${deckValue.toFixed(2)}`
+                formatPrice(deckValue, priceKey)
               )}
             </span>
             <span className="text-sm text-muted-foreground">
@@ -423,19 +453,35 @@ export default function DeckPage() {
             >
               {excludeLands ? 'Include lands' : 'Exclude lands'}
             </Button>
+            <Button
+              variant={showValueHistory ? 'default' : 'outline'}
+              size="sm"
+              onClick={() => setShowValueHistory(!showValueHistory)}
+            >
+              <LineChart className="mr-2 h-4 w-4" />
+              History
+            </Button>
           </div>
           {showCheapest && currentCheapestValue !== null && deckValue > currentCheapestValue && (
             <span className="text-sm text-muted-foreground">
-              (save ${(deckValue - currentCheapestValue).toFixed(2)})
+              (save {formatPrice(deckValue - currentCheapestValue, priceKey)})
             </span>
           )}
         </div>
 
+        {showValueHistory && (
+          <DeckValueChart
+            cards={getValuedCards(deck, excludeLands)}
+            priceKey={priceKey}
+            className="mb-6 max-w-2xl"
+          />
+        )}
+
         {/* Add Card Search - only for owners */}
         {!isReadOnly && (
           <div className="mb-6">
             <h2 className="text-sm font-medium text-muted-foreground mb-2">Add Cards</h2>
-            <AddCardSearch className="max-w-md" />
+            <AddCardSearch className="max-w-2xl" />
           </div>
         )}
 
@@ -445,7 +491,11 @@ export default function DeckPage() {
           {deck.commanders.length > 0 && (
             <div className="flex-shrink-0">
               <h2 className="text-sm font-medium text-muted-foreground mb-2">
-                {deck.commanders.length === 1 ? 'Commander' : 'Commanders'}
+                {deck.commanders.length === 1
+                  ? 'Commander'
+                  : commanderAnalysis.pairing !== 'none'
+                    ? COMMANDER_PAIRING_NAMES[commanderAnalysis.pairing]
+                    : 'Commanders'}
               </h2>
               <div className={`flex gap-4 ${deck.commanders.length > 1 ? 'flex-wrap' : ''}`}>
                 {deck.commanders.map((commander) => (
@@ -461,6 +511,14 @@ export default function DeckPage() {
                   </div>
                 ))}
               </div>
+              {commanderAnalysis.companion && (
+                <p className="mt-2 text-xs text-muted-foreground">
+                  Companion: {commanderAnalysis.companion.name}
+                </p>
+              )}
+              {commanderAnalysis.errors.map((error) => (
+                <p key={error} className="mt-2 text-xs text-destructive max-w-[420px]">{error}</p>
+              ))}
             </div>
           )}
 
@@ -468,6 +526,7 @@ export default function DeckPage() {
           <div className="flex-1 min-w-0">
             <h2 className="text-sm font-medium text-muted-foreground mb-2">Deck Stats</h2>
             <DeckStatsSummary stats={stats} />
+            <BracketEstimateCard deck={deck} className="mt-3" />
           </div>
         </div>
 
@@ -19,6 +19,7 @@ import {
   AlertDialogTrigger,
 } from '@/components/ui/alert-dialog';
 import { toast } from 'sonner';
+import { MoxfieldAccountImport } from '@/components/deck/MoxfieldAccountImport';
 
 interface CommanderCard {
   id: string;
@@ -48,6 +49,7 @@ export default function SavedDecksPage() {
   const [decks, setDecks] = useState<SavedDeck[]>([]);
   const [loading, setLoading] = useState(true);
   const [deleting, setDeleting] = useState<string | null>(null);
+  const [showMoxfieldImport, setShowMoxfieldImport] = useState(false);
 
   useEffect(() => {
     if (!authLoading && !user) {
@@ -122,11 +124,22 @@ export default function SavedDecksPage() {
           <h1 className="text-3xl font-bold">Saved Decks</h1>
           <p className="text-muted-foreground mt-1">Your collection of saved deck lists</p>
         </div>
-        <Button asChild>
-          <Link href="/deck/import">Import New Deck</Link>
-        </Button>
+        <div className="flex gap-2">
+          <Button variant="outline" onClick={() => setShowMoxfieldImport(true)}>
+            Import from Moxfield
+          </Button>
+          <Button asChild>
+            <Link href="/deck/import">Import New Deck</Link>
+          </Button>
+        </div>
       </div>
 
+      <MoxfieldAccountImport
+        open={showMoxfieldImport}
+        onOpenChange={setShowMoxfieldImport}
+        onImported={fetchDecks}
+      />
+
       {loading ? (
         <div className="text-center text-muted-foreground py-12">Loading your decks...</div>
       ) : decks.length === 0 ? (
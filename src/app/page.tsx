@@ -17,7 +17,7 @@ export default function Home() {
             <span className="text-primary">Your MTG Decks</span>
           </h1>
           <p className="max-w-[42rem] text-lg text-muted-foreground sm:text-xl">
-            Import your deck from Moxfield, and let DeckTutor analyze it for
+            Import your deck from Moxfield, Archidekt, Deckstats or TappedOut, and let DeckTutor analyze it for
             powerful combos and synergies using EDHREC data.
           </p>
           <div className="flex gap-4">
@@ -38,7 +38,7 @@ export default function Home() {
               <div className="mb-4 text-4xl">1</div>
               <h3 className="mb-2 text-xl font-semibold">Import Your Deck</h3>
               <p className="text-muted-foreground">
-                Paste your Moxfield deck URL and we&apos;ll fetch all your
+                Paste a deck URL or list and we&apos;ll fetch all your
                 cards with full art and data from Scryfall.
               </p>
             </div>
@@ -1,15 +1,27 @@
 'use client';
 
-import { useMemo } from 'react';
+import { useEffect, useMemo, useState } from 'react';
 import { CardImage } from './CardImage';
+import { CardRulings } from './CardRulings';
 import { Badge } from '@/components/ui/badge';
 import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
 import { Separator } from '@/components/ui/separator';
+import { Sparkline } from '@/components/ui/sparkline';
 import { ManaText } from '@/components/ui/mana-symbol';
 import { cn } from '@/lib/utils';
 import { useDeckStore } from '@/stores/deckStore';
-import { MTG_COLOR_MAP, type Card, type CardFace, type MtgColor } from '@/types';
-import { Plus, Minus, Trash2 } from 'lucide-react';
+import {
+  MTG_COLOR_MAP,
+  formatPrice,
+  getCardPrice,
+  type Card,
+  type CardFace,
+  type MtgColor,
+  type PriceKey,
+  type PricePoint,
+} from '@/types';
+import { Plus, Minus, Trash2, X } from 'lucide-react';
 import { toast } from 'sonner';
 
 // Layouts that have two distinct faces with separate images
@@ -45,8 +57,120 @@ function FaceDetails({ face, label }: { face: CardFace; label: string }) {
   );
 }
 
+// Daily prices for this printing over the last 90 days
+function PriceTrend({ cardId, priceKey }: { cardId: string; priceKey: PriceKey }) {
+  const [result, setResult] = useState<{ cardId: string; history: PricePoint[] } | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+
+    fetch(`/api/cards/price-history?id=${encodeURIComponent(cardId)}&days=90`)
+      .then((response) => (response.ok ? response.json() : { history: [] }))
+      .then((data: { history: PricePoint[] }) => {
+        if (!cancelled) setResult({ cardId, history: data.history });
+      })
+      .catch(() => {
+        if (!cancelled) setResult({ cardId, history: [] });
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [cardId]);
+
+  const prices = useMemo(
+    () =>
+      (result?.cardId === cardId ? result.history : [])
+        .map((point) => point[priceKey])
+        .filter((price): price is number => price !== null),
+    [result, cardId, priceKey]
+  );
+  if (prices.length < 2) return null;
+
+  const change = prices[prices.length - 1] - prices[0];
+  return (
+    <div className="flex items-center gap-2" title="Price over the last 90 days">
+      <Sparkline values={prices} width={96} height={24} />
+      <span
+        className={cn(
+          'text-xs',
+          change >= 0 ? 'text-green-600 dark:text-green-400' : 'text-red-600 dark:text-red-400'
+        )}
+      >
+        {change >= 0 ? '+' : '-'}
+        {formatPrice(Math.abs(change), priceKey)}
+      </span>
+    </div>
+  );
+}
+
+interface CardTagEditorProps {
+  tags: string[];
+  suggestions: string[];
+  onChange: (tags: string[]) => void;
+}
+
+function CardTagEditor({ tags, suggestions, onChange }: CardTagEditorProps) {
+  const [newTag, setNewTag] = useState('');
+
+  const addTag = () => {
+    const tag = newTag.trim();
+    if (tag && !tags.some((t) => t.toLowerCase() === tag.toLowerCase())) {
+      onChange([...tags, tag]);
+    }
+    setNewTag('');
+  };
+
+  return (
+    <div className="space-y-2">
+      <span className="text-sm font-medium">Tags:</span>
+      <div className="flex flex-wrap gap-1">
+        {tags.map((tag) => (
+          <Badge key={tag} variant="secondary" className="gap-1 pr-1">
+            {tag}
+            <button
+              type="button"
+              onClick={() => onChange(tags.filter((t) => t !== tag))}
+              className="rounded-full hover:bg-muted-foreground/20"
+              aria-label={`Remove ${tag} tag`}
+            >
+              <X className="h-3 w-3" />
+            </button>
+          </Badge>
+        ))}
+        {tags.length === 0 && (
+          <span className="text-xs text-muted-foreground">No tags</span>
+        )}
+      </div>
+      <form
+        className="flex gap-2"
+        onSubmit={(e) => {
+          e.preventDefault();
+          addTag();
+        }}
+      >
+        <Input
+          value={newTag}
+          onChange={(e) => setNewTag(e.target.value)}
+          placeholder="Add a tag, e.g. Ramp"
+          list="deck-tag-suggestions"
+          className="h-8"
+        />
+        <datalist id="deck-tag-suggestions">
+          {suggestions.map((tag) => (
+            <option key={tag} value={tag} />
+          ))}
+        </datalist>
+        <Button type="submit" size="sm" variant="outline" disabled={!newTag.trim()}>
+          Add
+        </Button>
+      </form>
+    </div>
+  );
+}
+
 export function CardPreview({ card, className }: CardPreviewProps) {
-  const { currentDeck, addCard, updateCardQuantity, removeCard } = useDeckStore();
+  const { currentDeck, priceKey, addCard, updateCardQuantity, removeCard, setCardCategories } = useDeckStore();
 
   // Check if the card is in the deck
   const cardInDeck = useMemo(() => {
@@ -58,19 +182,34 @@ export function CardPreview({ card, className }: CardPreviewProps) {
 
     // Check mainboard
     const inMainboard = currentDeck.mainboard.find(dc => dc.card.name === card.name);
-    if (inMainboard) return { board: 'mainboard' as const, quantity: inMainboard.quantity };
+    if (inMainboard) return { board: 'mainboard' as const, quantity: inMainboard.quantity, categories: inMainboard.categories || [] };
 
     // Check sideboard
     const inSideboard = currentDeck.sideboard.find(dc => dc.card.name === card.name);
-    if (inSideboard) return { board: 'sideboard' as const, quantity: inSideboard.quantity };
+    if (inSideboard) return { board: 'sideboard' as const, quantity: inSideboard.quantity, categories: inSideboard.categories || [] };
 
     // Check maybeboard
     const inMaybeboard = currentDeck.maybeboard.find(dc => dc.card.name === card.name);
-    if (inMaybeboard) return { board: 'maybeboard' as const, quantity: inMaybeboard.quantity };
+    if (inMaybeboard) return { board: 'maybeboard' as const, quantity: inMaybeboard.quantity, categories: inMaybeboard.categories || [] };
 
     return null;
   }, [currentDeck, card]);
 
+  // Tags already used in the deck, offered as suggestions
+  const deckTags = useMemo(() => {
+    if (!currentDeck) return [];
+    const tags = new Set<string>();
+    for (const dc of [...currentDeck.mainboard, ...currentDeck.sideboard, ...currentDeck.maybeboard]) {
+      for (const tag of dc.categories || []) tags.add(tag);
+    }
+    return [...tags].sort();
+  }, [currentDeck]);
+
+  const handleTagsChange = (categories: string[]) => {
+    if (!card || !cardInDeck || cardInDeck.board === 'commanders') return;
+    setCardCategories(card.id, cardInDeck.board, categories);
+  };
+
   const handleAddToDeck = (board: 'mainboard' | 'sideboard' | 'maybeboard') => {
     if (!card) return;
     addCard(card, board);
@@ -111,6 +250,7 @@ export function CardPreview({ card, className }: CardPreviewProps) {
   const isDoubleFaced = DOUBLE_FACED_LAYOUTS.includes(card.layout) &&
     card.cardFaces &&
     card.cardFaces.length >= 2;
+  const price = getCardPrice(card, priceKey);
 
   return (
     <div className={cn('space-y-4', className)}>
@@ -169,6 +309,13 @@ export function CardPreview({ card, className }: CardPreviewProps) {
                   </Button>
                 </div>
               )}
+              {cardInDeck.board !== 'commanders' && (
+                <CardTagEditor
+                  tags={cardInDeck.categories}
+                  suggestions={deckTags}
+                  onChange={handleTagsChange}
+                />
+              )}
             </div>
           ) : (
             <div className="flex flex-col gap-2">
@@ -261,14 +408,20 @@ export function CardPreview({ card, className }: CardPreviewProps) {
           {card.edhrecRank && (
             <Badge variant="outline">EDHREC Rank: #{card.edhrecRank}</Badge>
           )}
+          {card.gameChanger && (
+            <Badge variant="outline">Game Changer</Badge>
+          )}
         </div>
 
-        {card.prices?.usd && (
-          <div className="text-sm">
-            <span className="font-medium">Price: </span>
-            <span className="text-green-600 dark:text-green-400">
-              ${card.prices.usd}
-            </span>
+        {price !== null && (
+          <div className="flex flex-wrap items-center justify-between gap-2 text-sm">
+            <div>
+              <span className="font-medium">Price: </span>
+              <span className="text-green-600 dark:text-green-400">
+                {formatPrice(price, priceKey)}
+              </span>
+            </div>
+            <PriceTrend cardId={card.id} priceKey={priceKey} />
           </div>
         )}
 
@@ -281,6 +434,10 @@ export function CardPreview({ card, className }: CardPreviewProps) {
             ))}
           </div>
         )}
+
+        <Separator />
+
+        <CardRulings key={card.id} cardId={card.id} />
       </div>
     </div>
   );
@@ -0,0 +1,87 @@
+'use client';
+
+import { useState } from 'react';
+import { ChevronDown, ChevronRight, Loader2 } from 'lucide-react';
+import { cn } from '@/lib/utils';
+import { ManaText } from '@/components/ui/mana-symbol';
+import type { CardRuling } from '@/types';
+
+interface CardRulingsProps {
+  cardId: string;
+  className?: string;
+}
+
+function formatRulingDate(date: string): string {
+  return new Date(`${date}T00:00:00`).toLocaleDateString(undefined, { year: 'numeric', month: 'short', day: 'numeric' });
+}
+
+// Collapsed by default; rulings are only fetched the first time it's opened
+export function CardRulings({ cardId, className }: CardRulingsProps) {
+  const [open, setOpen] = useState(false);
+  const [rulings, setRulings] = useState<CardRuling[] | null>(null);
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState(false);
+
+  const loadRulings = async () => {
+    setIsLoading(true);
+    setError(false);
+    try {
+      const response = await fetch(`/api/cards/rulings?id=${encodeURIComponent(cardId)}`);
+      if (!response.ok) throw new Error(`Rulings request failed: ${response.status}`);
+      const data: { rulings: CardRuling[] } = await response.json();
+      setRulings(data.rulings);
+    } catch (err) {
+      console.error('Error fetching rulings:', err);
+      setError(true);
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const handleToggle = () => {
+    if (!open && rulings === null && !isLoading) {
+      loadRulings();
+    }
+    setOpen(!open);
+  };
+
+  return (
+    <div className={cn('space-y-2', className)}>
+      <button
+        type="button"
+        className="flex w-full items-center gap-1 text-sm font-medium hover:text-foreground/80"
+        onClick={handleToggle}
+      >
+        {open ? <ChevronDown className="h-4 w-4" /> : <ChevronRight className="h-4 w-4" />}
+        Rulings
+        {rulings && <span className="text-muted-foreground">({rulings.length})</span>}
+      </button>
+
+      {open && (
+        isLoading ? (
+          <div className="flex justify-center py-2 text-muted-foreground">
+            <Loader2 className="h-4 w-4 animate-spin" />
+          </div>
+        ) : error ? (
+          <p className="text-xs text-muted-foreground">Couldn&apos;t load rulings.</p>
+        ) : rulings && rulings.length === 0 ? (
+          <p className="text-xs text-muted-foreground">No rulings for this card.</p>
+        ) : (
+          <ul className="max-h-64 space-y-2 overflow-y-auto pr-1">
+            {rulings?.map((ruling, index) => (
+              <li key={index} className="rounded-md bg-muted/30 p-2 text-xs">
+                <p className="whitespace-pre-line">
+                  <ManaText text={ruling.comment} symbolSize={11} />
+                </p>
+                <p className="mt-1 text-muted-foreground">
+                  {formatRulingDate(ruling.publishedAt)}
+                  {ruling.source === 'scryfall' && ' · Scryfall note'}
+                </p>
+              </li>
+            ))}
+          </ul>
+        )
+      )}
+    </div>
+  );
+}
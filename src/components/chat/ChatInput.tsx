@@ -70,7 +70,7 @@ export function ChatInput({
         </Button>
       </div>
       <p className="text-xs text-muted-foreground mt-2">
-        Press Enter to send, Shift+Enter for new line
+        Press Enter to send, Shift+Enter for new line. Wrap card names in [[brackets]] to include their rulings.
       </p>
     </div>
   );
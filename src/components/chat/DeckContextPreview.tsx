@@ -48,6 +48,9 @@ export function DeckContextPreview({ deckContext }: DeckContextPreviewProps) {
           <div>
             <span className="text-muted-foreground">Commander: </span>
             <span className="font-medium">{deckContext.commanders.join(', ')}</span>
+            {deckContext.companion && (
+              <span className="text-muted-foreground"> (companion: {deckContext.companion})</span>
+            )}
           </div>
 
           {/* Stats */}
@@ -0,0 +1,208 @@
+'use client';
+
+import { useMemo, useState } from 'react';
+import { Badge } from '@/components/ui/badge';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Label } from '@/components/ui/label';
+import { Switch } from '@/components/ui/switch';
+import { buildCardGraph, getNodeWeight, layoutCardGraph, type CardGraphNode } from '@/lib/card-graph';
+import type { DeckCombo, Synergy } from '@/types';
+
+interface CardRelationshipGraphProps {
+  combos: DeckCombo[];
+  synergies: Synergy[];
+  selectedName?: string;
+  onCardClick: (name: string) => void;
+}
+
+const WIDTH = 800;
+const HEIGHT = 560;
+const MAX_RISKS = 8;
+
+function nodeRadius(node: CardGraphNode): number {
+  return 5 + 3 * Math.sqrt(getNodeWeight(node));
+}
+
+function plural(count: number, noun: string): string {
+  return `${count} ${noun}${count === 1 ? '' : 's'}`;
+}
+
+function describeNode(node: CardGraphNode): string {
+  const synergies = `${node.synergyCount} ${node.synergyCount === 1 ? 'synergy' : 'synergies'}`;
+  return `${plural(node.comboCount, 'combo')}, ${synergies}`;
+}
+
+// Deck cards linked by shared combos and synergies, sized by how much they take part in
+export function CardRelationshipGraph({ combos, synergies, selectedName, onCardClick }: CardRelationshipGraphProps) {
+  const [showSynergies, setShowSynergies] = useState(true);
+  const [hovered, setHovered] = useState<number | null>(null);
+
+  const graph = useMemo(() => buildCardGraph(combos, synergies, showSynergies), [combos, synergies, showSynergies]);
+  const positions = useMemo(() => layoutCardGraph(graph, { width: WIDTH, height: HEIGHT }), [graph]);
+
+  // Cards whose cut would cost the most: combos first, then whether they hold groups together
+  const risks = useMemo(
+    () =>
+      graph.nodes
+        .filter((node) => node.comboCount > 0 || node.isCutPoint)
+        .sort(
+          (a, b) =>
+            b.comboCount - a.comboCount ||
+            Number(b.isCutPoint) - Number(a.isCutPoint) ||
+            b.synergyCount - a.synergyCount
+        )
+        .slice(0, MAX_RISKS),
+    [graph]
+  );
+
+  const neighbours = useMemo(() => {
+    if (hovered === null) return null;
+    const linked = new Set([hovered]);
+    for (const edge of graph.edges) {
+      if (edge.source === hovered) linked.add(edge.target);
+      if (edge.target === hovered) linked.add(edge.source);
+    }
+    return linked;
+  }, [graph, hovered]);
+
+  if (combos.length === 0 && synergies.length === 0) {
+    return (
+      <Card>
+        <CardHeader>
+          <CardTitle>Nothing to graph yet</CardTitle>
+          <CardDescription>
+            Cards show up here once the deck has combos or synergies.
+          </CardDescription>
+        </CardHeader>
+      </Card>
+    );
+  }
+
+  return (
+    <div className="space-y-4">
+      <div className="flex flex-wrap items-center justify-between gap-4">
+        <div className="flex flex-wrap items-center gap-4 text-xs text-muted-foreground">
+          <span className="flex items-center gap-1">
+            <span className="h-3 w-3 rounded-full bg-primary" /> Combo piece
+          </span>
+          <span className="flex items-center gap-1">
+            <span className="h-3 w-3 rounded-full bg-destructive" /> Holds groups together
+          </span>
+          <span className="flex items-center gap-1">
+            <span className="h-3 w-3 rounded-full bg-muted-foreground" /> Synergy only
+          </span>
+        </div>
+        <div className="flex items-center gap-2">
+          <Switch id="graph-synergies" checked={showSynergies} onCheckedChange={setShowSynergies} />
+          <Label htmlFor="graph-synergies" className="text-sm">Synergy links</Label>
+        </div>
+      </div>
+
+      <Card className="overflow-hidden p-0">
+        <svg viewBox={`0 0 ${WIDTH} ${HEIGHT}`} className="h-auto w-full" role="group" aria-label="Card relationship graph">
+          {graph.edges.map((edge) => {
+            const from = positions[edge.source];
+            const to = positions[edge.target];
+            const isCombo = edge.combos > 0;
+            const dimmed = neighbours !== null && !(edge.source === hovered || edge.target === hovered);
+            return (
+              <line
+                key={`${edge.source}:${edge.target}`}
+                x1={from.x}
+                y1={from.y}
+                x2={to.x}
+                y2={to.y}
+                className={isCombo ? 'stroke-primary' : 'stroke-muted-foreground'}
+                strokeWidth={isCombo ? 1 + edge.combos : 1}
+                strokeOpacity={dimmed ? 0.05 : isCombo ? 0.7 : 0.2}
+              />
+            );
+          })}
+          {graph.nodes.map((node, index) => {
+            const { x, y } = positions[index];
+            const radius = nodeRadius(node);
+            const isSelected = selectedName?.toLowerCase() === node.name.toLowerCase();
+            const dimmed = neighbours !== null && !neighbours.has(index);
+            const showLabel = node.comboCount > 0 || getNodeWeight(node) >= 3 || (neighbours?.has(index) ?? false);
+            const fill = node.isCutPoint
+              ? 'fill-destructive'
+              : node.comboCount > 0
+                ? 'fill-primary'
+                : 'fill-muted-foreground';
+
+            return (
+              <g
+                key={node.name}
+                role="button"
+                tabIndex={0}
+                className="cursor-pointer outline-none"
+                opacity={dimmed ? 0.25 : 1}
+                onClick={() => onCardClick(node.name)}
+                onKeyDown={(e) => {
+                  if (e.key === 'Enter' || e.key === ' ') {
+                    e.preventDefault();
+                    onCardClick(node.name);
+                  }
+                }}
+                onMouseEnter={() => setHovered(index)}
+                onMouseLeave={() => setHovered(null)}
+                onFocus={() => setHovered(index)}
+                onBlur={() => setHovered(null)}
+              >
+                <title>{`${node.name}: ${describeNode(node)}`}</title>
+                <circle
+                  cx={x}
+                  cy={y}
+                  r={radius}
+                  className={`${fill} ${isSelected ? 'stroke-foreground' : 'stroke-background'}`}
+                  strokeWidth={isSelected ? 3 : 1.5}
+                />
+                {showLabel && (
+                  <text
+                    x={x}
+                    y={y - radius - 4}
+                    textAnchor="middle"
+                    className="fill-foreground stroke-background text-[11px]"
+                    strokeWidth={3}
+                    paintOrder="stroke"
+                  >
+                    {node.name}
+                  </text>
+                )}
+              </g>
+            );
+          })}
+        </svg>
+      </Card>
+
+      {risks.length > 0 && (
+        <Card>
+          <CardHeader>
+            <CardTitle className="text-lg">Think twice before cutting</CardTitle>
+            <CardDescription>
+              Cards that the most combos depend on, and cards that are the only link between groups
+            </CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-2">
+            {risks.map((node) => (
+              <button
+                key={node.name}
+                type="button"
+                className="flex w-full items-center justify-between gap-2 rounded-md px-2 py-1 text-left text-sm hover:bg-muted"
+                onClick={() => onCardClick(node.name)}
+              >
+                <span className="font-medium">{node.name}</span>
+                <span className="flex flex-shrink-0 items-center gap-1">
+                  {node.comboCount > 0 && (
+                    <Badge variant="secondary">Breaks {plural(node.comboCount, 'combo')}</Badge>
+                  )}
+                  {node.isCutPoint && <Badge variant="destructive">Only link</Badge>}
+                </span>
+              </button>
+            ))}
+          </CardContent>
+        </Card>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,85 @@
+'use client';
+
+import type { ReactNode } from 'react';
+import { ManaText } from '@/components/ui/mana-symbol';
+import { CardImage } from '@/components/card/CardImage';
+import { COMBO_ZONE_LABELS, type Card, type Combo, type ComboCardRequirement } from '@/types';
+
+interface ComboExecutionGuideProps {
+  combo: Combo;
+  // Card data for a piece, when it's in the deck or has been looked up
+  findCard: (name: string) => Card | undefined;
+  onCardClick?: (name: string) => void;
+}
+
+function describeRequirement(requirement: ComboCardRequirement): string {
+  const zones = requirement.zones.map((zone, i) => {
+    const label = COMBO_ZONE_LABELS[zone];
+    return i === 0 ? label : label.toLowerCase();
+  });
+  return [
+    requirement.mustBeCommander ? 'Your commander' : null,
+    zones.length > 0 ? zones.join(' or ') : null,
+    requirement.state,
+  ].filter(Boolean).join(', ');
+}
+
+/**
+ * Numbered walkthrough: put the pieces in place, meet the other prerequisites,
+ * have the mana ready, then follow Spellbook's steps.
+ */
+export function ComboExecutionGuide({ combo, findCard, onCardClick }: ComboExecutionGuideProps) {
+  const requirements = combo.requirements?.length
+    ? combo.requirements
+    : combo.cards.map((name): ComboCardRequirement => ({ name, zones: [] }));
+
+  const entries: ReactNode[] = [
+    <div key="setup" className="space-y-2">
+      <p>Get the pieces in place:</p>
+      <div className="flex gap-2 overflow-x-auto pb-1">
+        {requirements.map((requirement) => {
+          const card = findCard(requirement.name);
+          const description = describeRequirement(requirement);
+          return (
+            <div key={requirement.name} className="w-[146px] flex-shrink-0 space-y-1">
+              {card ? (
+                <CardImage card={card} size="small" onClick={onCardClick && (() => onCardClick(requirement.name))} />
+              ) : (
+                <div className="flex h-[204px] items-center justify-center rounded-[4.75%] bg-muted p-2 text-center text-xs">
+                  {requirement.name}
+                </div>
+              )}
+              <p className="text-xs font-medium">{requirement.name}</p>
+              {description && <p className="text-xs text-muted-foreground">{description}</p>}
+            </div>
+          );
+        })}
+      </div>
+    </div>,
+    ...(combo.prerequisites ?? []).map((prerequisite, i) => (
+      <p key={`prerequisite-${i}`}><ManaText text={prerequisite} /></p>
+    )),
+    ...(combo.manaNeeded
+      ? [<p key="mana">Have <ManaText text={combo.manaNeeded} /> available.</p>]
+      : []),
+    ...combo.steps.map((step, i) => (
+      <p key={`step-${i}`}><ManaText text={step} /></p>
+    )),
+  ];
+
+  return (
+    <div className="space-y-3">
+      <p className="text-sm font-medium">How to go off:</p>
+      <ol className="space-y-3 text-sm">
+        {entries.map((entry, i) => (
+          <li key={i} className="flex gap-2">
+            <span className="flex h-5 w-5 flex-shrink-0 items-center justify-center rounded-full bg-muted text-xs font-medium">
+              {i + 1}
+            </span>
+            <div className="min-w-0 flex-1 text-muted-foreground">{entry}</div>
+          </li>
+        ))}
+      </ol>
+    </div>
+  );
+}
@@ -0,0 +1,111 @@
+'use client';
+
+import { useState } from 'react';
+import { ArrowRight, ListPlus, Scissors } from 'lucide-react';
+import { toast } from 'sonner';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { suggestCuts, type ComboUpgrade } from '@/lib/combo-planner';
+import { useDeckStore } from '@/stores/deckStore';
+import { formatPrice, type PriceKey } from '@/types';
+
+interface ComboUpgradeActionsProps {
+  upgrade: ComboUpgrade;
+  rank: number;
+  priceKey: PriceKey;
+  // Cards a cut should never touch: combo pieces and synergy cards
+  protectedNames: Set<string>;
+}
+
+// Planner stats for a near-miss combo, with maybeboard and swap actions
+export function ComboUpgradeActions({ upgrade, rank, priceKey, protectedNames }: ComboUpgradeActionsProps) {
+  const { currentDeck, addCard, removeCard } = useDeckStore();
+  const [showCuts, setShowCuts] = useState(false);
+
+  if (!currentDeck) return null;
+
+  const { missingCards, missingCount, cost, isLegal, unlocks } = upgrade;
+  const hasCardData = missingCards.length === missingCount;
+  const inDeck = new Set(
+    [...currentDeck.mainboard, ...currentDeck.maybeboard].map((dc) => `${dc.board}:${dc.card.id}`)
+  );
+  const toMaybeboard = missingCards.filter((card) => !inDeck.has(`maybeboard:${card.id}`));
+  const toMainboard = missingCards.filter((card) => !inDeck.has(`mainboard:${card.id}`));
+  const cuts = showCuts ? suggestCuts(currentDeck, toMainboard.length, protectedNames) : [];
+
+  const handleAddToMaybeboard = () => {
+    for (const card of toMaybeboard) {
+      addCard(card, 'maybeboard');
+    }
+    toast.success(`Added ${toMaybeboard.map((card) => card.name).join(', ')} to the maybeboard`);
+  };
+
+  const handleSwap = () => {
+    toMainboard.forEach((card, i) => {
+      if (cuts[i]) removeCard(cuts[i].id, 'mainboard');
+      addCard(card, 'mainboard');
+    });
+    toast.success(`Swapped in ${toMainboard.map((card) => card.name).join(', ')}`);
+    setShowCuts(false);
+  };
+
+  return (
+    <div className="space-y-3 border-t pt-3">
+      <div className="flex flex-wrap items-center gap-1 text-xs">
+        <Badge variant="outline">#{rank}</Badge>
+        <Badge variant="secondary">{missingCount} missing</Badge>
+        <Badge variant="secondary">{cost !== null ? formatPrice(cost, priceKey) : 'Price unknown'}</Badge>
+        {!isLegal && <Badge variant="destructive">Outside colour identity</Badge>}
+        {unlocks > 0 && (
+          <Badge variant="secondary">
+            Also completes {unlocks} other combo{unlocks === 1 ? '' : 's'}
+          </Badge>
+        )}
+      </div>
+
+      <div className="flex flex-wrap gap-2">
+        <Button
+          variant="outline"
+          size="sm"
+          onClick={handleAddToMaybeboard}
+          disabled={!hasCardData || toMaybeboard.length === 0}
+          title={!hasCardData ? "Card data isn't available yet" : undefined}
+        >
+          <ListPlus className="h-4 w-4 mr-2" />
+          {toMaybeboard.length === 0 && hasCardData ? 'In maybeboard' : 'Add to maybeboard'}
+        </Button>
+        {isLegal && (
+          <Button
+            variant={showCuts ? 'default' : 'outline'}
+            size="sm"
+            onClick={() => setShowCuts(!showCuts)}
+            disabled={!hasCardData || toMainboard.length === 0}
+          >
+            <Scissors className="h-4 w-4 mr-2" />
+            Suggest a cut
+          </Button>
+        )}
+      </div>
+
+      {showCuts && (
+        <div className="space-y-2 rounded-md bg-muted/30 p-2 text-sm">
+          {toMainboard.map((card, i) => (
+            <div key={card.id} className="flex items-center gap-2">
+              <span className={cuts[i] ? '' : 'text-muted-foreground'}>
+                {cuts[i] ? `Cut ${cuts[i].name}` : 'Nothing obvious to cut'}
+              </span>
+              <ArrowRight className="h-3 w-3 text-muted-foreground" />
+              <span className="font-medium">{card.name}</span>
+            </div>
+          ))}
+          <p className="text-xs text-muted-foreground">
+            Cuts are the highest mana value cards that aren&apos;t part of a combo or synergy.
+          </p>
+          <Button size="sm" onClick={handleSwap}>
+            Swap into mainboard
+          </Button>
+        </div>
+      )}
+    </div>
+  );
+}
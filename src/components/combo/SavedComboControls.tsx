@@ -0,0 +1,127 @@
+'use client';
+
+import { useState } from 'react';
+import { Loader2, Star, StickyNote } from 'lucide-react';
+import { toast } from 'sonner';
+import { Button } from '@/components/ui/button';
+import { Textarea } from '@/components/ui/textarea';
+import { cn } from '@/lib/utils';
+import type { SavedComboState } from '@/types';
+
+const MAX_NOTES_LENGTH = 2000;
+
+interface SavedComboControlsProps {
+  deckId: string;
+  saved: SavedComboState;
+  onChange: (saved: SavedComboState) => void;
+}
+
+async function updateSavedCombo(
+  deckId: string,
+  deckComboId: string,
+  update: { isFavorited?: boolean; notes?: string | null }
+): Promise<SavedComboState> {
+  const token = localStorage.getItem('decktutor-token');
+  const response = await fetch(`/api/user/decks/${deckId}/combo-results/${deckComboId}`, {
+    method: 'PATCH',
+    headers: {
+      'Content-Type': 'application/json',
+      Authorization: `Bearer ${token}`,
+    },
+    body: JSON.stringify(update),
+  });
+
+  const data = await response.json();
+  if (!response.ok) {
+    throw new Error(data.message || data.error || 'Failed to update combo');
+  }
+  return data.saved;
+}
+
+// Favourite toggle for a stored combo
+export function FavoriteComboButton({ deckId, saved, onChange }: SavedComboControlsProps) {
+  const [isSaving, setIsSaving] = useState(false);
+
+  const handleToggle = async () => {
+    setIsSaving(true);
+    try {
+      onChange(await updateSavedCombo(deckId, saved.id, { isFavorited: !saved.isFavorited }));
+    } catch (err) {
+      toast.error(err instanceof Error ? err.message : 'Failed to update combo');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <Button
+      variant="ghost"
+      size="icon"
+      className="h-8 w-8 shrink-0"
+      onClick={handleToggle}
+      disabled={isSaving}
+      title={saved.isFavorited ? 'Remove from favourites' : 'Add to favourites'}
+    >
+      <Star className={cn('h-4 w-4', saved.isFavorited && 'fill-yellow-400 text-yellow-400')} />
+    </Button>
+  );
+}
+
+// Notes a user keeps on a stored combo, edited in place
+export function ComboNotes({ deckId, saved, onChange }: SavedComboControlsProps) {
+  const [draft, setDraft] = useState<string | null>(null);
+  const [isSaving, setIsSaving] = useState(false);
+
+  const handleSave = async () => {
+    if (draft === null) return;
+    setIsSaving(true);
+    try {
+      onChange(await updateSavedCombo(deckId, saved.id, { notes: draft }));
+      setDraft(null);
+    } catch (err) {
+      toast.error(err instanceof Error ? err.message : 'Failed to save notes');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  if (draft !== null) {
+    return (
+      <div className="space-y-2">
+        <Textarea
+          value={draft}
+          onChange={(e) => setDraft(e.target.value)}
+          maxLength={MAX_NOTES_LENGTH}
+          placeholder="How you pilot this combo, what to tutor first..."
+          className="text-sm"
+          autoFocus
+        />
+        <div className="flex justify-end gap-2">
+          <Button variant="ghost" size="sm" onClick={() => setDraft(null)} disabled={isSaving}>
+            Cancel
+          </Button>
+          <Button size="sm" onClick={handleSave} disabled={isSaving}>
+            {isSaving && <Loader2 className="h-3 w-3 mr-1 animate-spin" />}
+            Save
+          </Button>
+        </div>
+      </div>
+    );
+  }
+
+  return saved.notes ? (
+    <button
+      type="button"
+      className="w-full rounded-md bg-muted/30 p-2 text-left text-sm whitespace-pre-line hover:bg-muted/50"
+      onClick={() => setDraft(saved.notes ?? '')}
+      title="Edit notes"
+    >
+      {saved.notes}
+    </button>
+  ) : (
+    <Button variant="ghost" size="sm" className="h-7 px-2 text-xs" onClick={() => setDraft('')}>
+      <StickyNote className="h-3 w-3 mr-1" />
+      Add note
+    </Button>
+  );
+}
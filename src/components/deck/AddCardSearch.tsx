@@ -9,9 +9,10 @@ import {
   DropdownMenuItem,
   DropdownMenuTrigger,
 } from '@/components/ui/dropdown-menu';
-import { Search, Plus, Loader2 } from 'lucide-react';
+import { Search, Plus, Loader2, SlidersHorizontal } from 'lucide-react';
 import { cn } from '@/lib/utils';
 import { useDeckStore } from '@/stores/deckStore';
+import { AdvancedCardSearch } from './AdvancedCardSearch';
 import { toast } from 'sonner';
 import type { Card, DeckCard } from '@/types';
 
@@ -30,6 +31,7 @@ export function AddCardSearch({ className, onCardHover }: AddCardSearchProps) {
   const [highlightedIndex, setHighlightedIndex] = useState(-1);
   const [selectedCardName, setSelectedCardName] = useState<string | null>(null);
   const [showBoardSelect, setShowBoardSelect] = useState(false);
+  const [showAdvanced, setShowAdvanced] = useState(false);
   const inputRef = useRef<HTMLInputElement>(null);
   const dropdownRef = useRef<HTMLDivElement>(null);
   const debounceRef = useRef<NodeJS.Timeout | null>(null);
@@ -266,6 +268,17 @@ export function AddCardSearch({ className, onCardHover }: AddCardSearchProps) {
             </DropdownMenuContent>
           </DropdownMenu>
         )}
+
+        <Button
+          variant={showAdvanced ? 'default' : 'outline'}
+          size="sm"
+          className="h-9"
+          onClick={() => setShowAdvanced(!showAdvanced)}
+          title="Advanced search"
+        >
+          <SlidersHorizontal className="h-4 w-4 mr-1" />
+          Advanced
+        </Button>
       </div>
 
       {/* Selected card indicator */}
@@ -275,6 +288,8 @@ export function AddCardSearch({ className, onCardHover }: AddCardSearchProps) {
           <span className="ml-2">— Choose where to add it</span>
         </div>
       )}
+
+      {showAdvanced && <AdvancedCardSearch className="mt-2" />}
     </div>
   );
 }
@@ -0,0 +1,204 @@
+'use client';
+
+import { useMemo, useState } from 'react';
+import { Input } from '@/components/ui/input';
+import { Button } from '@/components/ui/button';
+import { Label } from '@/components/ui/label';
+import { Switch } from '@/components/ui/switch';
+import { ManaText } from '@/components/ui/mana-symbol';
+import { Loader2, Search } from 'lucide-react';
+import { cn } from '@/lib/utils';
+import { analyzeCommanders } from '@/lib/commander-rules';
+import { useDeckStore } from '@/stores/deckStore';
+import { toast } from 'sonner';
+import { formatPrice, getCardPrice, type Card, type DeckCard } from '@/types';
+
+const BOARDS: Array<{ board: DeckCard['board']; label: string }> = [
+  { board: 'mainboard', label: 'Main' },
+  { board: 'sideboard', label: 'Side' },
+  { board: 'maybeboard', label: 'Maybe' },
+];
+
+const EXAMPLES = ['t:creature o:"draw a card"', 'otag:ramp cmc<=2', 't:instant o:counter'];
+
+interface AdvancedCardSearchProps {
+  className?: string;
+}
+
+/**
+ * Scryfall-syntax search for deck building. Commander decks only see cards
+ * inside their commander's colour identity that are legal in the format.
+ */
+export function AdvancedCardSearch({ className }: AdvancedCardSearchProps) {
+  const { currentDeck, selectedCard, priceKey, addCard, setSelectedCard } = useDeckStore();
+  const [query, setQuery] = useState('');
+  const [restrict, setRestrict] = useState(true);
+  const [results, setResults] = useState<Card[] | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [isSearching, setIsSearching] = useState(false);
+
+  const isCommander = currentDeck?.format === 'commander' && currentDeck.commanders.length > 0;
+  const colorIdentity = useMemo(
+    () => (currentDeck && isCommander ? analyzeCommanders(currentDeck).colorIdentity : []),
+    [currentDeck, isCommander]
+  );
+
+  const cardQuantities = useMemo(() => {
+    const quantities = new Map<string, number>();
+    if (!currentDeck) return quantities;
+
+    for (const commander of currentDeck.commanders) {
+      quantities.set(commander.name, (quantities.get(commander.name) || 0) + 1);
+    }
+    for (const dc of [...currentDeck.mainboard, ...currentDeck.sideboard, ...currentDeck.maybeboard]) {
+      quantities.set(dc.card.name, (quantities.get(dc.card.name) || 0) + dc.quantity);
+    }
+    return quantities;
+  }, [currentDeck]);
+
+  const runSearch = async (searchQuery: string) => {
+    if (!searchQuery.trim()) return;
+
+    const params = new URLSearchParams({ q: searchQuery.trim() });
+    if (isCommander && restrict) {
+      params.set('identity', colorIdentity.join('') || 'C');
+      params.set('format', 'commander');
+    }
+
+    setIsSearching(true);
+    setError(null);
+    try {
+      const response = await fetch(`/api/cards/search?${params}`);
+      const data = await response.json();
+
+      if (!response.ok) {
+        setResults(null);
+        setError(data.message || 'Search failed');
+        return;
+      }
+
+      setResults(data.cards || []);
+    } catch (err) {
+      console.error('Error searching cards:', err);
+      setResults(null);
+      setError('Search failed');
+    } finally {
+      setIsSearching(false);
+    }
+  };
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    runSearch(query);
+  };
+
+  const handleExample = (example: string) => {
+    setQuery(example);
+    runSearch(example);
+  };
+
+  const handleAdd = (card: Card, board: DeckCard['board']) => {
+    addCard(card, board);
+    toast.success(`Added ${card.name} to ${board}`);
+  };
+
+  return (
+    <div className={cn('space-y-3 rounded-lg border p-3', className)}>
+      <form onSubmit={handleSubmit} className="flex gap-2">
+        <div className="relative flex-1">
+          <Search className="absolute left-3 top-1/2 -translate-y-1/2 h-4 w-4 text-muted-foreground" />
+          <Input
+            value={query}
+            onChange={(e) => setQuery(e.target.value)}
+            placeholder='Scryfall syntax, e.g. t:creature cmc<=3 o:"draw a card"'
+            className="pl-9 font-mono text-sm"
+          />
+        </div>
+        <Button type="submit" size="sm" disabled={isSearching || !query.trim()}>
+          {isSearching ? <Loader2 className="h-4 w-4 animate-spin" /> : 'Search'}
+        </Button>
+      </form>
+
+      <div className="flex flex-wrap items-center justify-between gap-2 text-xs text-muted-foreground">
+        <div className="flex flex-wrap gap-1">
+          {EXAMPLES.map((example) => (
+            <button
+              key={example}
+              type="button"
+              className="rounded bg-muted px-1.5 py-0.5 font-mono hover:bg-accent"
+              onClick={() => handleExample(example)}
+            >
+              {example}
+            </button>
+          ))}
+        </div>
+        {isCommander && (
+          <div className="flex items-center gap-2">
+            <Switch id="restrict-toggle" checked={restrict} onCheckedChange={setRestrict} />
+            <Label htmlFor="restrict-toggle" className="flex items-center gap-1 text-xs font-normal">
+              Commander-legal in
+              {colorIdentity.length > 0 ? (
+                <ManaText text={colorIdentity.map((color) => `{${color}}`).join('')} symbolSize={12} />
+              ) : (
+                <ManaText text="{C}" symbolSize={12} />
+              )}
+            </Label>
+          </div>
+        )}
+      </div>
+
+      {error && <p className="text-sm text-destructive">{error}</p>}
+
+      {results && (
+        results.length === 0 ? (
+          <p className="text-sm text-muted-foreground">No cards found</p>
+        ) : (
+          <div className="max-h-96 divide-y overflow-y-auto rounded-md border">
+            {results.map((card) => {
+              const price = getCardPrice(card, priceKey);
+              const inDeck = cardQuantities.get(card.name);
+              return (
+                <div
+                  key={card.id}
+                  className={cn(
+                    'flex items-center gap-2 px-3 py-2 text-sm hover:bg-accent/50',
+                    selectedCard?.id === card.id && 'bg-accent'
+                  )}
+                >
+                  <button
+                    type="button"
+                    className="min-w-0 flex-1 text-left"
+                    onClick={() => setSelectedCard(selectedCard?.id === card.id ? null : card)}
+                  >
+                    <div className="flex items-center gap-2">
+                      <span className="truncate font-medium">{card.name}</span>
+                      {card.manaCost && <ManaText text={card.manaCost} symbolSize={12} />}
+                    </div>
+                    <div className="flex gap-2 text-xs text-muted-foreground">
+                      <span className="truncate">{card.typeLine}</span>
+                      {price !== null && <span className="shrink-0">{formatPrice(price, priceKey)}</span>}
+                      {inDeck && <span className="shrink-0 text-foreground">({inDeck} in deck)</span>}
+                    </div>
+                  </button>
+                  <div className="flex shrink-0 gap-1">
+                    {BOARDS.map(({ board, label }) => (
+                      <Button
+                        key={board}
+                        variant="outline"
+                        size="sm"
+                        className="h-7 px-2 text-xs"
+                        onClick={() => handleAdd(card, board)}
+                      >
+                        +{label}
+                      </Button>
+                    ))}
+                  </div>
+                </div>
+              );
+            })}
+          </div>
+        )
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,186 @@
+'use client';
+
+import { useEffect, useMemo, useRef, useState } from 'react';
+import { ChevronDown, ChevronRight, MessageSquare, RefreshCw } from 'lucide-react';
+import { toast } from 'sonner';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { useAuth } from '@/context/AuthContext';
+import { estimateBracket, type BracketSignal } from '@/lib/bracket-estimator';
+import { useChatStore } from '@/stores/chatStore';
+import { useDeckStore } from '@/stores/deckStore';
+import { COMMANDER_BRACKETS, getComboFingerprint, type Deck, type DeckCombo, type StoredComboResults } from '@/types';
+
+// Wait for edits to settle before looking the deck up again
+const CHECK_DELAY_MS = 1500;
+
+interface BracketEstimateCardProps {
+  deck: Deck;
+  className?: string;
+}
+
+function SignalRow({ signal }: { signal: BracketSignal }) {
+  const [open, setOpen] = useState(false);
+
+  return (
+    <div>
+      <button
+        type="button"
+        className="flex w-full items-center justify-between text-sm hover:text-foreground/80 disabled:cursor-default"
+        onClick={() => setOpen(!open)}
+        disabled={signal.cards.length === 0}
+      >
+        <span className="flex items-center gap-1">
+          {signal.cards.length > 0 && (open ? <ChevronDown className="h-3 w-3" /> : <ChevronRight className="h-3 w-3" />)}
+          {signal.label}
+        </span>
+        <span className="font-medium">{signal.unavailable ? '?' : signal.cards.length}</span>
+      </button>
+      {signal.note && <p className="text-xs text-muted-foreground">{signal.note}</p>}
+      {open && (
+        <div className="mt-1 flex flex-wrap gap-1">
+          {signal.cards.map((name) => (
+            <Badge key={name} variant="secondary" className="text-xs">{name}</Badge>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
+
+/**
+ * Estimated bracket with the cards behind it. Combos come from a saved deck's
+ * stored results while they still match its cards, otherwise from the combo
+ * check, run once the card is on screen and the deck has stopped changing.
+ */
+export function BracketEstimateCard({ deck, className }: BracketEstimateCardProps) {
+  const { user } = useAuth();
+  const savedDeckId = useDeckStore((state) => state.savedDeckId);
+  const setSettings = useChatStore((state) => state.setSettings);
+  const cardRef = useRef<HTMLDivElement>(null);
+  const [isVisible, setIsVisible] = useState(false);
+  // The first lookup runs straight away; later ones are edits, so they wait
+  const hasLoadedRef = useRef(false);
+  // Tagged with the request it answers, so a stale response reads as loading
+  const [result, setResult] = useState<{ request: string; combos: DeckCombo[] | null } | null>(null);
+
+  const request = useMemo(
+    () =>
+      JSON.stringify({
+        cards: [...deck.commanders.map((c) => c.name), ...deck.mainboard.map((dc) => dc.card.name)],
+        commanders: deck.commanders.map((c) => c.name),
+      }),
+    [deck.commanders, deck.mainboard]
+  );
+
+  useEffect(() => {
+    const element = cardRef.current;
+    if (!element || isVisible) return;
+
+    const observer = new IntersectionObserver(([entry]) => {
+      if (entry.isIntersecting) setIsVisible(true);
+    });
+    observer.observe(element);
+    return () => observer.disconnect();
+  }, [isVisible]);
+
+  const storedDeckId = user && savedDeckId === deck.id ? savedDeckId : null;
+
+  useEffect(() => {
+    if (!isVisible) return;
+    let cancelled = false;
+
+    // The saved deck's stored results, if they were detected for this card list
+    const loadStored = async (): Promise<DeckCombo[] | null> => {
+      if (!storedDeckId) return null;
+      const token = localStorage.getItem('decktutor-token');
+      const response = await fetch(`/api/user/decks/${storedDeckId}/combo-results`, {
+        headers: { Authorization: `Bearer ${token}` },
+      });
+      if (!response.ok) return null;
+      const { results }: { results: StoredComboResults | null } = await response.json();
+      return results?.fingerprint === getComboFingerprint(JSON.parse(request)) ? results.combos : null;
+    };
+
+    const check = async (): Promise<DeckCombo[]> => {
+      const response = await fetch('/api/combos/check', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: request,
+      });
+      if (!response.ok) throw new Error(`Combo check failed: ${response.status}`);
+      const data: { combos: DeckCombo[] } = await response.json();
+      return data.combos;
+    };
+
+    const timeout = setTimeout(async () => {
+      let combos: DeckCombo[] | null;
+      try {
+        combos = (await loadStored().catch(() => null)) ?? (await check());
+      } catch {
+        combos = null;
+      }
+      if (cancelled) return;
+      hasLoadedRef.current = true;
+      setResult({ request, combos });
+    }, hasLoadedRef.current ? CHECK_DELAY_MS : 0);
+
+    return () => {
+      cancelled = true;
+      clearTimeout(timeout);
+    };
+  }, [request, isVisible, storedDeckId]);
+
+  const loading = result?.request !== request;
+  const combosUnavailable = !loading && result.combos === null;
+  const estimate = useMemo(
+    () => estimateBracket(deck, loading ? [] : result.combos ?? []),
+    [deck, loading, result]
+  );
+  const bracketInfo = COMMANDER_BRACKETS[estimate.bracket];
+
+  const handleUseInChat = () => {
+    setSettings({ bracketLevel: estimate.bracket });
+    toast.success(`Chat set to Bracket ${estimate.bracket} (${bracketInfo.name})`);
+  };
+
+  return (
+    <Card ref={cardRef} className={className}>
+      <CardHeader className="flex flex-row items-start justify-between gap-2 pb-2">
+        <div>
+          <CardTitle className="text-sm font-medium">Estimated Bracket</CardTitle>
+          <div className="mt-1 flex items-baseline gap-2">
+            <span className="text-xl font-bold">{estimate.bracket}</span>
+            <span className="text-sm font-medium">{bracketInfo.name}</span>
+            {loading && <RefreshCw className="h-3 w-3 animate-spin text-muted-foreground" />}
+          </div>
+          <p className="text-xs text-muted-foreground">{bracketInfo.description}</p>
+        </div>
+        <Button variant="outline" size="sm" className="h-7 px-2 text-xs" onClick={handleUseInChat} disabled={loading}>
+          <MessageSquare className="h-3 w-3 mr-1" />
+          Use in chat
+        </Button>
+      </CardHeader>
+      <CardContent className="space-y-3">
+        <ul className="list-disc list-inside space-y-1 text-sm text-muted-foreground">
+          {estimate.reasons.map((reason) => (
+            <li key={reason}>{reason}</li>
+          ))}
+        </ul>
+        {combosUnavailable && (
+          <p className="text-xs text-muted-foreground">
+            Combo detection is unavailable, so two-card combos aren&apos;t counted.
+          </p>
+        )}
+        <div className="space-y-1">
+          {[estimate.gameChangers, estimate.twoCardCombos, estimate.massLandDenial, estimate.extraTurns, estimate.tutors].map(
+            (signal) => (
+              <SignalRow key={signal.label} signal={signal} />
+            )
+          )}
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
@@ -21,11 +21,14 @@ interface CardChange {
   card: Card;
   quantity: number;
   board: DeckCard['board'];
+  categories?: string[];
 }
 
 export interface DeckChanges {
   additions: CardChange[];
   removals: CardChange[];
+  // Cards whose tags changed
+  retagged: CardChange[];
 }
 
 export function computeDeckChanges(
@@ -34,19 +37,20 @@ export function computeDeckChanges(
 ): DeckChanges {
   const additions: CardChange[] = [];
   const removals: CardChange[] = [];
+  const retagged: CardChange[] = [];
 
   if (!currentDeck) {
-    return { additions, removals };
+    return { additions, removals, retagged };
   }
 
   // If no saved snapshot, everything is an addition (new deck)
   if (!savedSnapshot) {
-    return { additions: [], removals: [] };
+    return { additions: [], removals: [], retagged: [] };
   }
 
   // Create maps of card quantities for comparison
-  const createCardMap = (deck: Deck): Map<string, { card: Card; quantity: number; board: DeckCard['board'] }> => {
-    const map = new Map<string, { card: Card; quantity: number; board: DeckCard['board'] }>();
+  const createCardMap = (deck: Deck): Map<string, CardChange> => {
+    const map = new Map<string, CardChange>();
 
     // Commanders
     for (const commander of deck.commanders) {
@@ -64,7 +68,7 @@ export function computeDeckChanges(
     for (const { cards, boardName } of boards) {
       for (const dc of cards) {
         const key = `${dc.card.id}-${boardName}`;
-        map.set(key, { card: dc.card, quantity: dc.quantity, board: boardName });
+        map.set(key, { card: dc.card, quantity: dc.quantity, board: boardName, categories: dc.categories });
       }
     }
 
@@ -84,6 +88,10 @@ export function computeDeckChanges(
       // Quantity increased
       additions.push({ card: current.card, quantity: current.quantity - saved.quantity, board: current.board });
     }
+
+    if (saved && (current.categories || []).join('\n') !== (saved.categories || []).join('\n')) {
+      retagged.push(current);
+    }
   }
 
   // Find removals (cards in saved but not in current, or decreased quantity)
@@ -98,40 +106,125 @@ export function computeDeckChanges(
     }
   }
 
-  return { additions, removals };
+  return { additions, removals, retagged };
+}
+
+/**
+ * Apply a set of changes to a deck, e.g. the selected subset of an upstream diff.
+ */
+export function applyDeckChanges(deck: Deck, changes: DeckChanges): Deck {
+  let commanders = [...deck.commanders];
+  const boards = {
+    mainboard: deck.mainboard.map((dc) => ({ ...dc })),
+    sideboard: deck.sideboard.map((dc) => ({ ...dc })),
+    maybeboard: deck.maybeboard.map((dc) => ({ ...dc })),
+  };
+
+  for (const change of changes.removals) {
+    if (change.board === 'commanders') {
+      commanders = commanders.filter((c) => c.id !== change.card.id);
+      continue;
+    }
+    const board = boards[change.board];
+    const existing = board.find((dc) => dc.card.id === change.card.id);
+    if (existing) {
+      existing.quantity -= change.quantity;
+    }
+    boards[change.board] = board.filter((dc) => dc.quantity > 0);
+  }
+
+  for (const change of changes.additions) {
+    if (change.board === 'commanders') {
+      if (!commanders.some((c) => c.id === change.card.id)) {
+        commanders.push(change.card);
+      }
+      continue;
+    }
+    const board = boards[change.board];
+    const existing = board.find((dc) => dc.card.id === change.card.id);
+    if (existing) {
+      existing.quantity += change.quantity;
+    } else {
+      board.push({
+        card: change.card,
+        quantity: change.quantity,
+        board: change.board,
+        ...(change.categories && { categories: change.categories }),
+      });
+    }
+  }
+
+  for (const change of changes.retagged) {
+    if (change.board === 'commanders') continue;
+    const existing = boards[change.board].find((dc) => dc.card.id === change.card.id);
+    if (existing) {
+      existing.categories = change.categories;
+    }
+  }
+
+  return {
+    ...deck,
+    commanders,
+    ...boards,
+    lastModifiedAt: new Date().toISOString(),
+  };
 }
 
+type ChangeType = 'addition' | 'removal' | 'retag';
+
 interface CardChangeRowProps {
   change: CardChange;
-  type: 'addition' | 'removal';
+  type: ChangeType;
   isSelected: boolean;
   onSelect: () => void;
+  // Only set when the dialog lets the user pick which changes to apply
+  checked?: boolean;
+  onCheckedChange?: () => void;
 }
 
-function CardChangeRow({ change, type, isSelected, onSelect }: CardChangeRowProps) {
-  const isAddition = type === 'addition';
-
-  return (
+const ROW_STYLES = {
+  addition: {
+    row: 'border-l-green-500 bg-green-500/5 hover:bg-green-500/10',
+    selected: 'bg-green-500/20',
+    indicator: 'bg-green-600',
+    symbol: '+',
+  },
+  removal: {
+    row: 'border-l-red-500 bg-red-500/5 hover:bg-red-500/10',
+    selected: 'bg-red-500/20',
+    indicator: 'bg-red-600',
+    symbol: '-',
+  },
+  retag: {
+    row: 'border-l-blue-500 bg-blue-500/5 hover:bg-blue-500/10',
+    selected: 'bg-blue-500/20',
+    indicator: 'bg-blue-600',
+    symbol: '#',
+  },
+};
+
+function CardChangeRow({ change, type, isSelected, onSelect, checked, onCheckedChange }: CardChangeRowProps) {
+  const styles = ROW_STYLES[type];
+
+  const row = (
     <button
       type="button"
       onClick={onSelect}
       className={cn(
         'w-full flex items-center gap-2 px-3 py-2.5 text-left text-sm transition-colors',
         'border-l-4',
-        isAddition
-          ? 'border-l-green-500 bg-green-500/5 hover:bg-green-500/10'
-          : 'border-l-red-500 bg-red-500/5 hover:bg-red-500/10',
-        isSelected && (isAddition ? 'bg-green-500/20' : 'bg-red-500/20')
+        styles.row,
+        isSelected && styles.selected
       )}
     >
-      {/* +/- indicator */}
+      {/* +/-/# indicator */}
       <span
         className={cn(
           'flex-shrink-0 w-5 h-5 rounded-full flex items-center justify-center text-xs font-bold text-white',
-          isAddition ? 'bg-green-600' : 'bg-red-600'
+          styles.indicator
         )}
       >
-        {isAddition ? '+' : '-'}
+        {styles.symbol}
       </span>
 
       {/* Quantity */}
@@ -154,21 +247,42 @@ function CardChangeRow({ change, type, isSelected, onSelect }: CardChangeRowProp
       {/* Spacer to push board to the right */}
       <span className="flex-1" />
 
-      {/* Board indicator - hidden on mobile */}
+      {/* Board (or new tags) indicator - hidden on mobile */}
       <span className="hidden sm:block flex-shrink-0 text-xs text-muted-foreground capitalize">
-        {change.board}
+        {type === 'retag' ? (change.categories?.join(', ') || 'No tags') : change.board}
       </span>
     </button>
   );
+
+  if (!onCheckedChange) {
+    return row;
+  }
+
+  return (
+    <div className={cn('flex items-center', !checked && 'opacity-50')}>
+      <input
+        type="checkbox"
+        checked={checked}
+        onChange={onCheckedChange}
+        className="ml-3 h-4 w-4 flex-shrink-0 accent-primary"
+        aria-label={`Apply change to ${change.card.name}`}
+      />
+      <div className="flex-1 min-w-0">{row}</div>
+    </div>
+  );
 }
 
 interface DeckChangesDialogProps {
   open: boolean;
   onOpenChange: (open: boolean) => void;
   changes: DeckChanges;
-  onConfirm: () => void;
+  onConfirm: (selected: DeckChanges) => void;
   onUndo?: () => void;
   isLoading?: boolean;
+  // Let the user choose which changes to apply
+  selectable?: boolean;
+  title?: string;
+  confirmLabel?: string;
 }
 
 export function DeckChangesDialog({
@@ -178,20 +292,50 @@ export function DeckChangesDialog({
   onConfirm,
   onUndo,
   isLoading = false,
+  selectable = false,
+  title: titleOverride,
+  confirmLabel = 'Confirm Changes',
 }: DeckChangesDialogProps) {
-  const { additions, removals } = changes;
+  const { additions, removals, retagged } = changes;
   const hasAdditions = additions.length > 0;
   const hasRemovals = removals.length > 0;
+  const hasRetagged = retagged.length > 0;
   const [selectedCard, setSelectedCard] = useState<Card | null>(null);
+  // Changes the user has unticked, keyed by type and index
+  const [excluded, setExcluded] = useState<Set<string>>(new Set());
+
+  const rowSelection = (type: ChangeType, idx: number) => {
+    if (!selectable) return {};
+    const key = `${type}-${idx}`;
+    return {
+      checked: !excluded.has(key),
+      onCheckedChange: () =>
+        setExcluded((prev) => {
+          const next = new Set(prev);
+          if (next.has(key)) next.delete(key);
+          else next.add(key);
+          return next;
+        }),
+    };
+  };
+
+  const handleConfirm = () => {
+    onConfirm({
+      additions: additions.filter((_, idx) => !excluded.has(`addition-${idx}`)),
+      removals: removals.filter((_, idx) => !excluded.has(`removal-${idx}`)),
+      retagged: retagged.filter((_, idx) => !excluded.has(`retag-${idx}`)),
+    });
+  };
 
   const title = useMemo(() => {
+    if (titleOverride) return titleOverride;
     if (hasAdditions && hasRemovals) {
       return 'Review Deck Changes';
     } else if (hasRemovals) {
       return 'Confirm Card Removal';
     }
     return 'Confirm Changes';
-  }, [hasAdditions, hasRemovals]);
+  }, [titleOverride, hasAdditions, hasRemovals]);
 
   const description = useMemo(() => {
     const addCount = additions.reduce((sum, a) => sum + a.quantity, 0);
@@ -209,6 +353,7 @@ export function DeckChangesDialog({
   const handleOpenChange = (newOpen: boolean) => {
     if (!newOpen) {
       setSelectedCard(null);
+      setExcluded(new Set());
     }
     onOpenChange(newOpen);
   };
@@ -243,6 +388,33 @@ export function DeckChangesDialog({
                       type="removal"
                       isSelected={selectedCard?.id === removal.card.id}
                       onSelect={() => setSelectedCard(removal.card)}
+                      {...rowSelection('removal', idx)}
+                    />
+                  ))}
+                </div>
+              </div>
+            )}
+
+            {/* Tag changes */}
+            {hasRetagged && (
+              <div>
+                <div className="sticky top-0 bg-background/95 backdrop-blur px-4 py-2 border-b">
+                  <h3 className="font-semibold text-blue-600 dark:text-blue-400 text-sm flex items-center gap-2">
+                    <span>Retagged</span>
+                    <span className="bg-blue-600 text-white text-xs px-1.5 py-0.5 rounded-full">
+                      {retagged.length}
+                    </span>
+                  </h3>
+                </div>
+                <div className="divide-y">
+                  {retagged.map((change, idx) => (
+                    <CardChangeRow
+                      key={`retag-${change.card.id}-${change.board}-${idx}`}
+                      change={change}
+                      type="retag"
+                      isSelected={selectedCard?.id === change.card.id}
+                      onSelect={() => setSelectedCard(change.card)}
+                      {...rowSelection('retag', idx)}
                     />
                   ))}
                 </div>
@@ -268,6 +440,7 @@ export function DeckChangesDialog({
                       type="addition"
                       isSelected={selectedCard?.id === addition.card.id}
                       onSelect={() => setSelectedCard(addition.card)}
+                      {...rowSelection('addition', idx)}
                     />
                   ))}
                 </div>
@@ -325,8 +498,8 @@ export function DeckChangesDialog({
             </div>
             <div className="flex flex-col-reverse gap-2 sm:flex-row">
               <AlertDialogCancel disabled={isLoading}>Cancel</AlertDialogCancel>
-              <AlertDialogAction onClick={onConfirm} disabled={isLoading}>
-                {isLoading ? 'Saving...' : 'Confirm Changes'}
+              <AlertDialogAction onClick={handleConfirm} disabled={isLoading}>
+                {isLoading ? 'Saving...' : confirmLabel}
               </AlertDialogAction>
             </div>
           </div>
@@ -6,20 +6,177 @@ import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
 import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
-import { useDeckStore } from '@/stores/deckStore';
+import { useDeckStore, type ImportStage } from '@/stores/deckStore';
+import { readImportStream } from '@/lib/import-stream';
+import {
+  DECK_LIST_FORMAT_NAMES,
+  DECK_SOURCE_NAMES,
+  type Deck,
+  type ImportDeckResponse,
+  type ImportProgressEvent,
+  type ImportProgressStage,
+} from '@/types';
 import { toast } from 'sonner';
+import { ImportReviewDialog, applyImportReview, type ImportResolutions } from './ImportReviewDialog';
+
+type ImportResult = ImportDeckResponse;
+
+// Where each server stage sits in the overall progress bar
+const SERVER_STAGES: Record<ImportProgressStage, { stage: ImportStage; from: number; to: number }> = {
+  fetching: { stage: 'fetching', from: 5, to: 15 },
+  parsing: { stage: 'parsing', from: 15, to: 20 },
+  lookup: { stage: 'loading-cards', from: 20, to: 50 },
+  fuzzy: { stage: 'matching', from: 50, to: 65 },
+  prices: { stage: 'pricing', from: 65, to: 95 },
+};
+
+const STAGE_LABELS: Partial<Record<ImportStage, string>> = {
+  fetching: 'Fetching deck list',
+  parsing: 'Reading deck list',
+  'loading-cards': 'Looking up cards',
+  matching: 'Matching unrecognised cards',
+  pricing: 'Filling in missing prices',
+};
+
+function ImportProgress() {
+  const { importStage, importProgress, importDetail, importWarnings } = useDeckStore();
+
+  return (
+    <div className="space-y-2 rounded-md border p-3">
+      <div className="flex items-center justify-between text-sm">
+        <span className="font-medium">{STAGE_LABELS[importStage] || 'Importing'}...</span>
+        {importDetail && importDetail.total > 0 && (
+          <span className="text-muted-foreground">
+            {importDetail.current} / {importDetail.total}
+          </span>
+        )}
+      </div>
+      <div className="h-2 w-full overflow-hidden rounded-full bg-muted">
+        <div
+          className="h-full bg-primary transition-all duration-300"
+          style={{ width: `${importProgress}%` }}
+        />
+      </div>
+      {importDetail?.card && (
+        <p className="truncate text-xs text-muted-foreground">{importDetail.card}</p>
+      )}
+      {importWarnings.length > 0 && (
+        <ul className="max-h-24 overflow-y-auto text-xs text-amber-600 dark:text-amber-500">
+          {importWarnings.map((warning, i) => (
+            <li key={i}>{warning}</li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+}
 
 export function DeckImporter() {
   const [url, setUrl] = useState('');
   const [deckName, setDeckName] = useState('');
   const [deckText, setDeckText] = useState('');
   const [isLoading, setIsLoading] = useState(false);
+  const [pendingReview, setPendingReview] = useState<ImportResult | null>(null);
   const router = useRouter();
   const { setImportState, setCurrentDeck } = useDeckStore();
 
+  const handleProgressEvent = (event: ImportProgressEvent) => {
+    switch (event.type) {
+      case 'stage': {
+        const { stage, from } = SERVER_STAGES[event.stage];
+        setImportState({
+          importStage: stage,
+          importProgress: from,
+          importDetail: event.total ? { current: 0, total: event.total } : null,
+        });
+        break;
+      }
+      case 'progress': {
+        const { stage, from, to } = SERVER_STAGES[event.stage];
+        setImportState({
+          importStage: stage,
+          importProgress: Math.round(from + ((to - from) * event.current) / Math.max(event.total, 1)),
+          importDetail: { current: event.current, total: event.total, card: event.card },
+        });
+        break;
+      }
+      case 'warning':
+        setImportState({ importWarnings: [...useDeckStore.getState().importWarnings, event.message] });
+        break;
+    }
+  };
+
+  // Ask for progress events and read the final result off the stream
+  const runImport = async (endpoint: string, body: object): Promise<ImportResult> => {
+    const response = await fetch(endpoint, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json', Accept: 'text/event-stream' },
+      body: JSON.stringify(body),
+    });
+
+    if (!response.ok) {
+      const error = await response.json();
+      throw new Error(error.message || 'Failed to import deck');
+    }
+
+    return readImportStream(response, handleProgressEvent);
+  };
+
+  const completeImport = (deck: Deck, data: ImportResult) => {
+    setImportState({ importStage: 'ready', importProgress: 100, importDetail: null });
+    setCurrentDeck(deck);
+
+    const formatName = data.detectedFormat && DECK_LIST_FORMAT_NAMES[data.detectedFormat];
+    const description = formatName ? `Detected ${formatName} format` : undefined;
+
+    // Show appropriate toast based on warnings/info
+    if (data.warnings && data.warnings.length > 0) {
+      toast.warning(data.warnings[0]);
+    } else if (data.info && data.info.length > 0) {
+      toast.success(`Imported "${deck.name}" successfully!`, { description });
+      toast.info(data.info[0]);
+    } else {
+      toast.success(`Imported "${deck.name}" successfully!`, { description });
+    }
+    router.push(`/deck/${deck.id}`);
+  };
+
+  // Unresolved and fuzzy-matched lines must be confirmed before the deck is used
+  const handleImportResult = (data: ImportResult) => {
+    if (data.review && data.review.length > 0) {
+      setImportState({ importStage: 'reviewing', importProgress: 95, importDetail: null });
+      setPendingReview(data);
+      return;
+    }
+    completeImport(data.deck, data);
+  };
+
+  const handleReviewConfirm = (resolutions: ImportResolutions) => {
+    if (!pendingReview) return;
+
+    const items = pendingReview.review || [];
+    const deck = applyImportReview(pendingReview.deck, items, resolutions);
+    const dropped = items.filter((item) => !resolutions[item.id]).length;
+
+    // Review replaces the not-found/converted summaries; other notes still apply
+    const summaries = new Set(pendingReview.reviewSummaries);
+    const warnings = (pendingReview.warnings || []).filter((warning) => !summaries.has(warning));
+    const info = (pendingReview.info || []).filter((note) => !summaries.has(note));
+    if (dropped > 0) info.unshift(`${dropped} line${dropped > 1 ? 's' : ''} dropped during review`);
+
+    setPendingReview(null);
+    completeImport(deck, { ...pendingReview, warnings, info });
+  };
+
+  const handleReviewCancel = () => {
+    setPendingReview(null);
+    setImportState({ importStage: 'idle', isImporting: false, importProgress: 0 });
+    toast.info('Import cancelled');
+  };
+
   const handleUrlImport = async () => {
     if (!url.trim()) {
-      toast.error('Please enter a Moxfield deck URL');
+      toast.error('Please enter a deck URL');
       return;
     }
 
@@ -27,40 +184,14 @@ export function DeckImporter() {
     setImportState({
       isImporting: true,
       importProgress: 0,
-      importStage: 'parsing',
+      importStage: 'fetching',
+      importDetail: null,
+      importWarnings: [],
     });
 
     try {
-      setImportState({ importStage: 'fetching', importProgress: 20 });
-
-      const response = await fetch('/api/decks/import', {
-        method: 'POST',
-        headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify({ moxfieldUrl: url }),
-      });
-
-      if (!response.ok) {
-        const error = await response.json();
-        throw new Error(error.message || 'Failed to import deck');
-      }
-
-      setImportState({ importStage: 'loading-cards', importProgress: 60 });
-
-      const data = await response.json();
-
-      setImportState({ importStage: 'ready', importProgress: 100 });
-      setCurrentDeck(data.deck);
-
-      // Show appropriate toast based on warnings/info
-      if (data.warnings && data.warnings.length > 0) {
-        toast.warning(data.warnings[0]);
-      } else if (data.info && data.info.length > 0) {
-        toast.success(`Imported "${data.deck.name}" successfully!`);
-        toast.info(data.info[0]);
-      } else {
-        toast.success(`Imported "${data.deck.name}" successfully!`);
-      }
-      router.push(`/deck/${data.deck.id}`);
+      const data = await runImport('/api/decks/import', { url });
+      handleImportResult(data);
     } catch (error) {
       setImportState({ importStage: 'error', isImporting: false });
       toast.error(error instanceof Error ? error.message : 'Failed to import deck');
@@ -80,40 +211,16 @@ export function DeckImporter() {
       isImporting: true,
       importProgress: 0,
       importStage: 'parsing',
+      importDetail: null,
+      importWarnings: [],
     });
 
     try {
-      setImportState({ importStage: 'loading-cards', importProgress: 30 });
-
-      const response = await fetch('/api/decks/import-text', {
-        method: 'POST',
-        headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify({
-          deckText,
-          deckName: deckName.trim() || 'Imported Deck',
-        }),
+      const data = await runImport('/api/decks/import-text', {
+        deckText,
+        deckName: deckName.trim() || undefined,
       });
-
-      if (!response.ok) {
-        const error = await response.json();
-        throw new Error(error.message || 'Failed to import deck');
-      }
-
-      const data = await response.json();
-
-      setImportState({ importStage: 'ready', importProgress: 100 });
-      setCurrentDeck(data.deck);
-
-      // Show appropriate toast based on warnings/info
-      if (data.warnings && data.warnings.length > 0) {
-        toast.warning(data.warnings[0]);
-      } else if (data.info && data.info.length > 0) {
-        toast.success(`Imported "${data.deck.name}" successfully!`);
-        toast.info(data.info[0]);
-      } else {
-        toast.success(`Imported "${data.deck.name}" successfully!`);
-      }
-      router.push(`/deck/${data.deck.id}`);
+      handleImportResult(data);
     } catch (error) {
       setImportState({ importStage: 'error', isImporting: false });
       toast.error(error instanceof Error ? error.message : 'Failed to import deck');
@@ -134,7 +241,7 @@ export function DeckImporter() {
         <Tabs defaultValue="text" className="space-y-4">
           <TabsList className="grid w-full grid-cols-2">
             <TabsTrigger value="text">Paste Deck List</TabsTrigger>
-            <TabsTrigger value="url">Moxfield URL</TabsTrigger>
+            <TabsTrigger value="url">Deck URL</TabsTrigger>
           </TabsList>
 
           <TabsContent value="text" className="space-y-4">
@@ -163,26 +270,45 @@ Example (Moxfield text export):
               {isLoading ? 'Importing...' : 'Import Deck'}
             </Button>
             <p className="text-xs text-muted-foreground">
-              Export from Moxfield: Click the three dots → &quot;Export&quot; → &quot;Text&quot;.
-              The commander will be detected automatically (it&apos;s after the blank line).
+              Accepts Moxfield/Archidekt text or CSV exports, MTG Arena exports and MTGO .dek files.
+              The format and commander are detected automatically.
             </p>
           </TabsContent>
 
           <TabsContent value="url" className="space-y-4">
-            <div className="flex flex-col items-center justify-center py-8 text-center space-y-4">
-              <div className="text-4xl">🚧</div>
-              <h3 className="text-lg font-semibold">Under Construction</h3>
-              <p className="text-sm text-muted-foreground max-w-sm">
-                Direct Moxfield URL import is temporarily unavailable while we work on API access.
-                Please use the &quot;Paste Deck List&quot; option instead.
-              </p>
-              <p className="text-xs text-muted-foreground">
-                Export from Moxfield: Click the three dots → &quot;Export&quot; → &quot;Text&quot;
-              </p>
-            </div>
+            <Input
+              placeholder="https://archidekt.com/decks/123456"
+              value={url}
+              onChange={(e) => setUrl(e.target.value)}
+              onKeyDown={(e) => {
+                if (e.key === 'Enter' && !isLoading) handleUrlImport();
+              }}
+            />
+            <Button onClick={handleUrlImport} disabled={isLoading} className="w-full">
+              {isLoading ? 'Importing...' : 'Import Deck'}
+            </Button>
+            <p className="text-xs text-muted-foreground">
+              Supported sites: {Object.values(DECK_SOURCE_NAMES).join(', ')}.
+              The deck must be public.
+            </p>
           </TabsContent>
         </Tabs>
+
+        {isLoading && (
+          <div className="mt-4">
+            <ImportProgress />
+          </div>
+        )}
       </CardContent>
+
+      {pendingReview?.review && (
+        <ImportReviewDialog
+          open
+          items={pendingReview.review}
+          onConfirm={handleReviewConfirm}
+          onCancel={handleReviewCancel}
+        />
+      )}
     </Card>
   );
 }
@@ -6,14 +6,14 @@ import { DeckCard } from './DeckCard';
 import { ScrollArea } from '@/components/ui/scroll-area';
 import { cn } from '@/lib/utils';
 import { useDeckStore, type GroupBy, type SortBy } from '@/stores/deckStore';
-import type { DeckCard as DeckCardType } from '@/types';
+import { getCardPrice, type DeckCard as DeckCardType, type PriceKey } from '@/types';
 
 interface DeckListProps {
   cards: DeckCardType[];
   className?: string;
 }
 
-function sortCards(cards: DeckCardType[], sortBy: SortBy): DeckCardType[] {
+function sortCards(cards: DeckCardType[], sortBy: SortBy, priceKey: PriceKey): DeckCardType[] {
   return [...cards].sort((a, b) => {
     switch (sortBy) {
       case 'name':
@@ -25,8 +25,8 @@ function sortCards(cards: DeckCardType[], sortBy: SortBy): DeckCardType[] {
       case 'color':
         return a.card.colorIdentity.join('').localeCompare(b.card.colorIdentity.join(''));
       case 'cost': {
-        const priceA = parseFloat(a.card.prices?.usd || '0') || 0;
-        const priceB = parseFloat(b.card.prices?.usd || '0') || 0;
+        const priceA = getCardPrice(a.card, priceKey) ?? 0;
+        const priceB = getCardPrice(b.card, priceKey) ?? 0;
         return priceB - priceA; // Sort descending (most expensive first)
       }
       default:
@@ -35,6 +35,8 @@ function sortCards(cards: DeckCardType[], sortBy: SortBy): DeckCardType[] {
   });
 }
 
+const UNCATEGORIZED = 'Uncategorized';
+
 function groupCards(
   cards: DeckCardType[],
   groupBy: GroupBy
@@ -71,6 +73,10 @@ function groupCards(
           ? 'Multicolor'
           : card.card.colorIdentity[0];
         break;
+      case 'category':
+        // Group by the card's primary tag
+        key = card.categories?.[0] || UNCATEGORIZED;
+        break;
       default:
         key = 'All Cards';
     }
@@ -113,15 +119,17 @@ function getGroupOrder(groupBy: GroupBy): string[] {
 }
 
 export function DeckList({ cards, className }: DeckListProps) {
-  const { viewMode, sortBy, groupBy } = useDeckStore();
+  const { viewMode, sortBy, groupBy, priceKey } = useDeckStore();
   const [collapsedGroups, setCollapsedGroups] = useState<Set<string>>(new Set());
 
   const { groupedCards, sortedGroups } = useMemo(() => {
-    const sorted = sortCards(cards, sortBy);
+    const sorted = sortCards(cards, sortBy, priceKey);
     const grouped = groupCards(sorted, groupBy);
     const order = getGroupOrder(groupBy);
 
     const sortedGroupNames = Object.keys(grouped).sort((a, b) => {
+      if (a === UNCATEGORIZED) return 1;
+      if (b === UNCATEGORIZED) return -1;
       const aIndex = order.indexOf(a);
       const bIndex = order.indexOf(b);
       if (aIndex === -1 && bIndex === -1) return a.localeCompare(b);
@@ -131,7 +139,7 @@ export function DeckList({ cards, className }: DeckListProps) {
     });
 
     return { groupedCards: grouped, sortedGroups: sortedGroupNames };
-  }, [cards, sortBy, groupBy]);
+  }, [cards, sortBy, groupBy, priceKey]);
 
   const totalCards = cards.reduce((sum, c) => sum + c.quantity, 0);
 
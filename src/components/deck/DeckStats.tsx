@@ -36,9 +36,11 @@ export function DeckStatsSummary({ stats }: DeckStatsProps) {
         </CardHeader>
         <CardContent className="pb-3 px-3">
           <div className="flex gap-1">
-            {Object.entries(stats.colorDistribution)
-              .filter(([, count]) => count > 0)
-              .map(([color]) => (
+            {/* The commanders' identity when there are any, otherwise what the cards use */}
+            {(stats.colorIdentity?.length
+              ? stats.colorIdentity
+              : Object.keys(stats.colorDistribution).filter((color) => stats.colorDistribution[color] > 0)
+            ).map((color) => (
                 <div
                   key={color}
                   className="h-5 w-5 rounded-full border border-border"
@@ -146,9 +148,11 @@ export function DeckStats({ stats }: DeckStatsProps) {
         </CardHeader>
         <CardContent>
           <div className="flex gap-1">
-            {Object.entries(stats.colorDistribution)
-              .filter(([, count]) => count > 0)
-              .map(([color]) => (
+            {/* The commanders' identity when there are any, otherwise what the cards use */}
+            {(stats.colorIdentity?.length
+              ? stats.colorIdentity
+              : Object.keys(stats.colorDistribution).filter((color) => stats.colorDistribution[color] > 0)
+            ).map((color) => (
                 <div
                   key={color}
                   className="h-6 w-6 rounded-full border border-border"
@@ -0,0 +1,187 @@
+'use client';
+
+import { useEffect, useMemo, useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Sparkline } from '@/components/ui/sparkline';
+import { cn } from '@/lib/utils';
+import { formatPrice, type DeckValuePoint, type PriceKey } from '@/types';
+import { RefreshCw } from 'lucide-react';
+
+const RANGES = [
+  { days: 30, label: '30d' },
+  { days: 90, label: '90d' },
+  { days: 365, label: '1y' },
+];
+
+interface DeckValueChartProps {
+  cards: Array<{ id: string; quantity: number }>;
+  priceKey: PriceKey;
+  className?: string;
+}
+
+function formatDate(date: string): string {
+  return new Date(`${date}T00:00:00`).toLocaleDateString(undefined, { month: 'short', day: 'numeric', year: 'numeric' });
+}
+
+function formatChange(delta: number, priceKey: PriceKey): string {
+  return `${delta >= 0 ? '+' : '-'}${formatPrice(Math.abs(delta), priceKey)}`;
+}
+
+// Highest value and the largest day-over-day rise, to spot spikes
+function summarize(points: DeckValuePoint[]) {
+  const peak = points.reduce((best, point) => (point.value > best.value ? point : best));
+
+  let jump: { date: string; delta: number } | null = null;
+  for (let i = 1; i < points.length; i++) {
+    const delta = points[i].value - points[i - 1].value;
+    if (delta > 0 && (!jump || delta > jump.delta)) {
+      jump = { date: points[i].date, delta };
+    }
+  }
+
+  const first = points[0].value;
+  const change = points[points.length - 1].value - first;
+  return { peak, jump, change, changePercent: first > 0 ? (change / first) * 100 : null };
+}
+
+export function DeckValueChart({ cards, priceKey, className }: DeckValueChartProps) {
+  const [days, setDays] = useState(90);
+  const [hovered, setHovered] = useState<number | null>(null);
+  // Tagged with the request it answers, so a stale response reads as loading
+  const [result, setResult] = useState<{ request: string; points: DeckValuePoint[] | null } | null>(null);
+
+  // The page rebuilds the card list every render; only refetch when it changes
+  const request = useMemo(() => JSON.stringify({ cards, days, priceKey }), [cards, days, priceKey]);
+
+  useEffect(() => {
+    let cancelled = false;
+
+    fetch('/api/decks/value-history', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: request,
+    })
+      .then((response) => (response.ok ? response.json() : Promise.reject(response.status)))
+      .then((data: { points: DeckValuePoint[] }) => {
+        if (!cancelled) setResult({ request, points: data.points });
+      })
+      .catch(() => {
+        if (!cancelled) setResult({ request, points: null });
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [request]);
+
+  const loading = result?.request !== request;
+  const points = loading ? null : result.points;
+  const error = !loading && points === null;
+
+  const summary = useMemo(() => (points && points.length > 0 ? summarize(points) : null), [points]);
+  const hoveredPoint = points && hovered !== null ? points[hovered] : null;
+
+  const handleMouseMove = (e: React.MouseEvent<HTMLDivElement>) => {
+    if (!points || points.length < 2) return;
+    const rect = e.currentTarget.getBoundingClientRect();
+    const ratio = Math.min(Math.max((e.clientX - rect.left) / rect.width, 0), 1);
+    setHovered(Math.round(ratio * (points.length - 1)));
+  };
+
+  return (
+    <Card className={className}>
+      <CardHeader className="flex flex-row items-center justify-between pb-2">
+        <CardTitle className="text-sm font-medium">Value History</CardTitle>
+        <div className="flex gap-1">
+          {RANGES.map((range) => (
+            <Button
+              key={range.days}
+              variant={days === range.days ? 'default' : 'ghost'}
+              size="sm"
+              className="h-7 px-2 text-xs"
+              onClick={() => setDays(range.days)}
+            >
+              {range.label}
+            </Button>
+          ))}
+        </div>
+      </CardHeader>
+      <CardContent>
+        {error ? (
+          <p className="text-sm text-muted-foreground">Couldn&apos;t load price history.</p>
+        ) : points === null ? (
+          <div className="flex h-32 items-center justify-center text-muted-foreground">
+            <RefreshCw className="h-4 w-4 animate-spin" />
+          </div>
+        ) : points.length < 2 ? (
+          <p className="text-sm text-muted-foreground">
+            Not enough price history yet. Prices are recorded daily for cards in saved decks.
+          </p>
+        ) : (
+          <div className="space-y-3">
+            <div className="flex items-baseline justify-between text-sm">
+              <span className="font-medium">
+                {formatPrice((hoveredPoint ?? points[points.length - 1]).value, priceKey)}
+              </span>
+              <span className="text-xs text-muted-foreground">
+                {formatDate((hoveredPoint ?? points[points.length - 1]).date)}
+              </span>
+            </div>
+
+            <div
+              className="relative h-32 cursor-crosshair"
+              onMouseMove={handleMouseMove}
+              onMouseLeave={() => setHovered(null)}
+            >
+              <Sparkline
+                values={points.map((point) => point.value)}
+                width={600}
+                height={128}
+                fill
+                className="h-full w-full text-green-600 dark:text-green-400"
+              />
+              {hovered !== null && (
+                <div
+                  className="pointer-events-none absolute inset-y-0 w-px bg-border"
+                  style={{ left: `${(hovered / (points.length - 1)) * 100}%` }}
+                />
+              )}
+            </div>
+
+            {summary && (
+              <div className="grid grid-cols-3 gap-2 text-xs">
+                <div>
+                  <div className="text-muted-foreground">Change</div>
+                  <div
+                    className={cn(
+                      'font-medium',
+                      summary.change >= 0 ? 'text-green-600 dark:text-green-400' : 'text-red-600 dark:text-red-400'
+                    )}
+                  >
+                    {formatChange(summary.change, priceKey)}
+                    {summary.changePercent !== null && ` (${summary.changePercent.toFixed(1)}%)`}
+                  </div>
+                </div>
+                <div>
+                  <div className="text-muted-foreground">Peak</div>
+                  <div className="font-medium">
+                    {formatPrice(summary.peak.value, priceKey)} · {formatDate(summary.peak.date)}
+                  </div>
+                </div>
+                <div>
+                  <div className="text-muted-foreground">Biggest jump</div>
+                  <div className="font-medium">
+                    {summary.jump
+                      ? `${formatChange(summary.jump.delta, priceKey)} · ${formatDate(summary.jump.date)}`
+                      : 'None'}
+                  </div>
+                </div>
+              </div>
+            )}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,229 @@
+'use client';
+
+import { useCallback, useEffect, useState } from 'react';
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from '@/components/ui/alert-dialog';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { CardImage } from '@/components/card/CardImage';
+import { cn } from '@/lib/utils';
+import type { Card, Deck, ImportReviewItem } from '@/types';
+
+// Chosen card for each review item, or null to drop the line
+export type ImportResolutions = Record<string, Card | null>;
+
+export function getDefaultResolutions(items: ImportReviewItem[]): ImportResolutions {
+  return Object.fromEntries(items.map((item) => [item.id, item.match ?? null]));
+}
+
+export function applyImportReview(
+  deck: Deck,
+  items: ImportReviewItem[],
+  resolutions: ImportResolutions
+): Deck {
+  const next: Deck = {
+    ...deck,
+    commanders: [...deck.commanders],
+    mainboard: [...deck.mainboard],
+    sideboard: [...deck.sideboard],
+    maybeboard: [...deck.maybeboard],
+  };
+
+  for (const item of items) {
+    const chosen = item.id in resolutions ? resolutions[item.id] : item.match ?? null;
+    const match = item.match;
+
+    if (item.board === 'commanders') {
+      const index = match ? next.commanders.findIndex((c) => c.id === match.id) : -1;
+      const replacement = chosen ? [chosen] : [];
+      if (index !== -1) {
+        next.commanders.splice(index, 1, ...replacement);
+      } else {
+        next.commanders.push(...replacement);
+      }
+      continue;
+    }
+
+    // Converted lines are already in the deck under the fuzzy match
+    const board = next[item.board];
+    const index = match
+      ? board.findIndex((dc) => dc.card.id === match.id && dc.quantity === item.quantity)
+      : -1;
+    const replacement = chosen ? [{ card: chosen, quantity: item.quantity, board: item.board }] : [];
+    if (index !== -1) {
+      board.splice(index, 1, ...replacement);
+    } else {
+      board.push(...replacement);
+    }
+  }
+
+  return next;
+}
+
+interface ReviewItemRowProps {
+  item: ImportReviewItem;
+  selected: Card | null;
+  onSelect: (card: Card | null) => void;
+}
+
+function ReviewItemRow({ item, selected, onSelect }: ReviewItemRowProps) {
+  const [query, setQuery] = useState(item.name);
+  const [candidates, setCandidates] = useState<Card[]>(item.match ? [item.match] : []);
+  const [isSearching, setIsSearching] = useState(false);
+  const [searchError, setSearchError] = useState<string | null>(null);
+
+  const search = useCallback(async (q: string) => {
+    setIsSearching(true);
+    setSearchError(null);
+    try {
+      const response = await fetch(`/api/cards/candidates?q=${encodeURIComponent(q)}`);
+      if (!response.ok) {
+        setSearchError('Search failed. Try again.');
+      } else {
+        const data = await response.json();
+        const found: Card[] = data.candidates || [];
+        // Keep the importer's match available even if the search drops it
+        setCandidates(
+          item.match && !found.some((c) => c.id === item.match?.id)
+            ? [item.match, ...found]
+            : found
+        );
+      }
+    } catch (error) {
+      console.error('Candidate search error:', error);
+      setSearchError('Search failed. Check your connection and try again.');
+    } finally {
+      setIsSearching(false);
+    }
+  }, [item.match]);
+
+  useEffect(() => {
+    search(item.name);
+  }, [item.name, search]);
+
+  return (
+    <div className="space-y-3 px-4 py-3">
+      <div className="flex flex-wrap items-center gap-2">
+        <span className="font-mono text-sm text-muted-foreground">{item.quantity}x</span>
+        <span className="font-medium">{item.name}</span>
+        {item.status === 'converted' ? (
+          <Badge variant="secondary">Fuzzy matched</Badge>
+        ) : (
+          <Badge variant="destructive">Not found</Badge>
+        )}
+        <span className="flex-1" />
+        <span className="text-xs text-muted-foreground capitalize">{item.board}</span>
+      </div>
+
+      <form
+        className="flex gap-2"
+        onSubmit={(e) => {
+          e.preventDefault();
+          if (query.trim()) search(query.trim());
+        }}
+      >
+        <Input
+          value={query}
+          onChange={(e) => setQuery(e.target.value)}
+          placeholder="Search for a card..."
+          className="h-8"
+        />
+        <Button type="submit" size="sm" variant="outline" disabled={isSearching}>
+          {isSearching ? 'Searching...' : 'Search'}
+        </Button>
+      </form>
+
+      <div className="flex gap-2 overflow-x-auto pb-1">
+        {candidates.map((candidate) => (
+          <button
+            key={candidate.id}
+            type="button"
+            onClick={() => onSelect(candidate)}
+            className={cn(
+              'w-24 flex-shrink-0 rounded-md border-2 p-1 text-left transition-colors',
+              selected?.id === candidate.id
+                ? 'border-primary bg-primary/10'
+                : 'border-transparent hover:bg-muted'
+            )}
+          >
+            <CardImage card={candidate} size="small" />
+            <p className="mt-1 truncate text-xs font-medium">{candidate.name}</p>
+            <p className="truncate text-[10px] uppercase text-muted-foreground">
+              {candidate.setCode} #{candidate.collectorNumber}
+            </p>
+          </button>
+        ))}
+        {searchError && <p className="text-xs text-destructive">{searchError}</p>}
+        {!isSearching && !searchError && candidates.length === 0 && (
+          <p className="text-xs text-muted-foreground">No candidates found. Try another search.</p>
+        )}
+      </div>
+
+      <Button
+        size="sm"
+        variant={selected ? 'ghost' : 'secondary'}
+        onClick={() => onSelect(null)}
+      >
+        {selected ? 'Drop this line' : 'Line will be dropped'}
+      </Button>
+    </div>
+  );
+}
+
+interface ImportReviewDialogProps {
+  open: boolean;
+  items: ImportReviewItem[];
+  onConfirm: (resolutions: ImportResolutions) => void;
+  onCancel: () => void;
+}
+
+export function ImportReviewDialog({ open, items, onConfirm, onCancel }: ImportReviewDialogProps) {
+  const [resolutions, setResolutions] = useState<ImportResolutions>(() => getDefaultResolutions(items));
+
+  const notFoundCount = items.filter((i) => i.status === 'not-found').length;
+  const convertedCount = items.length - notFoundCount;
+  const summary = [
+    notFoundCount > 0 && `${notFoundCount} not found`,
+    convertedCount > 0 && `${convertedCount} fuzzy matched`,
+  ].filter(Boolean).join(', ');
+
+  return (
+    <AlertDialog open={open}>
+      <AlertDialogContent className="!w-[95vw] !max-w-[900px] max-h-[90vh] flex flex-col overflow-hidden p-0">
+        <AlertDialogHeader className="px-4 pt-4 sm:px-6 sm:pt-6 flex-shrink-0">
+          <AlertDialogTitle>Review Imported Cards</AlertDialogTitle>
+          <AlertDialogDescription>
+            {`${summary}. Pick the right card for each line or drop it.`}
+          </AlertDialogDescription>
+        </AlertDialogHeader>
+
+        <div className="flex-1 overflow-y-auto divide-y border-t min-h-0">
+          {items.map((item) => (
+            <ReviewItemRow
+              key={item.id}
+              item={item}
+              selected={resolutions[item.id] ?? null}
+              onSelect={(card) => setResolutions((prev) => ({ ...prev, [item.id]: card }))}
+            />
+          ))}
+        </div>
+
+        <AlertDialogFooter className="px-4 pb-4 sm:px-6 sm:pb-6 flex-shrink-0 border-t pt-4">
+          <AlertDialogCancel onClick={onCancel}>Cancel Import</AlertDialogCancel>
+          <AlertDialogAction onClick={() => onConfirm(resolutions)}>
+            Continue Import
+          </AlertDialogAction>
+        </AlertDialogFooter>
+      </AlertDialogContent>
+    </AlertDialog>
+  );
+}
@@ -0,0 +1,426 @@
+'use client';
+
+import { useCallback, useEffect, useState } from 'react';
+import { AlertTriangle, Loader2, Check, X } from 'lucide-react';
+import { toast } from 'sonner';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { buildDeckData } from '@/hooks/useSaveDeck';
+import { cn } from '@/lib/utils';
+import type { Deck, ImportReviewItem, MoxfieldDeckSummary } from '@/types';
+import { applyImportReview, getDefaultResolutions } from './ImportReviewDialog';
+
+interface LinkedDeck extends MoxfieldDeckSummary {
+  alreadyImported: boolean;
+}
+
+type DeckImportStatus =
+  | { state: 'pending' }
+  | { state: 'importing' }
+  | { state: 'saving' }
+  // Decks saved with fuzzy matches or dropped lines need a look before they're trusted
+  | { state: 'done'; note?: string; needsReview?: boolean }
+  | { state: 'error'; message: string };
+
+interface MoxfieldAccountImportProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  // Called after a batch finishes with at least one saved deck
+  onImported: () => void;
+}
+
+function getToken() {
+  return localStorage.getItem('decktutor-token');
+}
+
+// Fetch, resolve and save one deck; throws with a user-facing message on failure
+async function importDeck(
+  summary: MoxfieldDeckSummary,
+  onStatus: (status: DeckImportStatus) => void
+): Promise<Extract<DeckImportStatus, { state: 'done' }>> {
+  onStatus({ state: 'importing' });
+  const importResponse = await fetch('/api/decks/import', {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({ url: summary.url }),
+  });
+  const imported = await importResponse.json();
+  if (!importResponse.ok) {
+    throw new Error(imported.message || 'Failed to import deck');
+  }
+
+  // Batch imports can't stop for review, so keep fuzzy matches and drop unknown cards
+  const review: ImportReviewItem[] = imported.review || [];
+  const deck: Deck = review.length > 0
+    ? applyImportReview(imported.deck, review, getDefaultResolutions(review))
+    : imported.deck;
+  const matched = review.filter((item) => item.match);
+  const dropped = review.length - matched.length;
+
+  onStatus({ state: 'saving' });
+  const saveResponse = await fetch('/api/user/decks', {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+      Authorization: `Bearer ${getToken()}`,
+    },
+    body: JSON.stringify({
+      name: deck.name,
+      description: deck.description,
+      format: deck.format,
+      moxfieldId: deck.moxfieldId,
+      commanderIds: deck.commanders.map((c) => c.id),
+      deckData: buildDeckData(deck),
+    }),
+  });
+  if (!saveResponse.ok) {
+    const data = await saveResponse.json().catch(() => ({}));
+    throw new Error(data.error || 'Failed to save deck');
+  }
+
+  const notes: string[] = [];
+  if (matched.length > 0) {
+    notes.push(
+      `${matched.length} card${matched.length === 1 ? '' : 's'} matched by name: ${matched.map((item) => `${item.name} → ${item.match?.name}`).join(', ')}`
+    );
+  }
+  if (dropped > 0) {
+    notes.push(`${dropped} card${dropped === 1 ? '' : 's'} not found`);
+  }
+
+  return { state: 'done', note: notes.join('; ') || undefined, needsReview: review.length > 0 };
+}
+
+function StatusLabel({ status }: { status?: DeckImportStatus }) {
+  if (!status) return null;
+
+  switch (status.state) {
+    case 'pending':
+      return <span className="text-xs text-muted-foreground">Queued</span>;
+    case 'importing':
+    case 'saving':
+      return (
+        <span className="flex items-center gap-1 text-xs text-muted-foreground">
+          <Loader2 className="h-3 w-3 animate-spin" />
+          {status.state === 'importing' ? 'Importing...' : 'Saving...'}
+        </span>
+      );
+    case 'done':
+      if (status.needsReview) {
+        return (
+          <span className="flex min-w-0 items-center gap-1 text-xs text-amber-600 dark:text-amber-500" title={status.note}>
+            <AlertTriangle className="h-3 w-3 flex-shrink-0" />
+            <span className="line-clamp-1">Saved, needs review ({status.note})</span>
+          </span>
+        );
+      }
+      return (
+        <span className="flex items-center gap-1 text-xs text-green-600">
+          <Check className="h-3 w-3" />
+          {status.note ? `Saved (${status.note})` : 'Saved'}
+        </span>
+      );
+    case 'error':
+      return (
+        <span className="flex items-center gap-1 text-xs text-destructive" title={status.message}>
+          <X className="h-3 w-3" />
+          <span className="line-clamp-1">{status.message}</span>
+        </span>
+      );
+  }
+}
+
+export function MoxfieldAccountImport({ open, onOpenChange, onImported }: MoxfieldAccountImportProps) {
+  const [username, setUsername] = useState<string | null>(null);
+  const [usernameInput, setUsernameInput] = useState('');
+  const [loadingAccount, setLoadingAccount] = useState(false);
+  const [linking, setLinking] = useState(false);
+  const [decks, setDecks] = useState<LinkedDeck[]>([]);
+  const [loadingDecks, setLoadingDecks] = useState(false);
+  const [selected, setSelected] = useState<Set<string>>(new Set());
+  const [statuses, setStatuses] = useState<Record<string, DeckImportStatus>>({});
+  const [running, setRunning] = useState(false);
+
+  const fetchDecks = useCallback(async () => {
+    setLoadingDecks(true);
+    try {
+      const response = await fetch('/api/user/moxfield/decks', {
+        headers: { Authorization: `Bearer ${getToken()}` },
+      });
+      const data = await response.json();
+      if (!response.ok) {
+        toast.error(data.message || 'Failed to load Moxfield decks');
+        return;
+      }
+      setDecks(data.decks);
+      setSelected(new Set(
+        data.decks.filter((d: LinkedDeck) => !d.alreadyImported).map((d: LinkedDeck) => d.id)
+      ));
+      setStatuses({});
+    } catch (error) {
+      console.error('Error fetching Moxfield decks:', error);
+      toast.error('Failed to load Moxfield decks');
+    } finally {
+      setLoadingDecks(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    if (!open) return;
+
+    const fetchAccount = async () => {
+      setLoadingAccount(true);
+      try {
+        const response = await fetch('/api/user/moxfield', {
+          headers: { Authorization: `Bearer ${getToken()}` },
+        });
+        if (response.ok) {
+          const data = await response.json();
+          setUsername(data.linked ? data.username : null);
+          if (data.linked) {
+            fetchDecks();
+          }
+        }
+      } catch (error) {
+        console.error('Error fetching Moxfield account:', error);
+      } finally {
+        setLoadingAccount(false);
+      }
+    };
+
+    fetchAccount();
+  }, [open, fetchDecks]);
+
+  const handleLink = async () => {
+    const name = usernameInput.trim();
+    if (!name) return;
+
+    setLinking(true);
+    try {
+      const response = await fetch('/api/user/moxfield', {
+        method: 'PUT',
+        headers: {
+          'Content-Type': 'application/json',
+          Authorization: `Bearer ${getToken()}`,
+        },
+        body: JSON.stringify({ username: name }),
+      });
+      const data = await response.json();
+      if (!response.ok) {
+        toast.error(data.message || 'Failed to link Moxfield account');
+        return;
+      }
+      setUsername(data.username);
+      setUsernameInput('');
+      toast.success(`Linked Moxfield account ${data.username}`);
+      fetchDecks();
+    } catch (error) {
+      console.error('Error linking Moxfield account:', error);
+      toast.error('Failed to link Moxfield account');
+    } finally {
+      setLinking(false);
+    }
+  };
+
+  const handleUnlink = async () => {
+    try {
+      const response = await fetch('/api/user/moxfield', {
+        method: 'DELETE',
+        headers: { Authorization: `Bearer ${getToken()}` },
+      });
+      if (response.ok) {
+        setUsername(null);
+        setDecks([]);
+        setSelected(new Set());
+        setStatuses({});
+      } else {
+        toast.error('Failed to unlink Moxfield account');
+      }
+    } catch (error) {
+      console.error('Error unlinking Moxfield account:', error);
+      toast.error('Failed to unlink Moxfield account');
+    }
+  };
+
+  const toggleDeck = (deckId: string) => {
+    setSelected((prev) => {
+      const next = new Set(prev);
+      if (next.has(deckId)) {
+        next.delete(deckId);
+      } else {
+        next.add(deckId);
+      }
+      return next;
+    });
+  };
+
+  const handleImport = async () => {
+    const queue = decks.filter((d) => selected.has(d.id));
+    if (queue.length === 0) return;
+
+    setRunning(true);
+    setStatuses(Object.fromEntries(queue.map((d) => [d.id, { state: 'pending' } as DeckImportStatus])));
+
+    const savedIds = new Set<string>();
+    let needsReview = 0;
+    // One at a time to stay within Moxfield and Scryfall rate limits
+    for (const deck of queue) {
+      const setStatus = (status: DeckImportStatus) =>
+        setStatuses((prev) => ({ ...prev, [deck.id]: status }));
+      try {
+        const done = await importDeck(deck, setStatus);
+        setStatus(done);
+        savedIds.add(deck.id);
+        if (done.needsReview) needsReview++;
+      } catch (error) {
+        setStatus({
+          state: 'error',
+          message: error instanceof Error ? error.message : 'Failed to import deck',
+        });
+      }
+    }
+
+    setRunning(false);
+    setDecks((prev) => prev.map((d) => (savedIds.has(d.id) ? { ...d, alreadyImported: true } : d)));
+    setSelected(new Set());
+
+    const saved = savedIds.size;
+    const failed = queue.length - saved;
+    const reviewNote = needsReview > 0
+      ? `${needsReview} deck${needsReview === 1 ? '' : 's'} had cards matched by name or dropped. See the list for details.`
+      : undefined;
+    if (failed === 0) {
+      toast.success(`Imported ${saved} deck${saved === 1 ? '' : 's'}`, { description: reviewNote });
+    } else {
+      toast.warning(`Imported ${saved} of ${queue.length} decks`, {
+        description: `${failed} failed. See the list for details.`,
+      });
+    }
+    if (saved > 0) {
+      onImported();
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={(next) => !running && onOpenChange(next)}>
+      <DialogContent className="!max-w-[640px] max-h-[85vh] flex flex-col">
+        <DialogHeader>
+          <DialogTitle>Import from Moxfield</DialogTitle>
+          <DialogDescription>
+            {username
+              ? `Pick public decks from ${username} to save to your collection.`
+              : 'Link your Moxfield username to import your public decks in one go.'}
+          </DialogDescription>
+        </DialogHeader>
+
+        {loadingAccount ? (
+          <div className="py-8 text-center text-sm text-muted-foreground">Loading...</div>
+        ) : !username ? (
+          <form
+            className="flex gap-2"
+            onSubmit={(e) => {
+              e.preventDefault();
+              handleLink();
+            }}
+          >
+            <Input
+              value={usernameInput}
+              onChange={(e) => setUsernameInput(e.target.value)}
+              placeholder="Moxfield username"
+              disabled={linking}
+            />
+            <Button type="submit" disabled={linking || !usernameInput.trim()}>
+              {linking ? 'Linking...' : 'Link Account'}
+            </Button>
+          </form>
+        ) : (
+          <>
+            <div className="flex items-center justify-between text-sm">
+              <span className="text-muted-foreground">
+                {loadingDecks
+                  ? 'Loading decks...'
+                  : `${selected.size} of ${decks.length} selected`}
+              </span>
+              <div className="flex gap-1">
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  disabled={running || loadingDecks}
+                  onClick={() => setSelected(new Set(decks.map((d) => d.id)))}
+                >
+                  All
+                </Button>
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  disabled={running || loadingDecks}
+                  onClick={() => setSelected(new Set())}
+                >
+                  None
+                </Button>
+                <Button variant="ghost" size="sm" disabled={running} onClick={handleUnlink}>
+                  Unlink
+                </Button>
+              </div>
+            </div>
+
+            <div className="flex-1 min-h-0 overflow-y-auto divide-y rounded-md border">
+              {!loadingDecks && decks.length === 0 && (
+                <p className="p-4 text-sm text-muted-foreground">No public decks found.</p>
+              )}
+              {decks.map((deck) => (
+                <label
+                  key={deck.id}
+                  className={cn(
+                    'flex items-center gap-3 px-3 py-2',
+                    running ? 'cursor-default' : 'cursor-pointer hover:bg-muted/50'
+                  )}
+                >
+                  <input
+                    type="checkbox"
+                    checked={selected.has(deck.id)}
+                    onChange={() => toggleDeck(deck.id)}
+                    disabled={running}
+                    className="h-4 w-4 flex-shrink-0 accent-primary"
+                  />
+                  <div className="flex-1 min-w-0">
+                    <p className="truncate text-sm font-medium">{deck.name}</p>
+                    <p className="text-xs text-muted-foreground">
+                      <span className="capitalize">{deck.format}</span>
+                      {` - ${deck.mainboardCount} cards`}
+                    </p>
+                  </div>
+                  {statuses[deck.id] ? (
+                    <StatusLabel status={statuses[deck.id]} />
+                  ) : deck.alreadyImported ? (
+                    <Badge variant="secondary">Imported</Badge>
+                  ) : null}
+                </label>
+              ))}
+            </div>
+          </>
+        )}
+
+        <DialogFooter>
+          <Button variant="outline" disabled={running} onClick={() => onOpenChange(false)}>
+            Close
+          </Button>
+          {username && (
+            <Button disabled={running || selected.size === 0} onClick={handleImport}>
+              {running ? 'Importing...' : `Import ${selected.size} Deck${selected.size === 1 ? '' : 's'}`}
+            </Button>
+          )}
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,134 @@
+'use client';
+
+import { useState } from 'react';
+import { RefreshCw } from 'lucide-react';
+import { toast } from 'sonner';
+import { Button } from '@/components/ui/button';
+import { useDeckStore } from '@/stores/deckStore';
+import { buildDeckData } from '@/hooks/useSaveDeck';
+import { DECK_SOURCE_NAMES } from '@/types';
+import {
+  DeckChangesDialog,
+  applyDeckChanges,
+  computeDeckChanges,
+  type DeckChanges,
+} from './DeckChangesDialog';
+
+function countChanges(changes: DeckChanges): number {
+  return changes.additions.length + changes.removals.length + changes.retagged.length;
+}
+
+export function PullFromSourceButton() {
+  const { currentDeck, savedDeckSnapshot, savedDeckId, setCurrentDeck, markDeckAsSaved } = useDeckStore();
+  const [isFetching, setIsFetching] = useState(false);
+  const [isSaving, setIsSaving] = useState(false);
+  const [upstreamChanges, setUpstreamChanges] = useState<DeckChanges | null>(null);
+
+  const sourceUrl = currentDeck?.sourceUrl || currentDeck?.moxfieldUrl;
+  if (!currentDeck || !savedDeckId || !sourceUrl) {
+    return null;
+  }
+
+  const sourceName = DECK_SOURCE_NAMES[currentDeck.source || 'moxfield'];
+
+  const handlePull = async () => {
+    // Pulled changes are saved straight away, so don't mix them with unsaved local edits
+    if (countChanges(computeDeckChanges(currentDeck, savedDeckSnapshot)) > 0) {
+      toast.error(`Save or undo your changes before pulling from ${sourceName}`);
+      return;
+    }
+
+    setIsFetching(true);
+    try {
+      const token = localStorage.getItem('decktutor-token');
+      const response = await fetch(`/api/user/decks/${savedDeckId}/sync`, {
+        headers: { Authorization: `Bearer ${token}` },
+      });
+      const data = await response.json();
+
+      if (!response.ok) {
+        toast.error(data.message || data.error || `Failed to fetch deck from ${sourceName}`);
+        return;
+      }
+
+      const changes = computeDeckChanges(data.upstreamDeck, currentDeck);
+      if (countChanges(changes) === 0) {
+        toast.info(`Already up to date with ${sourceName}`);
+        return;
+      }
+
+      if (data.warnings?.length > 0) {
+        toast.warning(data.warnings[0]);
+      }
+      setUpstreamChanges(changes);
+    } catch (error) {
+      console.error('Error pulling upstream deck:', error);
+      toast.error(`Failed to fetch deck from ${sourceName}`);
+    } finally {
+      setIsFetching(false);
+    }
+  };
+
+  const handleApply = async (selected: DeckChanges) => {
+    if (countChanges(selected) === 0) {
+      setUpstreamChanges(null);
+      return;
+    }
+
+    const updatedDeck = applyDeckChanges(currentDeck, selected);
+
+    setIsSaving(true);
+    try {
+      const token = localStorage.getItem('decktutor-token');
+      const response = await fetch(`/api/user/decks/${savedDeckId}/sync`, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          Authorization: `Bearer ${token}`,
+        },
+        body: JSON.stringify({
+          commanderIds: updatedDeck.commanders.map((c) => c.id),
+          deckData: buildDeckData(updatedDeck),
+        }),
+      });
+
+      if (!response.ok) {
+        const data = await response.json();
+        toast.error(data.error || 'Failed to save pulled changes');
+        return;
+      }
+
+      setCurrentDeck(updatedDeck);
+      markDeckAsSaved();
+      setUpstreamChanges(null);
+      toast.success(`Pulled ${countChanges(selected)} change${countChanges(selected) !== 1 ? 's' : ''} from ${sourceName}`);
+    } catch (error) {
+      console.error('Error saving pulled changes:', error);
+      toast.error('Failed to save pulled changes');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <>
+      <Button variant="outline" size="sm" onClick={handlePull} disabled={isFetching}>
+        <RefreshCw className={`mr-2 h-4 w-4 ${isFetching ? 'animate-spin' : ''}`} />
+        Pull from {sourceName}
+      </Button>
+
+      {upstreamChanges && (
+        <DeckChangesDialog
+          open
+          onOpenChange={(open) => !open && setUpstreamChanges(null)}
+          changes={upstreamChanges}
+          onConfirm={handleApply}
+          isLoading={isSaving}
+          selectable
+          title={`Changes on ${sourceName}`}
+          confirmLabel="Apply Selected"
+        />
+      )}
+    </>
+  );
+}
@@ -21,16 +21,19 @@ import {
   DropdownMenuTrigger,
 } from '@/components/ui/dropdown-menu';
 import { useDeckStore, type ViewMode, type SortBy, type GroupBy } from '@/stores/deckStore';
+import { DECK_SOURCE_NAMES, PRICE_KEYS, PRICE_OPTIONS } from '@/types';
 import { useAuth } from '@/context/AuthContext';
 import { SaveDeckButton } from '@/components/deck/SaveDeckButton';
 import { DeckChangesDialog } from '@/components/deck/DeckChangesDialog';
 import { useSaveDeck } from '@/hooks/useSaveDeck';
+import { usePricePreference } from '@/hooks/usePricePreference';
 
 export function Header() {
   const pathname = usePathname();
   const { currentDeck, viewMode, setViewMode, sortBy, setSortBy, groupBy, setGroupBy } = useDeckStore();
   const { theme, setTheme, resolvedTheme } = useTheme();
   const { user, loading: authLoading, signout } = useAuth();
+  const { priceKey, setPriceKey } = usePricePreference();
   const [showSettings, setShowSettings] = useState(false);
   const [mobileMenuOpen, setMobileMenuOpen] = useState(false);
   const [mounted, setMounted] = useState(false);
@@ -54,6 +57,8 @@ export function Header() {
 
   const isDeckPage = pathname?.startsWith('/deck/') && !pathname?.includes('/import');
   const showDeckActions = isDeckPage && currentDeck;
+  const deckSourceUrl = currentDeck?.sourceUrl || currentDeck?.moxfieldUrl;
+  const deckSourceName = DECK_SOURCE_NAMES[currentDeck?.source || 'moxfield'];
 
   const toggleTheme = () => {
     setTheme(resolvedTheme === 'dark' ? 'light' : 'dark');
@@ -85,10 +90,10 @@ export function Header() {
               <Button variant="outline" size="sm" asChild>
                 <Link href={`/deck/${currentDeck.id}/combos`}>Check Combos</Link>
               </Button>
-              {currentDeck.moxfieldUrl && (
+              {deckSourceUrl && (
                 <Button variant="outline" size="sm" asChild>
-                  <a href={currentDeck.moxfieldUrl} target="_blank" rel="noopener noreferrer">
-                    View on Moxfield
+                  <a href={deckSourceUrl} target="_blank" rel="noopener noreferrer">
+                    View on {deckSourceName}
                   </a>
                 </Button>
               )}
@@ -134,7 +139,7 @@ export function Header() {
                     <div className="space-y-2">
                       <label className="text-sm font-medium">Group By</label>
                       <div className="flex flex-wrap gap-2">
-                        {(['type', 'cmc', 'color', 'none'] as GroupBy[]).map((group) => (
+                        {(['type', 'cmc', 'color', 'category', 'none'] as GroupBy[]).map((group) => (
                           <Button
                             key={group}
                             variant={groupBy === group ? 'default' : 'outline'}
@@ -146,6 +151,21 @@ export function Header() {
                         ))}
                       </div>
                     </div>
+                    <div className="space-y-2">
+                      <label className="text-sm font-medium">Prices</label>
+                      <div className="flex flex-wrap gap-2">
+                        {PRICE_KEYS.map((key) => (
+                          <Button
+                            key={key}
+                            variant={priceKey === key ? 'default' : 'outline'}
+                            size="sm"
+                            onClick={() => setPriceKey(key)}
+                          >
+                            {PRICE_OPTIONS[key].label}
+                          </Button>
+                        ))}
+                      </div>
+                    </div>
                   </div>
                 </SheetContent>
               </Sheet>
@@ -329,15 +349,15 @@ export function Header() {
                       Check Combos
                     </Link>
                   </DropdownMenuItem>
-                  {currentDeck.moxfieldUrl && (
+                  {deckSourceUrl && (
                     <DropdownMenuItem asChild>
                       <a
-                        href={currentDeck.moxfieldUrl}
+                        href={deckSourceUrl}
                         target="_blank"
                         rel="noopener noreferrer"
                         onClick={() => setMobileMenuOpen(false)}
                       >
-                        View on Moxfield
+                        View on {deckSourceName}
                       </a>
                     </DropdownMenuItem>
                   )}
@@ -390,7 +410,7 @@ export function Header() {
                   <div className="space-y-2">
                     <label className="text-sm font-medium">Group By</label>
                     <div className="flex flex-wrap gap-2">
-                      {(['type', 'cmc', 'color', 'none'] as GroupBy[]).map((group) => (
+                      {(['type', 'cmc', 'color', 'category', 'none'] as GroupBy[]).map((group) => (
                         <Button
                           key={group}
                           variant={groupBy === group ? 'default' : 'outline'}
@@ -402,6 +422,21 @@ export function Header() {
                       ))}
                     </div>
                   </div>
+                  <div className="space-y-2">
+                    <label className="text-sm font-medium">Prices</label>
+                    <div className="flex flex-wrap gap-2">
+                      {PRICE_KEYS.map((key) => (
+                        <Button
+                          key={key}
+                          variant={priceKey === key ? 'default' : 'outline'}
+                          size="sm"
+                          onClick={() => setPriceKey(key)}
+                        >
+                          {PRICE_OPTIONS[key].label}
+                        </Button>
+                      ))}
+                    </div>
+                  </div>
                 </div>
               </SheetContent>
             </Sheet>
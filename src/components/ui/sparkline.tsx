@@ -0,0 +1,55 @@
+import { cn } from '@/lib/utils';
+
+interface SparklineProps {
+  values: number[];
+  width?: number;
+  height?: number;
+  fill?: boolean;
+  className?: string;
+}
+
+// Scale values into SVG coordinates, leaving room for the stroke
+function sparklinePoints(values: number[], width: number, height: number): Array<[number, number]> {
+  const min = Math.min(...values);
+  const max = Math.max(...values);
+  const range = max - min || 1;
+  const step = values.length > 1 ? width / (values.length - 1) : 0;
+
+  return values.map((value, i) => [i * step, height - 2 - ((value - min) / range) * (height - 4)]);
+}
+
+export function Sparkline({
+  values,
+  width = 120,
+  height = 32,
+  fill = false,
+  className,
+}: SparklineProps) {
+  if (values.length < 2) return null;
+
+  const points = sparklinePoints(values, width, height);
+  const line = points.map(([x, y]) => `${x.toFixed(1)},${y.toFixed(1)}`).join(' ');
+
+  return (
+    <svg
+      viewBox={`0 0 ${width} ${height}`}
+      width={width}
+      height={height}
+      preserveAspectRatio="none"
+      className={cn('overflow-visible text-primary', className)}
+      aria-hidden
+    >
+      {fill && (
+        <polygon points={`0,${height} ${line} ${width},${height}`} fill="currentColor" opacity={0.1} />
+      )}
+      <polyline
+        points={line}
+        fill="none"
+        stroke="currentColor"
+        strokeWidth={1.5}
+        strokeLinejoin="round"
+        vectorEffect="non-scaling-stroke"
+      />
+    </svg>
+  );
+}
@@ -0,0 +1,55 @@
+'use client';
+
+import { useCallback, useEffect } from 'react';
+import { useDeckStore } from '@/stores/deckStore';
+import { useAuth } from '@/context/AuthContext';
+import type { PriceKey } from '@/types';
+
+/**
+ * The price currency/finish preference. It lives in the deck store so it works
+ * signed out; signed-in users also get it saved to their account, and the
+ * saved value wins when they sign in on another device.
+ */
+export function usePricePreference() {
+  const { user } = useAuth();
+  const priceKey = useDeckStore((state) => state.priceKey);
+  const setStoredPriceKey = useDeckStore((state) => state.setPriceKey);
+  const userId = user?.id;
+
+  useEffect(() => {
+    const token = localStorage.getItem('decktutor-token');
+    if (!userId || !token) return;
+
+    let cancelled = false;
+    fetch('/api/user/preferences', { headers: { Authorization: `Bearer ${token}` } })
+      .then((response) => (response.ok ? response.json() : null))
+      .then((data: { preferences: { priceKey?: PriceKey } } | null) => {
+        if (!cancelled && data?.preferences.priceKey) {
+          setStoredPriceKey(data.preferences.priceKey);
+        }
+      })
+      .catch(() => {});
+
+    return () => {
+      cancelled = true;
+    };
+  }, [userId, setStoredPriceKey]);
+
+  const setPriceKey = useCallback(
+    (next: PriceKey) => {
+      setStoredPriceKey(next);
+
+      const token = localStorage.getItem('decktutor-token');
+      if (!userId || !token) return;
+
+      fetch('/api/user/preferences', {
+        method: 'PUT',
+        headers: { 'Content-Type': 'application/json', Authorization: `Bearer ${token}` },
+        body: JSON.stringify({ priceKey: next }),
+      }).catch((error) => console.error('Failed to save price preference:', error));
+    },
+    [userId, setStoredPriceKey]
+  );
+
+  return { priceKey, setPriceKey };
+}
@@ -4,6 +4,7 @@ import { useState, useMemo, useCallback } from 'react';
 import { useDeckStore } from '@/stores/deckStore';
 import { computeDeckChanges, type DeckChanges } from '@/components/deck/DeckChangesDialog';
 import { toast } from 'sonner';
+import type { Deck } from '@/types';
 
 export interface UseSaveDeckResult {
   // State
@@ -25,6 +26,19 @@ export interface UseSaveDeckResult {
   getButtonText: () => string;
 }
 
+// Store the full deck data as JSON for reliable retrieval
+export function buildDeckData(deck: Deck) {
+  return {
+    commanders: deck.commanders,
+    mainboard: deck.mainboard,
+    sideboard: deck.sideboard,
+    maybeboard: deck.maybeboard,
+    moxfieldUrl: deck.moxfieldUrl,
+    source: deck.source,
+    sourceUrl: deck.sourceUrl,
+  };
+}
+
 export function useSaveDeck(): UseSaveDeckResult {
   const {
     currentDeck,
@@ -43,7 +57,8 @@ export function useSaveDeck(): UseSaveDeckResult {
     return computeDeckChanges(currentDeck, savedDeckSnapshot);
   }, [currentDeck, savedDeckSnapshot]);
 
-  const hasChanges = changes.additions.length > 0 || changes.removals.length > 0;
+  const hasChanges =
+    changes.additions.length > 0 || changes.removals.length > 0 || changes.retagged.length > 0;
   const hasAdditions = changes.additions.length > 0;
   const hasRemovals = changes.removals.length > 0;
 
@@ -54,14 +69,7 @@ export function useSaveDeck(): UseSaveDeckResult {
     try {
       const token = localStorage.getItem('decktutor-token');
 
-      // Store the full deck data as JSON for reliable retrieval
-      const deckData = {
-        commanders: currentDeck.commanders,
-        mainboard: currentDeck.mainboard,
-        sideboard: currentDeck.sideboard,
-        maybeboard: currentDeck.maybeboard,
-        moxfieldUrl: currentDeck.moxfieldUrl,
-      };
+      const deckData = buildDeckData(currentDeck);
 
       const requestBody = {
         name: currentDeck.name,
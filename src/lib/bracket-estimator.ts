@@ -0,0 +1,143 @@
+import { COMMANDER_BRACKETS, type Card, type CommanderBracket, type Deck, type DeckCombo } from '@/types';
+
+export interface BracketSignal {
+  label: string;
+  cards: string[];
+  // The count can't be trusted, e.g. the card data predates the field
+  unavailable?: boolean;
+  note?: string;
+}
+
+export interface BracketEstimate {
+  bracket: CommanderBracket;
+  // Why the deck landed where it did
+  reasons: string[];
+  gameChangers: BracketSignal;
+  twoCardCombos: BracketSignal;
+  massLandDenial: BracketSignal;
+  extraTurns: BracketSignal;
+  tutors: BracketSignal;
+}
+
+const MASS_LAND_DENIAL_PATTERNS = [
+  /destroy all [^.]*\blands\b/i,
+  /each player sacrifices [^.]*\blands?\b/i,
+  /return all lands to their owners'? hands/i,
+  /players skip their untap steps/i,
+  /can't untap more than/i,
+  /nonbasic lands (?:are|don't untap)/i,
+];
+
+const EXTRA_TURN_PATTERN = /\btakes? (?:an|one|two|three|\w+) extra turns?\b/i;
+
+// Searches that only find lands are ramp, not tutors
+const TUTOR_PATTERN = /search(?:es)? (?:your|their) library for ([^.]*)/gi;
+const LAND_SEARCH_PATTERN = /\b(?:basic|lands?|plains|island|swamp|mountain|forest)\b/i;
+
+// Spellbook's results name infinite effects, and some combos simply win
+const INFINITE_RESULT_PATTERN = /\binfinite\b|win the game/i;
+
+function rulesText(card: Card): string {
+  return card.cardFaces?.map((face) => face.oracleText || '').join('\n') || card.oracleText || '';
+}
+
+function isTutor(card: Card): boolean {
+  const text = rulesText(card);
+  return [...text.matchAll(TUTOR_PATTERN)].some(([, target]) => !LAND_SEARCH_PATTERN.test(target));
+}
+
+function plural(count: number, noun: string): string {
+  return `${count} ${noun}${count === 1 ? '' : 's'}`;
+}
+
+/**
+ * Estimate a deck's Commander Bracket from the things the bracket guidelines
+ * restrict: Game Changers, two-card infinite combos, mass land denial, extra
+ * turns and tutors. Bracket 1 is about intent, so the floor is Core.
+ */
+export function estimateBracket(deck: Deck, combos: DeckCombo[] = []): BracketEstimate {
+  const cards = [...deck.commanders, ...deck.mainboard.map((dc) => dc.card)];
+  const names = (filter: (card: Card) => boolean) =>
+    [...new Set(cards.filter(filter).map((card) => card.name))].sort();
+
+  const gameChangers = names((card) => !!card.gameChanger);
+  // Scryfall sends the flag on every card, so a missing one means old card data
+  const unknownGameChangers = names((card) => card.gameChanger === undefined);
+  const gameChangersUnavailable = unknownGameChangers.length > 0 && unknownGameChangers.length === names(() => true).length;
+  const massLandDenial = names((card) => MASS_LAND_DENIAL_PATTERNS.some((pattern) => pattern.test(rulesText(card))));
+  const extraTurns = names((card) => EXTRA_TURN_PATTERN.test(rulesText(card)));
+  const tutors = names(isTutor);
+  const twoCardCombos = combos
+    .filter((dc) => dc.isComplete && dc.combo.cards.length === 2 && INFINITE_RESULT_PATTERN.test(dc.combo.result))
+    .map((dc) => dc.combo.cards.join(' + '));
+
+  let bracket: CommanderBracket = 2;
+  const reasons: string[] = [];
+  const raise = (to: CommanderBracket, reason: string) => {
+    if (to > bracket) bracket = to;
+    reasons.push(reason);
+  };
+
+  if (gameChangersUnavailable) {
+    reasons.push('Game Changer data is unavailable for these cards, so the estimate may be too low');
+  } else if (unknownGameChangers.length > 0) {
+    reasons.push(`No Game Changer data for ${plural(unknownGameChangers.length, 'card')}, so the estimate may be too low`);
+  }
+
+  if (gameChangers.length > 3) {
+    raise(4, `${plural(gameChangers.length, 'Game Changer')}; Upgraded allows at most 3`);
+  } else if (gameChangers.length > 0) {
+    raise(3, `${plural(gameChangers.length, 'Game Changer')}; Core allows none`);
+  }
+
+  if (massLandDenial.length > 0) {
+    raise(4, `${plural(massLandDenial.length, 'mass land denial card')}; only Optimized and above allow it`);
+  }
+
+  if (twoCardCombos.length > 0) {
+    // With a dense tutor package the combo can be assembled early
+    if (tutors.length >= 5) {
+      raise(4, `${plural(twoCardCombos.length, 'two-card infinite combo')} backed by ${plural(tutors.length, 'tutor')}`);
+    } else {
+      raise(3, `${plural(twoCardCombos.length, 'two-card infinite combo')}; Core allows none`);
+    }
+  }
+
+  if (extraTurns.length >= 3) {
+    raise(4, `${plural(extraTurns.length, 'extra-turn card')}, enough to chain turns`);
+  } else if (extraTurns.length > 0) {
+    reasons.push(`${plural(extraTurns.length, 'extra-turn card')}, fine as long as they aren't chained`);
+  }
+
+  if (tutors.length >= 3 && bracket < 3) {
+    raise(3, `${plural(tutors.length, 'tutor')}; Core expects them to be sparse`);
+  }
+
+  // cEDH lists stack every signal at once
+  if (gameChangers.length >= 8 && twoCardCombos.length >= 2 && tutors.length >= 8) {
+    raise(5, 'Many Game Changers, several two-card combos and a deep tutor package point to cEDH');
+  }
+
+  if (reasons.length === 0) {
+    reasons.push(`Nothing in the list goes beyond ${COMMANDER_BRACKETS[2].name}`);
+  }
+
+  return {
+    bracket,
+    reasons,
+    gameChangers: {
+      label: 'Game Changers',
+      cards: gameChangers,
+      unavailable: gameChangersUnavailable,
+      note: gameChangersUnavailable
+        ? 'Game Changer data unavailable'
+        : unknownGameChangers.length > 0
+          ? `Not known for ${plural(unknownGameChangers.length, 'card')}`
+          : undefined,
+    },
+    twoCardCombos: { label: 'Two-card infinite combos', cards: twoCardCombos },
+    massLandDenial: { label: 'Mass land denial', cards: massLandDenial },
+    extraTurns: { label: 'Extra turns', cards: extraTurns },
+    tutors: { label: 'Tutors', cards: tutors },
+  };
+}
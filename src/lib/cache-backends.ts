@@ -0,0 +1,139 @@
+import Redis from 'ioredis';
+
+/**
+ * Storage behind `lib/cache`. Values are already serialized, so backends only
+ * deal in strings and never hand out shared objects.
+ */
+export interface CacheBackend {
+  readonly name: 'redis' | 'memory';
+  get(key: string): Promise<string | null>;
+  getMany(keys: string[]): Promise<Array<string | null>>;
+  set(key: string, value: string, ttlSeconds: number): Promise<void>;
+  setMany(entries: Array<[key: string, value: string]>, ttlSeconds: number): Promise<void>;
+  delete(key: string): Promise<void>;
+  // Counters kept in a hash, without expiry
+  increment(key: string, counts: Record<string, number>): Promise<void>;
+  getCounts(key: string): Promise<Record<string, number>>;
+  ping(): Promise<boolean>;
+}
+
+// Supports Vercel KV, Upstash, or any Redis-compatible service
+export function createRedisBackend(redisUrl: string): CacheBackend {
+  const client = new Redis(redisUrl, {
+    maxRetriesPerRequest: 3,
+    lazyConnect: true,
+  });
+
+  client.on('error', (err) => {
+    console.error('Redis connection error:', err);
+  });
+
+  return {
+    name: 'redis',
+
+    get: (key) => client.get(key),
+
+    getMany: (keys) => (keys.length === 0 ? Promise.resolve([]) : client.mget(...keys)),
+
+    async set(key, value, ttlSeconds) {
+      await client.set(key, value, 'EX', ttlSeconds);
+    },
+
+    async setMany(entries, ttlSeconds) {
+      if (entries.length === 0) return;
+      const pipeline = client.pipeline();
+      for (const [key, value] of entries) {
+        pipeline.set(key, value, 'EX', ttlSeconds);
+      }
+      await pipeline.exec();
+    },
+
+    async delete(key) {
+      await client.del(key);
+    },
+
+    async increment(key, counts) {
+      const pipeline = client.pipeline();
+      for (const [field, count] of Object.entries(counts)) {
+        pipeline.hincrby(key, field, count);
+      }
+      await pipeline.exec();
+    },
+
+    async getCounts(key) {
+      const stored = await client.hgetall(key);
+      return Object.fromEntries(Object.entries(stored).map(([field, count]) => [field, Number(count)]));
+    },
+
+    async ping() {
+      await client.ping();
+      return true;
+    },
+  };
+}
+
+/**
+ * Bounded LRU for local development and self-hosted installs without Redis.
+ * A Map keeps insertion order, so re-inserting on read keeps the least
+ * recently used entry first in line for eviction.
+ */
+export function createMemoryBackend(maxEntries: number): CacheBackend {
+  const entries = new Map<string, { value: string; expiresAt: number }>();
+  const counters = new Map<string, Record<string, number>>();
+
+  const read = (key: string): string | null => {
+    const entry = entries.get(key);
+    if (!entry) return null;
+
+    entries.delete(key);
+    if (entry.expiresAt <= Date.now()) return null;
+
+    entries.set(key, entry);
+    return entry.value;
+  };
+
+  const write = (key: string, value: string, ttlSeconds: number) => {
+    entries.delete(key);
+    entries.set(key, { value, expiresAt: Date.now() + ttlSeconds * 1000 });
+
+    while (entries.size > maxEntries) {
+      const oldest = entries.keys().next().value;
+      if (oldest === undefined) break;
+      entries.delete(oldest);
+    }
+  };
+
+  return {
+    name: 'memory',
+
+    get: async (key) => read(key),
+
+    getMany: async (keys) => keys.map(read),
+
+    async set(key, value, ttlSeconds) {
+      write(key, value, ttlSeconds);
+    },
+
+    async setMany(items, ttlSeconds) {
+      for (const [key, value] of items) {
+        write(key, value, ttlSeconds);
+      }
+    },
+
+    async delete(key) {
+      entries.delete(key);
+    },
+
+    async increment(key, counts) {
+      const current = counters.get(key) ?? {};
+      for (const [field, count] of Object.entries(counts)) {
+        current[field] = (current[field] ?? 0) + count;
+      }
+      counters.set(key, current);
+    },
+
+    getCounts: async (key) => ({ ...counters.get(key) }),
+
+    ping: async () => true,
+  };
+}
@@ -1,48 +1,42 @@
-import Redis from 'ioredis';
+import { createMemoryBackend, createRedisBackend, type CacheBackend } from '@/lib/cache-backends';
 
-// Create Redis client from URL
-// Supports Vercel KV, Upstash, or any Redis-compatible service
-const getRedisClient = () => {
+// Upper bound on entries held by the in-memory fallback
+const MEMORY_CACHE_MAX_ENTRIES = Number(process.env.CACHE_MAX_ENTRIES) || 5000;
+
+// Redis when configured, otherwise an in-process LRU
+const getCacheBackend = (): CacheBackend => {
   const redisUrl = process.env.REDIS_URL || process.env.KV_URL;
 
   if (!redisUrl) {
-    console.warn('No REDIS_URL configured - caching disabled');
-    return null;
+    console.warn('No REDIS_URL configured - using in-memory cache');
+    return createMemoryBackend(MEMORY_CACHE_MAX_ENTRIES);
   }
 
   try {
-    const client = new Redis(redisUrl, {
-      maxRetriesPerRequest: 3,
-      lazyConnect: true,
-    });
-
-    client.on('error', (err) => {
-      console.error('Redis connection error:', err);
-    });
-
-    return client;
+    return createRedisBackend(redisUrl);
   } catch (error) {
-    console.error('Failed to create Redis client:', error);
-    return null;
+    console.error('Failed to create Redis client, using in-memory cache:', error);
+    return createMemoryBackend(MEMORY_CACHE_MAX_ENTRIES);
   }
 };
 
-const redis = getRedisClient();
+const backend = getCacheBackend();
 
 // Cache TTLs in seconds
 export const CACHE_TTL = {
   CARD_DATA: 24 * 60 * 60,      // 24 hours - card data rarely changes
   CARD_PRICES: 60 * 60,          // 1 hour - prices update frequently
   COMBO_DATA: 6 * 60 * 60,       // 6 hours - combos change occasionally
+  COMBO_LAST_KNOWN: 30 * 24 * 60 * 60, // 30 days - served when Commander Spellbook is down
   DECK_TEMP: 60 * 60,            // 1 hour - temporary deck storage
   AUTOCOMPLETE: 24 * 60 * 60,    // 24 hours - card names don't change
+  CARD_RULINGS: 7 * 24 * 60 * 60, // 7 days - rulings only change with new sets
+  CARD_STALE: 30 * 24 * 60 * 60, // 30 days - stale cards are still served while refreshing
 };
 
 export async function cacheGet<T>(key: string): Promise<T | null> {
-  if (!redis) return null;
-
   try {
-    const data = await redis.get(key);
+    const data = await backend.get(key);
     if (!data) return null;
     return JSON.parse(data) as T;
   } catch (error) {
@@ -56,20 +50,44 @@ export async function cacheSet<T>(
   value: T,
   ttlSeconds: number = CACHE_TTL.CARD_DATA
 ): Promise<void> {
-  if (!redis) return;
+  try {
+    await backend.set(key, JSON.stringify(value), ttlSeconds);
+  } catch (error) {
+    console.error('Cache set error:', error);
+  }
+}
+
+export async function cacheGetMany<T>(keys: string[]): Promise<Array<T | null>> {
+  if (keys.length === 0) return [];
 
   try {
-    await redis.set(key, JSON.stringify(value), 'EX', ttlSeconds);
+    const data = await backend.getMany(keys);
+    return data.map((item) => (item ? (JSON.parse(item) as T) : null));
+  } catch (error) {
+    console.error('Cache get error:', error);
+    return keys.map(() => null);
+  }
+}
+
+export async function cacheSetMany<T>(
+  entries: Array<[key: string, value: T]>,
+  ttlSeconds: number = CACHE_TTL.CARD_DATA
+): Promise<void> {
+  if (entries.length === 0) return;
+
+  try {
+    await backend.setMany(
+      entries.map(([key, value]) => [key, JSON.stringify(value)]),
+      ttlSeconds
+    );
   } catch (error) {
     console.error('Cache set error:', error);
   }
 }
 
 export async function cacheDelete(key: string): Promise<void> {
-  if (!redis) return;
-
   try {
-    await redis.del(key);
+    await backend.delete(key);
   } catch (error) {
     console.error('Cache delete error:', error);
   }
@@ -95,16 +113,28 @@ export async function cacheGetOrFetch<T>(
   return fresh;
 }
 
-// Health check for Redis connection
-export async function cacheHealthCheck(): Promise<boolean> {
-  if (!redis) return false;
+export async function cacheIncrement(key: string, counts: Record<string, number>): Promise<void> {
+  try {
+    await backend.increment(key, counts);
+  } catch (error) {
+    console.error('Cache increment error:', error);
+  }
+}
+
+export async function cacheGetCounts(key: string): Promise<Record<string, number>> {
+  try {
+    return await backend.getCounts(key);
+  } catch (error) {
+    console.error('Cache get error:', error);
+    return {};
+  }
+}
 
+// Health check for the active cache backend
+export async function cacheHealthCheck(): Promise<{ backend: CacheBackend['name']; healthy: boolean }> {
   try {
-    await redis.ping();
-    return true;
+    return { backend: backend.name, healthy: await backend.ping() };
   } catch {
-    return false;
+    return { backend: backend.name, healthy: false };
   }
 }
-
-export { redis };
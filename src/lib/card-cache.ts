@@ -0,0 +1,233 @@
+import type { Card } from '@/types';
+import { CACHE_TTL, cacheGetCounts, cacheGetMany, cacheIncrement, cacheSetMany } from '@/lib/cache';
+import {
+  findCardsById,
+  findCardsByName,
+  findCardsByPrinting,
+  saveCards,
+  type StoredCard,
+} from '@/lib/card-store';
+
+/**
+ * Two-tier cache in front of the Scryfall client: the shared cache (Redis or
+ * the in-memory fallback) first, then the `cards` table. Stale cards are
+ * returned straight away while a background refresh fetches them again.
+ */
+
+export interface CardIdentifier {
+  name?: string;
+  id?: string;
+  set?: string;
+  collector_number?: string;
+}
+
+type CacheOutcome = 'cache' | 'postgres' | 'miss';
+
+export interface CardCacheStats {
+  hits: { cache: number; postgres: number };
+  misses: number;
+  // Share of lookups answered by either tier, null before any lookups
+  hitRatio: number | null;
+}
+
+const STATS_KEY = 'scryfall:card-cache:stats';
+
+// Card ids with a background refresh in flight
+const refreshing = new Set<string>();
+
+function frontFace(name: string): string {
+  return name.split('//')[0].trim().toLowerCase();
+}
+
+function cardKey(id: string): string {
+  return `scryfall:card:${id}`;
+}
+
+function nameKey(name: string): string {
+  return `scryfall:card-name:${frontFace(name)}`;
+}
+
+function printingKey(set: string, collectorNumber: string): string {
+  return `scryfall:card-printing:${set.toLowerCase()}:${collectorNumber.toLowerCase()}`;
+}
+
+// Name and printing lookups go through a key that points at the card id
+function pointerKey(identifier: CardIdentifier): string | null {
+  if (identifier.set && identifier.collector_number) {
+    return printingKey(identifier.set, identifier.collector_number);
+  }
+  if (identifier.id) return null;
+  return identifier.name ? nameKey(identifier.name) : null;
+}
+
+/**
+ * Prices move daily while oracle text only changes with errata, so cards
+ * with a price go stale on the much shorter price TTL.
+ */
+function isStale(entry: StoredCard): boolean {
+  const ageSeconds = (Date.now() - entry.cachedAt) / 1000;
+  const hasPrice = Object.values(entry.card.prices ?? {}).some(Boolean);
+  return ageSeconds > (hasPrice ? CACHE_TTL.CARD_PRICES : CACHE_TTL.CARD_DATA);
+}
+
+async function readCache(identifiers: CardIdentifier[]): Promise<Array<StoredCard | null>> {
+  const pointers = identifiers.map(pointerKey);
+  const pointerLookups = [...new Set(pointers.filter((key): key is string => key !== null))];
+  const pointedIds = await cacheGetMany<string>(pointerLookups);
+  const idByPointer = new Map(pointerLookups.map((key, i) => [key, pointedIds[i]]));
+
+  const ids = identifiers.map((identifier, i) => {
+    const pointer = pointers[i];
+    return pointer ? idByPointer.get(pointer) ?? null : identifier.id ?? null;
+  });
+  const cardIds = [...new Set(ids.filter((id): id is string => id !== null))];
+  const entries = await cacheGetMany<StoredCard>(cardIds.map(cardKey));
+  const entryById = new Map(cardIds.map((id, i) => [id, entries[i]]));
+
+  return ids.map((id) => (id ? entryById.get(id) ?? null : null));
+}
+
+async function readPostgres(identifiers: CardIdentifier[]): Promise<Array<StoredCard | null>> {
+  const printings = identifiers.filter((id) => id.set && id.collector_number);
+  const ids = identifiers.filter((id) => !id.set && id.id);
+  const names = identifiers.filter((id) => !id.set && !id.id && id.name);
+
+  try {
+    const [byPrinting, byId, byName] = await Promise.all([
+      findCardsByPrinting(printings.map((id) => ({ setCode: id.set!, collectorNumber: id.collector_number! }))),
+      findCardsById(ids.map((id) => id.id!)),
+      findCardsByName(names.map((id) => id.name!)),
+    ]);
+
+    const printingCards = new Map(
+      (byPrinting ?? []).map((entry) => [printingKey(entry.card.setCode, entry.card.collectorNumber), entry])
+    );
+    const idCards = new Map((byId ?? []).map((entry) => [entry.card.id, entry]));
+
+    return identifiers.map((identifier) => {
+      if (identifier.set && identifier.collector_number) {
+        return printingCards.get(printingKey(identifier.set, identifier.collector_number)) ?? null;
+      }
+      if (identifier.id) return idCards.get(identifier.id) ?? null;
+      if (identifier.name) return byName?.get(identifier.name.trim().toLowerCase()) ?? null;
+      return null;
+    });
+  } catch (error) {
+    console.error('Card store lookup error:', error);
+    return identifiers.map(() => null);
+  }
+}
+
+// Name pointers are only written for names that were looked up, so fetching a
+// promo by printing or id doesn't become the answer for its name
+async function writeCache(entries: StoredCard[], identifiers: CardIdentifier[]): Promise<void> {
+  if (entries.length === 0) return;
+
+  const requested = new Set(identifiers.map(pointerKey));
+  const pointers: Array<[string, string]> = [];
+  for (const { card } of entries) {
+    pointers.push([printingKey(card.setCode, card.collectorNumber), card.id]);
+    if (requested.has(nameKey(card.name))) pointers.push([nameKey(card.name), card.id]);
+  }
+
+  // Entries outlive their TTLs so they can still be served while refreshing
+  await Promise.all([
+    cacheSetMany(entries.map((entry) => [cardKey(entry.card.id), entry]), CACHE_TTL.CARD_STALE),
+    cacheSetMany(pointers, CACHE_TTL.CARD_STALE),
+  ]);
+}
+
+function recordOutcomes(outcomes: CacheOutcome[]): void {
+  if (outcomes.length === 0) return;
+
+  const counts: Partial<Record<CacheOutcome, number>> = {};
+  for (const outcome of outcomes) {
+    counts[outcome] = (counts[outcome] ?? 0) + 1;
+  }
+  void cacheIncrement(STATS_KEY, counts);
+}
+
+function revalidate(ids: string[], refresh: (ids: string[]) => Promise<unknown>): void {
+  const pending = [...new Set(ids)].filter((id) => !refreshing.has(id));
+  if (pending.length === 0) return;
+
+  pending.forEach((id) => refreshing.add(id));
+  refresh(pending)
+    .catch((error) => console.error('Card refresh error:', error))
+    .finally(() => pending.forEach((id) => refreshing.delete(id)));
+}
+
+/**
+ * Look cards up in the cache, then Postgres. Stale hits are still returned and
+ * handed to `refresh`, which runs in the background and should fetch the
+ * cards again and pass them to `storeCards`.
+ */
+export async function getCachedCards(
+  identifiers: CardIdentifier[],
+  refresh: (ids: string[]) => Promise<unknown>
+): Promise<{ cards: Card[]; missing: CardIdentifier[] }> {
+  const fromCache = await readCache(identifiers);
+  const cacheMisses = identifiers.filter((_, i) => !fromCache[i]);
+  const fromPostgres = await readPostgres(cacheMisses);
+
+  // Promote Postgres hits, keeping their age so staleness carries over
+  const promoted = fromPostgres.filter((entry): entry is StoredCard => entry !== null);
+  writeCache(promoted, cacheMisses).catch((error) => console.error('Cache set error:', error));
+
+  const cards: Card[] = [];
+  const missing: CardIdentifier[] = [];
+  const stale: string[] = [];
+  const outcomes: CacheOutcome[] = [];
+
+  let postgresIndex = 0;
+  identifiers.forEach((identifier, i) => {
+    const cacheEntry = fromCache[i];
+    const entry = cacheEntry ?? fromPostgres[postgresIndex++];
+
+    if (!entry) {
+      missing.push(identifier);
+      outcomes.push('miss');
+      return;
+    }
+
+    cards.push(entry.card);
+    outcomes.push(cacheEntry ? 'cache' : 'postgres');
+    if (isStale(entry)) stale.push(entry.card.id);
+  });
+
+  recordOutcomes(outcomes);
+  revalidate(stale, refresh);
+
+  return { cards, missing };
+}
+
+// Write freshly fetched cards to both tiers, given the identifiers they were
+// fetched with. Never throws.
+export async function storeCards(cards: Card[], identifiers: CardIdentifier[] = []): Promise<void> {
+  if (cards.length === 0) return;
+
+  const cachedAt = Date.now();
+  await Promise.all([
+    writeCache(cards.map((card) => ({ card, cachedAt })), identifiers).catch((error) =>
+      console.error('Cache set error:', error)
+    ),
+    saveCards(cards).catch((error) => console.error('Card store write error:', error)),
+  ]);
+}
+
+// With Redis the totals cover every server instance, not just this one
+export async function getCardCacheStats(): Promise<CardCacheStats> {
+  const counts = await cacheGetCounts(STATS_KEY);
+  const cache = counts.cache ?? 0;
+  const postgres = counts.postgres ?? 0;
+  const misses = counts.miss ?? 0;
+
+  const hits = cache + postgres;
+  const total = hits + misses;
+
+  return {
+    hits: { cache, postgres },
+    misses,
+    hitRatio: total > 0 ? hits / total : null,
+  };
+}
@@ -0,0 +1,208 @@
+import type { DeckCombo, Synergy } from '@/types';
+
+export interface CardGraphNode {
+  name: string;
+  // Combos that stop working if this card is cut
+  comboCount: number;
+  synergyCount: number;
+  // Cutting it splits the cards it connects into separate groups
+  isCutPoint: boolean;
+}
+
+export interface CardGraphEdge {
+  // Node indexes
+  source: number;
+  target: number;
+  combos: number;
+  synergies: number;
+}
+
+export interface CardGraph {
+  nodes: CardGraphNode[];
+  edges: CardGraphEdge[];
+}
+
+export interface GraphPoint {
+  x: number;
+  y: number;
+}
+
+interface LayoutOptions {
+  width: number;
+  height: number;
+  iterations?: number;
+}
+
+const MAX_EDGE_LENGTH = 90;
+
+// Synergy groups can be large, so their links pull more gently than combo links
+const SYNERGY_EDGE_STRENGTH = 0.3;
+
+export function getNodeWeight(node: CardGraphNode): number {
+  return node.comboCount + node.synergyCount;
+}
+
+/**
+ * Deck cards linked by the combos and synergies they share. Every pair of
+ * cards in a combo or synergy gets an edge, counting how often they meet.
+ */
+export function buildCardGraph(combos: DeckCombo[], synergies: Synergy[], includeSynergies = true): CardGraph {
+  const nodes: CardGraphNode[] = [];
+  const indexByName = new Map<string, number>();
+  const edgesByPair = new Map<string, CardGraphEdge>();
+
+  const nodeIndex = (name: string): number => {
+    const key = name.toLowerCase();
+    let index = indexByName.get(key);
+    if (index === undefined) {
+      index = nodes.push({ name, comboCount: 0, synergyCount: 0, isCutPoint: false }) - 1;
+      indexByName.set(key, index);
+    }
+    return index;
+  };
+
+  const addGroup = (cards: string[], kind: 'combos' | 'synergies') => {
+    const members = [...new Set(cards.map(nodeIndex))];
+    for (const index of members) {
+      if (kind === 'combos') nodes[index].comboCount++;
+      else nodes[index].synergyCount++;
+    }
+
+    for (let i = 0; i < members.length; i++) {
+      for (let j = i + 1; j < members.length; j++) {
+        const [source, target] = members[i] < members[j] ? [members[i], members[j]] : [members[j], members[i]];
+        const key = `${source}:${target}`;
+        const edge = edgesByPair.get(key) ?? { source, target, combos: 0, synergies: 0 };
+        edge[kind]++;
+        edgesByPair.set(key, edge);
+      }
+    }
+  };
+
+  for (const deckCombo of combos) addGroup(deckCombo.combo.cards, 'combos');
+  if (includeSynergies) {
+    for (const synergy of synergies) addGroup(synergy.cards, 'synergies');
+  }
+
+  const edges = [...edgesByPair.values()];
+  for (const index of findCutPoints(nodes.length, edges)) {
+    nodes[index].isCutPoint = true;
+  }
+
+  return { nodes, edges };
+}
+
+// Articulation points (Tarjan): nodes whose removal disconnects their component
+function findCutPoints(nodeCount: number, edges: CardGraphEdge[]): Set<number> {
+  const neighbours: number[][] = Array.from({ length: nodeCount }, () => []);
+  for (const { source, target } of edges) {
+    neighbours[source].push(target);
+    neighbours[target].push(source);
+  }
+
+  const discovered = new Array<number>(nodeCount).fill(-1);
+  const low = new Array<number>(nodeCount).fill(0);
+  const cutPoints = new Set<number>();
+  let time = 0;
+
+  const visit = (node: number, parent: number) => {
+    discovered[node] = low[node] = time++;
+    let children = 0;
+
+    for (const next of neighbours[node]) {
+      if (discovered[next] === -1) {
+        children++;
+        visit(next, node);
+        low[node] = Math.min(low[node], low[next]);
+        if (parent !== -1 && low[next] >= discovered[node]) cutPoints.add(node);
+      } else if (next !== parent) {
+        low[node] = Math.min(low[node], discovered[next]);
+      }
+    }
+
+    if (parent === -1 && children > 1) cutPoints.add(node);
+  };
+
+  for (let node = 0; node < nodeCount; node++) {
+    if (discovered[node] === -1) visit(node, -1);
+  }
+
+  return cutPoints;
+}
+
+/**
+ * Force-directed positions (Fruchterman-Reingold) inside the given box. The
+ * start is a circle ordered by weight, so the same graph always lays out the
+ * same way.
+ */
+export function layoutCardGraph(graph: CardGraph, { width, height, iterations = 250 }: LayoutOptions): GraphPoint[] {
+  const { nodes, edges } = graph;
+  const count = nodes.length;
+  if (count === 0) return [];
+
+  const padding = 30;
+  const centerX = width / 2;
+  const centerY = height / 2;
+  // Ideal edge length, capped so small graphs stay together in the middle
+  const k = Math.min(Math.sqrt(((width - padding * 2) * (height - padding * 2)) / count), MAX_EDGE_LENGTH);
+
+  const order = nodes.map((_, i) => i).sort((a, b) => getNodeWeight(nodes[b]) - getNodeWeight(nodes[a]));
+  const positions: GraphPoint[] = new Array(count);
+  order.forEach((index, i) => {
+    const angle = (2 * Math.PI * i) / count;
+    const radius = (Math.min(width, height) / 2 - padding) * (i === 0 && count > 1 ? 0 : 0.3 + 0.6 * (i / count));
+    positions[index] = { x: centerX + radius * Math.cos(angle), y: centerY + radius * Math.sin(angle) };
+  });
+
+  let temperature = width / 10;
+  const cooling = temperature / (iterations + 1);
+
+  for (let step = 0; step < iterations; step++) {
+    const dx = new Array<number>(count).fill(0);
+    const dy = new Array<number>(count).fill(0);
+
+    for (let i = 0; i < count; i++) {
+      for (let j = i + 1; j < count; j++) {
+        const x = positions[i].x - positions[j].x;
+        const y = positions[i].y - positions[j].y;
+        const distance = Math.max(Math.hypot(x, y), 0.01);
+        // Far-apart groups stop pushing each other, so gravity can hold them in
+        if (distance > k * 4) continue;
+        const force = (k * k) / distance;
+        dx[i] += (x / distance) * force;
+        dy[i] += (y / distance) * force;
+        dx[j] -= (x / distance) * force;
+        dy[j] -= (y / distance) * force;
+      }
+    }
+
+    for (const edge of edges) {
+      const x = positions[edge.source].x - positions[edge.target].x;
+      const y = positions[edge.source].y - positions[edge.target].y;
+      const distance = Math.max(Math.hypot(x, y), 0.01);
+      const strength = edge.combos > 0 ? 1 : SYNERGY_EDGE_STRENGTH;
+      const force = ((distance * distance) / k) * strength;
+      dx[edge.source] -= (x / distance) * force;
+      dy[edge.source] -= (y / distance) * force;
+      dx[edge.target] += (x / distance) * force;
+      dy[edge.target] += (y / distance) * force;
+    }
+
+    for (let i = 0; i < count; i++) {
+      // A little gravity keeps unconnected groups from drifting to the edges
+      dx[i] += (centerX - positions[i].x) * 0.05;
+      dy[i] += (centerY - positions[i].y) * 0.05;
+
+      const length = Math.max(Math.hypot(dx[i], dy[i]), 0.01);
+      const move = Math.min(length, temperature);
+      positions[i] = {
+        x: Math.min(width - padding, Math.max(padding, positions[i].x + (dx[i] / length) * move)),
+        y: Math.min(height - padding, Math.max(padding, positions[i].y + (dy[i] / length) * move)),
+      };
+    }
+
+    temperature -= cooling;
+  }
+
+  return positions;
+}
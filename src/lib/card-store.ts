@@ -0,0 +1,290 @@
+import { and, eq, ilike, inArray, or, sql } from 'drizzle-orm';
+import type { Card } from '@/types';
+
+/**
+ * Local copy of Scryfall card data. The table doubles as the second cache
+ * tier for API lookups, and once `npm run cards:ingest` has loaded a bulk
+ * file it can also answer searches and autocomplete on its own. Every
+ * lookup returns null when the database is unavailable so callers can fall
+ * back to the live API.
+ */
+
+// Re-check for a bulk ingest occasionally, e.g. after one has run
+const READY_CHECK_TTL_MS = 5 * 60 * 1000;
+
+type Database = typeof import('@/lib/db');
+
+export interface StoredCard {
+  card: Card;
+  // When the row was last written from Scryfall, in ms
+  cachedAt: number;
+}
+
+let dbModule: Promise<Database> | null = null;
+let bulkCheck: { loaded: boolean; checkedAt: number } | null = null;
+
+async function getDatabase(): Promise<Database | null> {
+  if (!process.env.DATABASE_URL) return null;
+
+  try {
+    dbModule ??= import('@/lib/db');
+    return await dbModule;
+  } catch (error) {
+    console.error('Card store unavailable:', error);
+    return null;
+  }
+}
+
+/**
+ * Whether a bulk file has been ingested. Without one the table only holds
+ * cards that happened to be looked up, which isn't enough to search.
+ */
+export async function isCardStoreLoaded(): Promise<boolean> {
+  const store = await getDatabase();
+  if (!store) return false;
+
+  if (!bulkCheck || (!bulkCheck.loaded && Date.now() - bulkCheck.checkedAt > READY_CHECK_TTL_MS)) {
+    try {
+      const [row] = await store.db
+        .select({ id: store.cards.id })
+        .from(store.cards)
+        .where(eq(store.cards.fromBulkData, true))
+        .limit(1);
+      bulkCheck = { loaded: !!row, checkedAt: Date.now() };
+    } catch (error) {
+      console.error('Card store unavailable:', error);
+      bulkCheck = { loaded: false, checkedAt: Date.now() };
+    }
+  }
+
+  return bulkCheck.loaded;
+}
+
+async function getLoadedStore(): Promise<Database | null> {
+  return (await isCardStoreLoaded()) ? getDatabase() : null;
+}
+
+type CardRow = Database['cards']['$inferSelect'];
+
+function toCard(row: CardRow): Card {
+  return {
+    id: row.id,
+    oracleId: row.oracleId,
+    name: row.name,
+    manaCost: row.manaCost ?? undefined,
+    cmc: Number(row.cmc ?? 0),
+    typeLine: row.typeLine ?? '',
+    oracleText: row.oracleText ?? undefined,
+    colors: row.colors ?? [],
+    colorIdentity: row.colorIdentity ?? [],
+    keywords: row.keywords ?? [],
+    legalities: row.legalities ?? {},
+    imageUris: {
+      small: row.imageUris?.small || '',
+      normal: row.imageUris?.normal || '',
+      large: row.imageUris?.large || '',
+      artCrop: row.imageUris?.artCrop || '',
+    },
+    cardFaces: row.cardFaces ?? undefined,
+    prices: row.prices ?? undefined,
+    rarity: row.rarity ?? '',
+    setCode: row.setCode ?? '',
+    setName: row.setName ?? '',
+    collectorNumber: row.collectorNumber ?? '',
+    scryfallUri: row.scryfallUri ?? '',
+    edhrecRank: row.edhrecRank ?? undefined,
+    gameChanger: row.gameChanger ?? undefined,
+    layout: row.layout ?? '',
+  };
+}
+
+function toStoredCard(row: CardRow): StoredCard {
+  return { card: toCard(row), cachedAt: row.cachedAt?.getTime() ?? 0 };
+}
+
+// Double-faced and split cards are stored under their full "Front // Back" name
+function frontFace(name: string): string {
+  return name.split('//')[0].trim().toLowerCase();
+}
+
+/**
+ * Cards by name, keyed by the lowercased name as given. When a name has
+ * several printings the most recent one wins, like Scryfall's named lookup.
+ */
+export async function findCardsByName(names: string[]): Promise<Map<string, StoredCard> | null> {
+  const store = await getDatabase();
+  if (!store) return null;
+
+  const { db, cards } = store;
+  const wanted = [...new Set(names.map((name) => name.trim().toLowerCase()))];
+  const found = new Map<string, StoredCard>();
+  if (wanted.length === 0) return found;
+
+  const faceName = sql<string>`lower(split_part(${cards.name}, ' // ', 1))`;
+  const rows = await db
+    .selectDistinctOn([faceName])
+    .from(cards)
+    .where(inArray(faceName, [...new Set(wanted.map(frontFace))]))
+    .orderBy(faceName, sql`${cards.releasedAt} desc nulls last`);
+
+  const byFace = new Map(rows.map((row) => [frontFace(row.name), toStoredCard(row)]));
+  for (const name of wanted) {
+    const card = byFace.get(frontFace(name));
+    if (card) found.set(name, card);
+  }
+
+  return found;
+}
+
+export async function findCardsById(ids: string[]): Promise<StoredCard[] | null> {
+  const store = await getDatabase();
+  if (!store) return null;
+  if (ids.length === 0) return [];
+
+  const { db, cards } = store;
+  const rows = await db.select().from(cards).where(inArray(cards.id, ids));
+  return rows.map(toStoredCard);
+}
+
+export async function findCardsByPrinting(
+  printings: Array<{ setCode: string; collectorNumber: string }>
+): Promise<StoredCard[] | null> {
+  const store = await getDatabase();
+  if (!store) return null;
+  if (printings.length === 0) return [];
+
+  const { db, cards } = store;
+  const rows = await db
+    .select()
+    .from(cards)
+    .where(or(...printings.map((p) => and(
+      eq(sql`lower(${cards.setCode})`, p.setCode.toLowerCase()),
+      eq(cards.collectorNumber, p.collectorNumber)
+    ))));
+
+  return rows.map(toStoredCard);
+}
+
+export async function autocompleteCardNames(query: string, limit = 20): Promise<string[] | null> {
+  const store = await getLoadedStore();
+  if (!store) return null;
+
+  const { db, cards } = store;
+  const pattern = `%${query.replace(/[%_\\]/g, '\\$&')}%`;
+  const rows = await db
+    .selectDistinct({ name: cards.name })
+    .from(cards)
+    .where(ilike(cards.name, pattern))
+    .limit(limit * 5);
+
+  // Names starting with the query first, then shortest, like Scryfall
+  const lower = query.toLowerCase();
+  return rows
+    .map((row) => row.name)
+    .sort((a, b) => {
+      const aPrefix = a.toLowerCase().startsWith(lower) ? 0 : 1;
+      const bPrefix = b.toLowerCase().startsWith(lower) ? 0 : 1;
+      return aPrefix - bPrefix || a.length - b.length || a.localeCompare(b);
+    })
+    .slice(0, limit);
+}
+
+// Scryfall search syntax (t:creature, cmc>3, ...) can only be answered by the API
+export function isPlainNameQuery(query: string): boolean {
+  return !/[:=<>!()"]/.test(query) && !/\b(or|and)\b/i.test(query) && !/(^|\s)-\S/.test(query);
+}
+
+/**
+ * Name search for plain-text queries. Returns null for Scryfall syntax so the
+ * caller can ask the API instead.
+ */
+export async function searchCardsByName(query: string, limit = 20): Promise<Card[] | null> {
+  if (!isPlainNameQuery(query)) return null;
+
+  const store = await getLoadedStore();
+  if (!store) return null;
+
+  const { db, cards } = store;
+  const words = query.trim().split(/\s+/).filter(Boolean);
+  if (words.length === 0) return [];
+
+  const rows = await db
+    .selectDistinctOn([cards.oracleId])
+    .from(cards)
+    .where(and(...words.map((word) => ilike(cards.name, `%${word.replace(/[%_\\]/g, '\\$&')}%`))))
+    .orderBy(cards.oracleId, sql`${cards.releasedAt} desc nulls last`)
+    .limit(limit * 5);
+
+  return rows
+    .map(toCard)
+    .sort((a, b) => (a.edhrecRank ?? Infinity) - (b.edhrecRank ?? Infinity) || a.name.localeCompare(b.name))
+    .slice(0, limit);
+}
+
+/**
+ * Write cards fetched from the API, refreshing their cache time. Rows from a
+ * bulk ingest keep their release date, which the API card doesn't carry.
+ */
+export async function saveCards(cardList: Card[]): Promise<void> {
+  const store = await getDatabase();
+  if (!store || cardList.length === 0) return;
+
+  const { db, cards } = store;
+  const unique = [...new Map(cardList.map((card) => [card.id, card])).values()];
+  const rows = unique.map((card) => ({
+    id: card.id,
+    oracleId: card.oracleId,
+    name: card.name,
+    manaCost: card.manaCost ?? null,
+    cmc: String(card.cmc),
+    typeLine: card.typeLine,
+    oracleText: card.oracleText ?? null,
+    colors: card.colors,
+    colorIdentity: card.colorIdentity,
+    keywords: card.keywords,
+    legalities: card.legalities,
+    imageUris: card.imageUris,
+    prices: card.prices ?? null,
+    scryfallUri: card.scryfallUri,
+    edhrecRank: card.edhrecRank ?? null,
+    gameChanger: card.gameChanger ?? null,
+    setCode: card.setCode,
+    setName: card.setName,
+    collectorNumber: card.collectorNumber,
+    rarity: card.rarity,
+    layout: card.layout,
+    cardFaces: card.cardFaces ?? null,
+  }));
+
+  const excluded = (column: { name: string }) => sql.raw(`excluded.${column.name}`);
+  await db
+    .insert(cards)
+    .values(rows)
+    .onConflictDoUpdate({
+      target: cards.id,
+      set: {
+        oracleId: excluded(cards.oracleId),
+        name: excluded(cards.name),
+        manaCost: excluded(cards.manaCost),
+        cmc: excluded(cards.cmc),
+        typeLine: excluded(cards.typeLine),
+        oracleText: excluded(cards.oracleText),
+        colors: excluded(cards.colors),
+        colorIdentity: excluded(cards.colorIdentity),
+        keywords: excluded(cards.keywords),
+        legalities: excluded(cards.legalities),
+        imageUris: excluded(cards.imageUris),
+        prices: excluded(cards.prices),
+        scryfallUri: excluded(cards.scryfallUri),
+        edhrecRank: excluded(cards.edhrecRank),
+        gameChanger: excluded(cards.gameChanger),
+        setCode: excluded(cards.setCode),
+        setName: excluded(cards.setName),
+        collectorNumber: excluded(cards.collectorNumber),
+        rarity: excluded(cards.rarity),
+        layout: excluded(cards.layout),
+        cardFaces: excluded(cards.cardFaces),
+        cachedAt: sql`now()`,
+      },
+    });
+}
@@ -0,0 +1,107 @@
+import type { DeckCard, SourceDeck, SourceDeckCard } from '@/types';
+
+const ARCHIDEKT_API = 'https://archidekt.com/api';
+
+// Archidekt stores formats as numeric IDs
+const ARCHIDEKT_FORMATS: Record<number, string> = {
+  1: 'standard',
+  2: 'modern',
+  3: 'commander',
+  4: 'legacy',
+  5: 'vintage',
+  6: 'pauper',
+};
+
+export class ArchidektError extends Error {
+  constructor(
+    message: string,
+    public status: number
+  ) {
+    super(message);
+    this.name = 'ArchidektError';
+  }
+}
+
+interface ArchidektCategory {
+  name: string;
+  includedInDeck: boolean;
+}
+
+interface ArchidektCard {
+  quantity: number;
+  categories: string[] | null;
+  card: {
+    uid: string;
+    oracleCard: {
+      name: string;
+    };
+  };
+}
+
+export function extractArchidektDeckId(url: string): string | null {
+  // https://archidekt.com/decks/123456/deck-name
+  // https://www.archidekt.com/decks/123456
+  const match = url.match(/archidekt\.com\/decks\/(\d+)/);
+  return match ? match[1] : null;
+}
+
+export async function getArchidektDeck(deckId: string): Promise<SourceDeck> {
+  const response = await fetch(`${ARCHIDEKT_API}/decks/${deckId}/`, {
+    headers: {
+      'Accept': 'application/json',
+      'User-Agent': 'DeckTutor/1.0',
+    },
+    cache: 'no-store',
+  });
+
+  if (!response.ok) {
+    if (response.status === 404) {
+      throw new ArchidektError('Deck not found. Make sure the deck is public.', 404);
+    }
+    throw new ArchidektError(`Archidekt API error: ${response.status}`, response.status);
+  }
+
+  const data = await response.json();
+
+  // Categories flagged as not included in the deck are the side/maybe boards
+  const excludedCategories = new Set<string>(
+    (data.categories || [])
+      .filter((c: ArchidektCategory) => !c.includedInDeck)
+      .map((c: ArchidektCategory) => c.name.toLowerCase())
+  );
+
+  // Categories that only say which board a card is on aren't tags
+  const isBoardCategory = (category: string) => {
+    const lower = category.toLowerCase();
+    return lower === 'commander' || lower === 'sideboard' || excludedCategories.has(lower);
+  };
+
+  const getBoard = (categories: string[]): DeckCard['board'] => {
+    const lower = categories.map((c) => c.toLowerCase());
+    if (lower.includes('commander')) return 'commanders';
+    if (lower.includes('sideboard')) return 'sideboard';
+    if (lower.some((c) => excludedCategories.has(c))) return 'maybeboard';
+    return 'mainboard';
+  };
+
+  const cards: SourceDeckCard[] = (data.cards || []).map((entry: ArchidektCard) => {
+    const tags = (entry.categories || []).filter((c) => !isBoardCategory(c));
+    return {
+      name: entry.card.oracleCard.name,
+      quantity: entry.quantity,
+      board: getBoard(entry.categories || []),
+      scryfallId: entry.card.uid,
+      ...(tags.length > 0 && { categories: tags }),
+    };
+  });
+
+  return {
+    source: 'archidekt',
+    id: String(data.id),
+    name: data.name,
+    description: data.description || '',
+    format: ARCHIDEKT_FORMATS[data.deckFormat] || 'commander',
+    url: `https://archidekt.com/decks/${data.id}`,
+    cards,
+  };
+}
@@ -1,6 +1,23 @@
-import type { ComboCheckRequest, ComboCheckResponse, DeckCombo, PotentialCombo, Combo } from '@/types';
+import { createHash } from 'node:crypto';
+import { CACHE_TTL, cacheGet, cacheGetOrFetch, cacheSet } from '@/lib/cache';
+import {
+  getComboCommanders,
+  getComboFingerprint,
+  getComboFingerprintInput,
+  COMBO_ZONE_LABELS,
+  type ComboCardRequirement,
+  type ComboCategory,
+  type ComboCheckRequest,
+  type ComboZone,
+  type ComboCheckResponse,
+  type DeckCombo,
+  type PotentialCombo,
+  type Combo,
+} from '@/types';
 
 const COMMANDER_SPELLBOOK_API = 'https://backend.commanderspellbook.com';
+// Per near-miss category; the combos page ranks them, so keep enough to choose from
+const MAX_POTENTIAL_COMBOS = 100;
 
 export class ComboServiceError extends Error {
   constructor(
@@ -12,9 +29,36 @@ export class ComboServiceError extends Error {
   }
 }
 
-interface SpellbookCard {
+// Zone codes Spellbook uses in zoneLocations
+const SPELLBOOK_ZONES: Record<string, ComboZone> = {
+  B: 'battlefield',
+  H: 'hand',
+  G: 'graveyard',
+  E: 'exile',
+  L: 'library',
+  C: 'command',
+};
+
+// Where a card or template has to be, with an optional state per zone
+interface SpellbookZoneRequirement {
+  zoneLocations?: string[];
+  battlefieldCardState?: string;
+  exileCardState?: string;
+  libraryCardState?: string;
+  graveyardCardState?: string;
+  mustBeCommander?: boolean;
+}
+
+interface SpellbookCard extends SpellbookZoneRequirement {
   card: {
     name: string;
+    oracleId?: string | null;
+  };
+}
+
+interface SpellbookTemplate extends SpellbookZoneRequirement {
+  template: {
+    name: string;
   };
 }
 
@@ -27,12 +71,98 @@ interface SpellbookFeature {
 interface SpellbookCombo {
   id: string;
   uses: SpellbookCard[];
+  requires?: SpellbookTemplate[];
   produces: SpellbookFeature[];
+  manaNeeded?: string;
+  easyPrerequisites?: string;
+  notablePrerequisites?: string;
   otherPrerequisites?: string;
   description?: string;
   identity?: string;
 }
 
+function toZones(requirement: SpellbookZoneRequirement): ComboZone[] {
+  return (requirement.zoneLocations || []).flatMap((code) => SPELLBOOK_ZONES[code] ?? []);
+}
+
+function toCardState(requirement: SpellbookZoneRequirement): string | undefined {
+  const states = [
+    requirement.battlefieldCardState,
+    requirement.graveyardCardState,
+    requirement.exileCardState,
+    requirement.libraryCardState,
+  ].filter((state): state is string => !!state?.trim());
+  return states.length > 0 ? states.join('; ') : undefined;
+}
+
+function splitLines(text?: string): string[] {
+  return text ? text.split('\n').map((line) => line.trim()).filter(Boolean) : [];
+}
+
+// Template pieces ("A creature with power 3 or greater") read as setup instructions
+function describeTemplate(requirement: SpellbookTemplate): string {
+  const zones = toZones(requirement).map((zone) => COMBO_ZONE_LABELS[zone].toLowerCase());
+  const state = toCardState(requirement);
+  return [requirement.template.name, zones.join(' or '), state].filter(Boolean).join(', ');
+}
+
+// Null when fewer than two real cards are involved
+function toCombo(comboData: SpellbookCombo): Combo | null {
+  const comboId = String(comboData.id);
+
+  // Get card names from the combo
+  const uses = (comboData.uses || []).filter(u => !!u.card?.name);
+  const comboCards = uses.map(u => u.card.name);
+  const cardOracleIds = uses.map(u => u.card.oracleId || null);
+  const requirements: ComboCardRequirement[] = uses.map(u => ({
+    name: u.card.name,
+    zones: toZones(u),
+    state: toCardState(u),
+    mustBeCommander: u.mustBeCommander || undefined,
+  }));
+
+  if (comboCards.length < 2) return null;
+
+  // Get combo result/effect
+  const produces = (comboData.produces || [])
+    .map(p => p.feature?.name)
+    .filter((name): name is string => !!name);
+  const result = produces.length > 0 ? produces.join(', ') : 'Combo effect';
+
+  // Get steps
+  const steps = splitLines(comboData.description);
+
+  const prerequisites = [
+    ...(comboData.requires || []).filter(r => !!r.template?.name).map(describeTemplate),
+    ...splitLines(comboData.easyPrerequisites),
+    ...splitLines(comboData.notablePrerequisites),
+    ...splitLines(comboData.otherPrerequisites),
+  ];
+
+  // Get color identity
+  const colorIdentity = comboData.identity
+    ? comboData.identity.toUpperCase().split('')
+    : [];
+
+  const sourceUrl = `https://commanderspellbook.com/combo/${comboId}`;
+
+  return {
+    id: comboId,
+    cards: comboCards,
+    description: result,
+    prerequisite: prerequisites.length > 0 ? prerequisites.join('\n') : undefined,
+    steps,
+    result,
+    colorIdentity,
+    sourceUrl,
+    cardOracleIds,
+    requirements,
+    prerequisites,
+    manaNeeded: comboData.manaNeeded || undefined,
+    produces,
+  };
+}
+
 interface SpellbookResults {
   included: SpellbookCombo[];
   includedByChangingCommanders: SpellbookCombo[];
@@ -40,22 +170,27 @@ interface SpellbookResults {
   almostIncludedByAddingColors: SpellbookCombo[];
 }
 
+type DeckComboCategory = Extract<ComboCategory, 'complete' | 'different-commander'>;
+type PotentialComboCategory = Exclude<ComboCategory, DeckComboCategory>;
+
 interface SpellbookResponse {
   count: number;
   results: SpellbookResults;
 }
 
-export async function checkCombos(request: ComboCheckRequest): Promise<ComboCheckResponse> {
+async function fetchCombos(request: ComboCheckRequest): Promise<ComboCheckResponse> {
   const startTime = Date.now();
   const deckCardsLower = new Set(request.cards.map(c => c.toLowerCase()));
 
-  const foundCombos: Map<string, DeckCombo> = new Map();
-  const potentialCombos: Map<string, PotentialCombo> = new Map();
+  // Keyed by combo id; a combo is only reported in the first category it appears in
+  const seen = new Set<string>();
+  const deckCombos: Record<DeckComboCategory, DeckCombo[]> = { complete: [], 'different-commander': [] };
+  const potentialCombos: Record<PotentialComboCategory, PotentialCombo[]> = { 'one-card-away': [], 'extra-colors': [] };
 
   try {
     // API expects: { commanders: [], main: [{card: "Name"}, ...] }
     const requestBody = {
-      commanders: request.commander ? [{ card: request.commander }] : [],
+      commanders: getComboCommanders(request).map(name => ({ card: name })),
       main: request.cards.map(name => ({ card: name })),
     };
 
@@ -93,91 +228,56 @@ export async function checkCombos(request: ComboCheckRequest): Promise<ComboChec
     }
 
     // Helper function to process a combo
-    const processCombo = (comboData: SpellbookCombo, isComplete: boolean) => {
+    const processCombo = (comboData: SpellbookCombo, category: ComboCategory) => {
       const comboId = String(comboData.id);
-      if (!comboId) return;
+      if (!comboId || seen.has(comboId)) return;
 
-      // Get card names from the combo
-      const comboCards = (comboData.uses || [])
-        .map(u => u.card?.name)
-        .filter((name): name is string => !!name);
-
-      if (comboCards.length < 2) return;
+      const combo = toCombo(comboData);
+      if (!combo) return;
 
       // Check which cards are in the deck
-      const present = comboCards.filter(c => deckCardsLower.has(c.toLowerCase()));
-      const missing = comboCards.filter(c => !deckCardsLower.has(c.toLowerCase()));
-
-      // Get combo result/effect
-      const resultParts = (comboData.produces || [])
-        .map(p => p.feature?.name)
-        .filter((name): name is string => !!name);
-      const result = resultParts.length > 0 ? resultParts.join(', ') : 'Combo effect';
-
-      // Get steps
-      const steps = comboData.description
-        ? comboData.description.split('\n').map(s => s.trim()).filter(s => s)
-        : [];
-
-      // Get color identity
-      const colorIdentity = comboData.identity
-        ? comboData.identity.toUpperCase().split('')
-        : [];
-
-      const sourceUrl = `https://commanderspellbook.com/combo/${comboId}`;
-
-      if (isComplete) {
-        // Complete combo
-        if (!foundCombos.has(comboId)) {
-          const combo: Combo = {
-            id: comboId,
-            cards: comboCards,
-            description: result,
-            prerequisite: comboData.otherPrerequisites || undefined,
-            steps,
-            result,
-            colorIdentity,
-            sourceUrl,
-          };
-
-          foundCombos.set(comboId, {
-            combo,
-            isComplete: true,
-            presentCards: present,
-            missingCards: [],
-          });
-        }
+      const present = combo.cards.filter(c => deckCardsLower.has(c.toLowerCase()));
+      const missing = combo.cards.filter(c => !deckCardsLower.has(c.toLowerCase()));
+      const { result, sourceUrl } = combo;
+
+      if (category === 'complete' || category === 'different-commander') {
+        seen.add(comboId);
+        deckCombos[category].push({
+          combo,
+          category,
+          isComplete: category === 'complete',
+          presentCards: present,
+          missingCards: missing,
+        });
       } else if (present.length >= 2) {
-        // Potential combo
-        if (!potentialCombos.has(comboId) && !foundCombos.has(comboId)) {
-          potentialCombos.set(comboId, {
-            cards: present,
-            missingPieces: missing,
-            description: result,
-            sourceUrl,
-          });
-        }
+        seen.add(comboId);
+        potentialCombos[category].push({
+          category,
+          cards: present,
+          missingPieces: missing,
+          description: result,
+          sourceUrl,
+          combo,
+        });
       }
     };
 
-    // Process complete combos (included in deck)
     for (const combo of results.included || []) {
-      processCombo(combo, true);
+      processCombo(combo, 'complete');
     }
 
-    // Also check includedByChangingCommanders as complete combos
+    // All pieces are in the deck, but one of them needs to be the commander
     for (const combo of results.includedByChangingCommanders || []) {
-      processCombo(combo, true);
+      processCombo(combo, 'different-commander');
     }
 
-    // Process potential combos (almost included)
     for (const combo of results.almostIncluded || []) {
-      processCombo(combo, false);
+      processCombo(combo, 'one-card-away');
     }
 
-    // Also check almostIncludedByAddingColors as potential combos
+    // The missing pieces fall outside the deck's colour identity
     for (const combo of results.almostIncludedByAddingColors || []) {
-      processCombo(combo, false);
+      processCombo(combo, 'extra-colors');
     }
   } catch (error) {
     if (error instanceof ComboServiceError) throw error;
@@ -188,14 +288,109 @@ export async function checkCombos(request: ComboCheckRequest): Promise<ComboChec
   const processingTime = Date.now() - startTime;
 
   return {
-    combos: Array.from(foundCombos.values()),
-    potentialCombos: Array.from(potentialCombos.values()).slice(0, 20),
+    combos: deckCombos.complete,
+    potentialCombos: potentialCombos['one-card-away'].slice(0, MAX_POTENTIAL_COMBOS),
+    differentCommanderCombos: deckCombos['different-commander'],
+    extraColorCombos: potentialCombos['extra-colors'].slice(0, MAX_POTENTIAL_COMBOS),
     synergies: [], // Synergies are detected client-side with full card data
     analyzedCards: request.cards.length,
     processingTime,
   };
 }
 
+// Collision-safe key for a card list, shared by every user's cached results
+export function getComboCacheKey(request: Pick<ComboCheckRequest, 'cards' | 'commander' | 'commanders'>): string {
+  return createHash('sha256').update(getComboFingerprintInput(request)).digest('hex');
+}
+
+/**
+ * Combos for a card list, cached by its SHA-256 key. A longer-lived copy of
+ * each result is served, marked stale, when Commander Spellbook is down.
+ */
+export async function checkCombos(request: ComboCheckRequest): Promise<ComboCheckResponse> {
+  const fingerprint = getComboFingerprint(request);
+  const key = getComboCacheKey(request);
+  const cacheKey = `spellbook:combos:${key}`;
+  const lastKnownKey = `spellbook:combos:last:${key}`;
+
+  if (!request.refresh) {
+    const cached = await cacheGet<ComboCheckResponse>(cacheKey);
+    if (cached) return { ...cached, cached: true };
+  }
+
+  try {
+    const result: ComboCheckResponse = {
+      ...(await fetchCombos(request)),
+      fingerprint,
+      checkedAt: new Date().toISOString(),
+    };
+
+    await Promise.all([
+      cacheSet(cacheKey, result, CACHE_TTL.COMBO_DATA),
+      cacheSet(lastKnownKey, result, CACHE_TTL.COMBO_LAST_KNOWN),
+    ]);
+
+    return result;
+  } catch (error) {
+    if (error instanceof ComboServiceError) {
+      const lastKnown = await cacheGet<ComboCheckResponse>(lastKnownKey);
+      if (lastKnown) return { ...lastKnown, cached: true, stale: true };
+    }
+    throw error;
+  }
+}
+
+// Variant ids are card ids joined by dashes, with templates after a double dash
+const SPELLBOOK_COMBO_ID_PATTERN = /^\d+(?:--?\d+)*$/;
+
+/**
+ * Combo id from a bare id or a commanderspellbook.com combo URL,
+ * e.g. https://commanderspellbook.com/combo/1414-2730/
+ */
+export function extractSpellbookComboId(input: string): string | null {
+  const trimmed = input.trim();
+  if (SPELLBOOK_COMBO_ID_PATTERN.test(trimmed)) return trimmed;
+
+  try {
+    const url = new URL(trimmed.includes('://') ? trimmed : `https://${trimmed}`);
+    const host = url.hostname.toLowerCase();
+    if (host !== 'commanderspellbook.com' && !host.endsWith('.commanderspellbook.com')) return null;
+    const match = url.pathname.match(/\/(?:combo|variants)\/([^/]+)/);
+    return match && SPELLBOOK_COMBO_ID_PATTERN.test(match[1]) ? match[1] : null;
+  } catch {
+    return null;
+  }
+}
+
+export async function getSpellbookCombo(comboId: string): Promise<Combo> {
+  return cacheGetOrFetch(
+    `spellbook:combo:${comboId}`,
+    async () => {
+      let response: Response;
+      try {
+        response = await fetch(`${COMMANDER_SPELLBOOK_API}/variants/${encodeURIComponent(comboId)}/`);
+      } catch (error) {
+        console.error('Commander Spellbook API error:', error);
+        throw new ComboServiceError('Failed to fetch combo from Commander Spellbook', 502);
+      }
+
+      if (!response.ok) {
+        if (response.status === 404) {
+          throw new ComboServiceError(`Combo not found: ${comboId}`, 404);
+        }
+        throw new ComboServiceError(`Commander Spellbook API error: ${response.status}`, response.status);
+      }
+
+      const combo = toCombo(await response.json());
+      if (!combo) {
+        throw new ComboServiceError(`Combo ${comboId} doesn't use at least two cards`, 422);
+      }
+      return combo;
+    },
+    CACHE_TTL.COMBO_DATA
+  );
+}
+
 export async function healthCheck(): Promise<boolean> {
   try {
     const response = await fetch(`${COMMANDER_SPELLBOOK_API}/`, { method: 'HEAD' });
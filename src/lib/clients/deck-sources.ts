@@ -0,0 +1,103 @@
+import { DECK_SOURCE_NAMES } from '@/types';
+import type { DeckCard, DeckSourceId, MoxfieldCard, SourceDeck, SourceDeckCard } from '@/types';
+import { extractDeckId, getDeck, getDeckUrl, MoxfieldError } from './moxfield';
+import { extractArchidektDeckId, getArchidektDeck, ArchidektError } from './archidekt';
+import { extractDeckstatsDeckId, getDeckstatsDeck, DeckstatsError } from './deckstats';
+import { extractTappedOutDeckId, getTappedOutDeck, TappedOutError } from './tappedout';
+
+export interface DeckSourceProvider {
+  id: DeckSourceId;
+  name: string;
+  // Whether a URL belongs to this site
+  matches: (url: string) => boolean;
+  extractDeckId: (url: string) => string | null;
+  fetchDeck: (deckId: string) => Promise<SourceDeck>;
+}
+
+const moxfieldProvider: DeckSourceProvider = {
+  id: 'moxfield',
+  name: DECK_SOURCE_NAMES.moxfield,
+  // A bare ID with no slashes is treated as a Moxfield deck for backwards compatibility
+  matches: (url) => /moxfield\.com/.test(url) || !url.includes('/'),
+  extractDeckId,
+  fetchDeck: async (deckId) => {
+    const deck = await getDeck(deckId);
+
+    const cards: SourceDeckCard[] = [];
+    const addBoard = (entries: Record<string, MoxfieldCard>, board: DeckCard['board']) => {
+      for (const entry of Object.values(entries)) {
+        const tags = deck.authorTags[entry.card.name];
+        cards.push({
+          name: entry.card.name,
+          quantity: entry.quantity,
+          board,
+          scryfallId: entry.card.scryfall_id,
+          ...(tags?.length && { categories: tags }),
+        });
+      }
+    };
+
+    addBoard(deck.commanders, 'commanders');
+    addBoard(deck.mainboard, 'mainboard');
+    addBoard(deck.sideboard, 'sideboard');
+    addBoard(deck.maybeboard, 'maybeboard');
+
+    return {
+      source: 'moxfield',
+      id: deck.id,
+      name: deck.name,
+      description: deck.description,
+      format: deck.format,
+      url: getDeckUrl(deck.publicId),
+      cards,
+    };
+  },
+};
+
+const archidektProvider: DeckSourceProvider = {
+  id: 'archidekt',
+  name: DECK_SOURCE_NAMES.archidekt,
+  matches: (url) => /archidekt\.com/.test(url),
+  extractDeckId: extractArchidektDeckId,
+  fetchDeck: getArchidektDeck,
+};
+
+const deckstatsProvider: DeckSourceProvider = {
+  id: 'deckstats',
+  name: DECK_SOURCE_NAMES.deckstats,
+  matches: (url) => /deckstats\.net/.test(url),
+  extractDeckId: extractDeckstatsDeckId,
+  fetchDeck: getDeckstatsDeck,
+};
+
+const tappedOutProvider: DeckSourceProvider = {
+  id: 'tappedout',
+  name: DECK_SOURCE_NAMES.tappedout,
+  matches: (url) => /tappedout\.net/.test(url),
+  extractDeckId: extractTappedOutDeckId,
+  fetchDeck: getTappedOutDeck,
+};
+
+export const DECK_SOURCES: DeckSourceProvider[] = [
+  moxfieldProvider,
+  archidektProvider,
+  deckstatsProvider,
+  tappedOutProvider,
+];
+
+export function detectDeckSource(url: string): DeckSourceProvider | null {
+  const trimmed = url.trim();
+  return DECK_SOURCES.find((source) => source.matches(trimmed)) || null;
+}
+
+// Errors thrown by any of the per-site clients
+export function isDeckSourceError(
+  error: unknown
+): error is MoxfieldError | ArchidektError | DeckstatsError | TappedOutError {
+  return (
+    error instanceof MoxfieldError ||
+    error instanceof ArchidektError ||
+    error instanceof DeckstatsError ||
+    error instanceof TappedOutError
+  );
+}
@@ -0,0 +1,102 @@
+import type { DeckCard, SourceDeck, SourceDeckCard } from '@/types';
+
+const DECKSTATS_API = 'https://deckstats.net/api.php';
+
+export class DeckstatsError extends Error {
+  constructor(
+    message: string,
+    public status: number
+  ) {
+    super(message);
+    this.name = 'DeckstatsError';
+  }
+}
+
+interface DeckstatsCard {
+  name: string;
+  amount: number;
+  isCommander?: boolean;
+}
+
+interface DeckstatsSection {
+  name: string;
+  cards?: DeckstatsCard[];
+}
+
+/**
+ * Deckstats URLs carry both the owner and the deck ID:
+ * https://deckstats.net/decks/12345/678910-deck-name/en
+ * The two are joined as "12345/678910".
+ */
+export function extractDeckstatsDeckId(url: string): string | null {
+  const match = url.match(/deckstats\.net\/decks\/(\d+)\/(\d+)/);
+  return match ? `${match[1]}/${match[2]}` : null;
+}
+
+export async function getDeckstatsDeck(deckId: string): Promise<SourceDeck> {
+  const [ownerId, id] = deckId.split('/');
+  if (!ownerId || !id) {
+    throw new DeckstatsError('Invalid Deckstats deck ID', 400);
+  }
+
+  const params = new URLSearchParams({
+    action: 'get_deck',
+    id_type: 'saved',
+    owner_id: ownerId,
+    id,
+    response_type: 'json',
+  });
+
+  const response = await fetch(`${DECKSTATS_API}?${params}`, {
+    headers: {
+      'Accept': 'application/json',
+      'User-Agent': 'DeckTutor/1.0',
+    },
+    cache: 'no-store',
+  });
+
+  if (!response.ok) {
+    if (response.status === 404) {
+      throw new DeckstatsError('Deck not found. Make sure the deck is public.', 404);
+    }
+    throw new DeckstatsError(`Deckstats API error: ${response.status}`, response.status);
+  }
+
+  const data = await response.json();
+  if (data.error) {
+    throw new DeckstatsError(`Deckstats API error: ${data.error}`, 404);
+  }
+
+  const cards: SourceDeckCard[] = [];
+
+  const addCards = (entries: DeckstatsCard[], board: DeckCard['board']) => {
+    for (const entry of entries) {
+      cards.push({
+        name: entry.name,
+        quantity: entry.amount,
+        board: entry.isCommander ? 'commanders' : board,
+      });
+    }
+  };
+
+  for (const section of (data.sections || []) as DeckstatsSection[]) {
+    const sectionName = section.name.toLowerCase();
+    const board: DeckCard['board'] = sectionName.includes('commander')
+      ? 'commanders'
+      : sectionName.includes('maybe')
+      ? 'maybeboard'
+      : 'mainboard';
+    addCards(section.cards || [], board);
+  }
+  addCards(data.sideboard || [], 'sideboard');
+
+  return {
+    source: 'deckstats',
+    id: deckId,
+    name: data.name,
+    description: data.description || '',
+    format: data.format || 'commander',
+    url: `https://deckstats.net/decks/${ownerId}/${id}`,
+    cards,
+  };
+}
@@ -1,6 +1,6 @@
 import { GoogleGenerativeAI } from '@google/generative-ai';
-import type { GeminiModel, DeckContext, CommanderBracket, ChatSettings } from '@/types';
-import { COMMANDER_BRACKETS } from '@/types';
+import type { GeminiModel, DeckContext, CommanderBracket, ChatSettings, CardRulingContext, DeckCombo } from '@/types';
+import { COMBO_ZONE_LABELS, COMMANDER_BRACKETS } from '@/types';
 
 const GEMINI_API_KEY = process.env.GEMINI_API_KEY;
 
@@ -83,11 +83,31 @@ export async function healthCheck(): Promise<boolean> {
   }
 }
 
+// A combo with its setup and steps, so explanations of how to go off follow Spellbook
+function formatComboForPrompt({ combo }: DeckCombo): string {
+  const setup = (combo.requirements ?? []).map((requirement) => {
+    const details = [
+      requirement.mustBeCommander ? 'as commander' : null,
+      requirement.zones.map((zone) => COMBO_ZONE_LABELS[zone].toLowerCase()).join(' or ') || null,
+      requirement.state,
+    ].filter(Boolean);
+    return details.length > 0 ? `${requirement.name} (${details.join(', ')})` : requirement.name;
+  });
+
+  const lines = [`- ${combo.cards.join(' + ')}: ${combo.result}`];
+  if (setup.length > 0) lines.push(`  Setup: ${setup.join('; ')}`);
+  if (combo.prerequisites?.length) lines.push(`  Other prerequisites: ${combo.prerequisites.join('; ')}`);
+  if (combo.manaNeeded) lines.push(`  Mana needed: ${combo.manaNeeded}`);
+  combo.steps.forEach((step, i) => lines.push(`  ${i + 1}. ${step}`));
+  return lines.join('\n');
+}
+
 // Build system prompt with optional deck context
 export function buildSystemPrompt(
   deckContext: DeckContext | null | undefined,
   bracketLevel: CommanderBracket,
-  includeContext: boolean
+  includeContext: boolean,
+  cardRulings: CardRulingContext[] = []
 ): string {
   const bracketInfo = COMMANDER_BRACKETS[bracketLevel];
 
@@ -200,8 +220,8 @@ IMPORTANT:
     prompt += `
 ## Current Deck Analysis
 **Deck Name:** ${deckContext.deckName}
-**Commander(s):** ${deckContext.commanders.join(', ')}
-**Color Identity:** ${deckContext.colorIdentity.join('')}
+**Commander(s):** ${deckContext.commanders.join(', ')}${deckContext.commanderPairing ? ` (${deckContext.commanderPairing})` : ''}
+${deckContext.companion ? `**Companion:** ${deckContext.companion}\n` : ''}**Color Identity:** ${deckContext.colorIdentity.join('')}
 **Format:** ${deckContext.format}
 
 ### Statistics
@@ -214,8 +234,8 @@ IMPORTANT:
 ${deckContext.synergies.slice(0, 5).map((s) => `- ${s.type}: ${s.description} (${s.strength})`).join('\n')}
 
 ### Complete Combos in Deck (${deckContext.combos.length} found)
-${deckContext.combos.slice(0, 3).map((c) => `- ${c.combo.cards.join(' + ')}: ${c.combo.result}`).join('\n')}
-
+${deckContext.combos.slice(0, 3).map(formatComboForPrompt).join('\n')}
+${deckContext.combos.length > 0 ? 'When explaining how to assemble or execute these combos, follow the setup and steps listed above.\n' : ''}
 ### Potential Combos (${deckContext.potentialCombos.length} found)
 ${deckContext.potentialCombos.slice(0, 3).map((p) => `- Has: ${p.cards.join(', ')} | Missing: ${p.missingPieces.join(', ')}`).join('\n')}
 
@@ -230,5 +250,16 @@ Use this deck information to provide personalized advice. Reference specific car
 `;
   }
 
+  if (cardRulings.length > 0) {
+    prompt += `
+## Card Rulings
+Official oracle text and rulings for cards in the user's message. Base rules answers on these rather than memory, and cite them when they settle an interaction.
+
+${cardRulings.map((card) => `### ${card.name}
+${card.oracleText}
+${card.rulings.length > 0 ? card.rulings.map((r) => `- (${r.publishedAt}) ${r.comment}`).join('\n') : '- No rulings.'}`).join('\n\n')}
+`;
+  }
+
   return prompt;
 }
@@ -1,3 +1,8 @@
 export * from './scryfall';
 export * from './moxfield';
+export * from './archidekt';
+export * from './deckstats';
+export * from './tappedout';
+export * from './deck-sources';
 export * from './combo-service';
+export * from './scryfall-gateway';
@@ -1,4 +1,4 @@
-import type { MoxfieldDeck } from '@/types';
+import type { MoxfieldDeck, MoxfieldDeckSummary } from '@/types';
 
 const MOXFIELD_API = 'https://api.moxfield.com';
 
@@ -66,9 +66,55 @@ export async function getDeck(deckId: string): Promise<MoxfieldDeck> {
     sideboard: data.sideboard || {},
     maybeboard: data.maybeboard || {},
     commanders: data.commanders || {},
+    authorTags: data.authorTags || {},
   };
 }
 
+const USER_DECKS_PAGE_SIZE = 100;
+const MAX_USER_DECK_PAGES = 5;
+
+export async function getUserDecks(username: string): Promise<MoxfieldDeckSummary[]> {
+  const decks: MoxfieldDeckSummary[] = [];
+
+  for (let page = 1; page <= MAX_USER_DECK_PAGES; page++) {
+    const response = await fetch(
+      `${MOXFIELD_API}/v2/users/${encodeURIComponent(username)}/decks?pageNumber=${page}&pageSize=${USER_DECKS_PAGE_SIZE}`,
+      {
+        headers: {
+          'Accept': 'application/json',
+          'User-Agent': 'Mozilla/5.0 (Windows NT 10.0; Win64; x64)',
+        },
+        cache: 'no-store',
+      }
+    );
+
+    if (!response.ok) {
+      if (response.status === 404) {
+        throw new MoxfieldError('Moxfield user not found.', 404);
+      }
+      throw new MoxfieldError(`Moxfield API error: ${response.status}`, response.status);
+    }
+
+    const data = await response.json();
+
+    for (const deck of data.data || []) {
+      decks.push({
+        id: deck.id,
+        publicId: deck.publicId,
+        name: deck.name,
+        format: deck.format,
+        url: deck.publicUrl || getDeckUrl(deck.publicId),
+        mainboardCount: deck.mainboardCount || 0,
+        lastUpdatedAt: deck.lastUpdatedAtUtc,
+      });
+    }
+
+    if (page >= (data.totalPages || 1)) break;
+  }
+
+  return decks;
+}
+
 export function getDeckUrl(publicId: string): string {
   return `https://www.moxfield.com/decks/${publicId}`;
 }
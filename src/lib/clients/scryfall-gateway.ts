@@ -0,0 +1,144 @@
+/**
+ * Single entry point for every request to the Scryfall API. Requests share
+ * one token bucket per server process, identical requests already in flight
+ * are merged into one, and rate-limited responses are retried with backoff.
+ */
+
+export const SCRYFALL_API = 'https://api.scryfall.com';
+
+// Scryfall asks for 50-100ms between requests; allow a short burst on top
+const REQUESTS_PER_SECOND = 10;
+const BURST_SIZE = 5;
+
+const MAX_RETRIES = 3;
+const BASE_BACKOFF_MS = 500;
+const MAX_BACKOFF_MS = 10_000;
+
+export interface ScryfallResponse<T> {
+  ok: boolean;
+  status: number;
+  // Parsed JSON body, including Scryfall's error object on failures
+  data: T;
+}
+
+// Scryfall's paginated list object, returned by search and autocomplete
+export interface ScryfallList<T> {
+  data: T[];
+  has_more?: boolean;
+  next_page?: string;
+}
+
+export interface ScryfallRequestOptions {
+  method?: 'GET' | 'POST';
+  body?: unknown;
+}
+
+class TokenBucket {
+  private tokens: number;
+  private lastRefill = Date.now();
+  private waiting: Array<() => void> = [];
+  private timer: ReturnType<typeof setTimeout> | null = null;
+
+  constructor(
+    private capacity: number,
+    private refillPerSecond: number
+  ) {
+    this.tokens = capacity;
+  }
+
+  take(): Promise<void> {
+    this.refill();
+    if (this.waiting.length === 0 && this.tokens >= 1) {
+      this.tokens -= 1;
+      return Promise.resolve();
+    }
+    return new Promise((resolve) => {
+      this.waiting.push(resolve);
+      this.schedule();
+    });
+  }
+
+  private refill(): void {
+    const now = Date.now();
+    const elapsed = (now - this.lastRefill) / 1000;
+    this.tokens = Math.min(this.capacity, this.tokens + elapsed * this.refillPerSecond);
+    this.lastRefill = now;
+  }
+
+  // Hand out tokens to waiters in order as they refill
+  private schedule(): void {
+    if (this.timer) return;
+    const waitMs = Math.max(0, ((1 - this.tokens) / this.refillPerSecond) * 1000);
+    this.timer = setTimeout(() => {
+      this.timer = null;
+      this.refill();
+      while (this.tokens >= 1 && this.waiting.length > 0) {
+        this.tokens -= 1;
+        this.waiting.shift()!();
+      }
+      if (this.waiting.length > 0) this.schedule();
+    }, waitMs);
+  }
+}
+
+const bucket = new TokenBucket(BURST_SIZE, REQUESTS_PER_SECOND);
+const inFlight = new Map<string, Promise<ScryfallResponse<unknown>>>();
+
+function retryDelay(response: Response, attempt: number): number {
+  const retryAfter = Number(response.headers.get('retry-after'));
+  if (retryAfter > 0) {
+    return Math.min(retryAfter * 1000, MAX_BACKOFF_MS);
+  }
+  const backoff = BASE_BACKOFF_MS * 2 ** attempt;
+  return Math.min(backoff + Math.random() * BASE_BACKOFF_MS, MAX_BACKOFF_MS);
+}
+
+async function send(url: string, method: string, body?: string): Promise<ScryfallResponse<unknown>> {
+  for (let attempt = 0; ; attempt++) {
+    await bucket.take();
+
+    const response = await fetch(url, {
+      method,
+      headers: {
+        ...(body && { 'Content-Type': 'application/json' }),
+        Accept: 'application/json',
+        'User-Agent': 'DeckTutor/1.0',
+      },
+      body,
+    });
+
+    // 429 is Scryfall's rate limit; 503 is returned while it's overloaded
+    if ((response.status === 429 || response.status === 503) && attempt < MAX_RETRIES) {
+      const delay = retryDelay(response, attempt);
+      console.warn(`Scryfall returned ${response.status}, retrying in ${Math.round(delay)}ms`);
+      await new Promise((resolve) => setTimeout(resolve, delay));
+      continue;
+    }
+
+    const data = await response.json().catch(() => null);
+    return { ok: response.ok, status: response.status, data };
+  }
+}
+
+/**
+ * Request a Scryfall API path, e.g. `/cards/named?exact=Sol%20Ring`. Network
+ * failures throw; HTTP errors resolve with `ok: false` so callers can treat
+ * 404s as "not found".
+ */
+export function scryfallRequest<T>(
+  path: string,
+  options: ScryfallRequestOptions = {}
+): Promise<ScryfallResponse<T>> {
+  const method = options.method ?? 'GET';
+  const url = path.startsWith('http') ? path : `${SCRYFALL_API}${path}`;
+  const body = options.body === undefined ? undefined : JSON.stringify(options.body);
+  const key = `${method} ${url} ${body ?? ''}`;
+
+  let request = inFlight.get(key);
+  if (!request) {
+    request = send(url, method, body).finally(() => inFlight.delete(key));
+    inFlight.set(key, request);
+  }
+
+  return request as Promise<ScryfallResponse<T>>;
+}
@@ -1,10 +1,9 @@
-import type { ScryfallCard, Card } from '@/types';
-import { mapScryfallCard } from '@/types';
-
-const SCRYFALL_API = 'https://api.scryfall.com';
-const RATE_LIMIT_MS = 100;
-
-let lastRequestTime = 0;
+import type { ScryfallCard, ScryfallRuling, Card, CardRuling, PriceKey } from '@/types';
+import { getCardPrice, mapScryfallCard, PRICE_KEYS } from '@/types';
+import { autocompleteCardNames, isCardStoreLoaded, isPlainNameQuery, searchCardsByName } from '@/lib/card-store';
+import { getCachedCards, storeCards, type CardIdentifier } from '@/lib/card-cache';
+import { CACHE_TTL, cacheGetOrFetch } from '@/lib/cache';
+import { scryfallRequest, type ScryfallList, type ScryfallResponse } from './scryfall-gateway';
 
 /**
  * Normalize card names for Scryfall API.
@@ -23,17 +22,6 @@ function normalizeCardName(name: string): string {
   return name;
 }
 
-async function rateLimit(): Promise<void> {
-  const now = Date.now();
-  const timeSinceLastRequest = now - lastRequestTime;
-  if (timeSinceLastRequest < RATE_LIMIT_MS) {
-    await new Promise((resolve) =>
-      setTimeout(resolve, RATE_LIMIT_MS - timeSinceLastRequest)
-    );
-  }
-  lastRequestTime = Date.now();
-}
-
 export class ScryfallError extends Error {
   constructor(
     message: string,
@@ -45,17 +33,12 @@ export class ScryfallError extends Error {
 }
 
 export async function getCardByName(name: string): Promise<Card> {
-  await rateLimit();
-
   const normalizedName = normalizeCardName(name);
-  const response = await fetch(
-    `${SCRYFALL_API}/cards/named?exact=${encodeURIComponent(normalizedName)}`,
-    {
-      headers: {
-        Accept: 'application/json',
-        'User-Agent': 'DeckTutor/1.0',
-      },
-    }
+  const [cachedCard] = (await getCachedCards([{ name: normalizedName }], fetchCardsById)).cards;
+  if (cachedCard) return cachedCard;
+
+  const response = await scryfallRequest<ScryfallCard>(
+    `/cards/named?exact=${encodeURIComponent(normalizedName)}`
   );
 
   if (!response.ok) {
@@ -65,8 +48,9 @@ export async function getCardByName(name: string): Promise<Card> {
     throw new ScryfallError(`Scryfall API error: ${response.status}`, response.status);
   }
 
-  const data: ScryfallCard = await response.json();
-  return mapScryfallCard(data);
+  const card = mapScryfallCard(response.data);
+  void storeCards([card], [{ name: normalizedName }]);
+  return card;
 }
 
 /**
@@ -75,17 +59,17 @@ export async function getCardByName(name: string): Promise<Card> {
  * Returns the card with its canonical Oracle name, plus the original query name for mapping.
  */
 export async function getCardByFuzzyName(name: string): Promise<{ card: Card; queryName: string } | null> {
-  await rateLimit();
-
-  const response = await fetch(
-    `${SCRYFALL_API}/cards/named?fuzzy=${encodeURIComponent(name)}`,
-    {
-      headers: {
-        Accept: 'application/json',
-        'User-Agent': 'DeckTutor/1.0',
-      },
-    }
-  );
+  let response: ScryfallResponse<ScryfallCard>;
+  try {
+    response = await scryfallRequest<ScryfallCard>(
+      `/cards/named?fuzzy=${encodeURIComponent(name)}`
+    );
+  } catch (error) {
+    // Offline with a bulk-loaded store, the card simply counts as not found
+    if (!(await isCardStoreLoaded())) throw error;
+    console.warn(`Scryfall unreachable, no fuzzy match for "${name}":`, error);
+    return null;
+  }
 
   if (!response.ok) {
     if (response.status === 404) {
@@ -96,174 +80,301 @@ export async function getCardByFuzzyName(name: string): Promise<{ card: Card; qu
     return null;
   }
 
-  const data: ScryfallCard = await response.json();
-  return { card: mapScryfallCard(data), queryName: name };
+  return { card: mapScryfallCard(response.data), queryName: name };
 }
 
 export async function getCardById(id: string): Promise<Card> {
-  await rateLimit();
+  const [cachedCard] = (await getCachedCards([{ id }], fetchCardsById)).cards;
+  if (cachedCard) return cachedCard;
 
-  const response = await fetch(`${SCRYFALL_API}/cards/${id}`, {
-    headers: {
-      Accept: 'application/json',
-      'User-Agent': 'DeckTutor/1.0',
-    },
-  });
+  const response = await scryfallRequest<ScryfallCard>(`/cards/${id}`);
 
   if (!response.ok) {
     throw new ScryfallError(`Scryfall API error: ${response.status}`, response.status);
   }
 
-  const data: ScryfallCard = await response.json();
-  return mapScryfallCard(data);
+  const card = mapScryfallCard(response.data);
+  void storeCards([card]);
+  return card;
 }
 
-interface BulkCardIdentifier {
-  name?: string;
-  id?: string;
+// Rulings for a card, shared by every printing of it
+export async function getCardRulings(id: string): Promise<CardRuling[]> {
+  return cacheGetOrFetch(
+    `scryfall:rulings:${id}`,
+    async () => {
+      const response = await scryfallRequest<ScryfallList<ScryfallRuling>>(`/cards/${id}/rulings`);
+
+      if (!response.ok) {
+        throw new ScryfallError(`Scryfall API error: ${response.status}`, response.status);
+      }
+
+      return response.data.data.map((ruling) => ({
+        source: ruling.source,
+        publishedAt: ruling.published_at,
+        comment: ruling.comment,
+      }));
+    },
+    CACHE_TTL.CARD_RULINGS
+  );
 }
 
-export async function getCardsInBulk(identifiers: BulkCardIdentifier[]): Promise<{
+interface ScryfallCollectionResponse {
+  data: ScryfallCard[];
+  not_found?: CardIdentifier[];
+}
+
+/**
+ * Fetch cards straight from Scryfall, skipping the cache, and store the
+ * results. Refreshes stale cache entries and feeds the price snapshots.
+ */
+export async function fetchCardsById(ids: string[]): Promise<Card[]> {
+  const fetched: Card[] = [];
+
+  for (let i = 0; i < ids.length; i += 75) {
+    const response = await scryfallRequest<ScryfallCollectionResponse>('/cards/collection', {
+      method: 'POST',
+      body: { identifiers: ids.slice(i, i + 75).map((id) => ({ id })) },
+    });
+    if (!response.ok) {
+      throw new ScryfallError(`Scryfall API error: ${response.status}`, response.status);
+    }
+
+    const cards = response.data.data.map(mapScryfallCard);
+    fetched.push(...cards);
+    await storeCards(cards);
+  }
+
+  return fetched;
+}
+
+async function fetchCollection(identifiers: CardIdentifier[]): Promise<{
   cards: Card[];
-  notFound: string[];
+  notFound: CardIdentifier[];
 }> {
-  await rateLimit();
+  const cached = await getCachedCards(identifiers, fetchCardsById);
+  const remaining = cached.missing;
 
-  // Normalize card names for split cards
-  const normalizedIdentifiers = identifiers.map((id) => ({
-    ...id,
-    name: id.name ? normalizeCardName(id.name) : undefined,
-  }));
+  const allCards: Card[] = [...cached.cards];
+  const notFound: CardIdentifier[] = [];
 
   // Scryfall allows max 75 cards per request
-  const chunks: BulkCardIdentifier[][] = [];
-  for (let i = 0; i < normalizedIdentifiers.length; i += 75) {
-    chunks.push(normalizedIdentifiers.slice(i, i + 75));
+  const chunks: CardIdentifier[][] = [];
+  for (let i = 0; i < remaining.length; i += 75) {
+    chunks.push(remaining.slice(i, i + 75));
   }
 
-  const allCards: Card[] = [];
-  const notFound: string[] = [];
-
-  for (const chunk of chunks) {
-    await rateLimit();
-
-    const response = await fetch(`${SCRYFALL_API}/cards/collection`, {
-      method: 'POST',
-      headers: {
-        'Content-Type': 'application/json',
-        Accept: 'application/json',
-        'User-Agent': 'DeckTutor/1.0',
-      },
-      body: JSON.stringify({ identifiers: chunk }),
-    });
+  for (const [index, chunk] of chunks.entries()) {
+    let response: ScryfallResponse<ScryfallCollectionResponse>;
+    try {
+      response = await scryfallRequest<ScryfallCollectionResponse>('/cards/collection', {
+        method: 'POST',
+        body: { identifiers: chunk },
+      });
+    } catch (error) {
+      // With a bulk-loaded store we can still finish offline; the rest count as not found
+      if (!(await isCardStoreLoaded())) throw error;
+      console.warn('Scryfall unreachable, using local card data only:', error);
+      notFound.push(...chunks.slice(index).flat());
+      break;
+    }
 
     if (!response.ok) {
       throw new ScryfallError(`Scryfall API error: ${response.status}`, response.status);
     }
 
-    const data = await response.json();
+    const fetched = response.data.data.map(mapScryfallCard);
+    allCards.push(...fetched);
+    void storeCards(fetched, chunk);
 
-    for (const card of data.data) {
-      allCards.push(mapScryfallCard(card));
+    if (response.data.not_found) {
+      notFound.push(...response.data.not_found);
     }
+  }
 
-    if (data.not_found) {
-      for (const item of data.not_found) {
-        notFound.push(item.name || item.id);
+  return { cards: allCards, notFound };
+}
+
+function printingKey(set: string, collectorNumber: string): string {
+  return `${set.toLowerCase()}:${collectorNumber.toLowerCase()}`;
+}
+
+/**
+ * Look up many cards at once. Identifiers with a set and collector number
+ * resolve to that exact printing; if Scryfall doesn't know the printing the
+ * card is retried by name and reported in `downgraded`.
+ */
+export async function getCardsInBulk(identifiers: CardIdentifier[]): Promise<{
+  cards: Card[];
+  notFound: string[];
+  downgraded: string[];
+}> {
+  // Names are only sent when there's no more specific identifier
+  const requestIdentifiers = identifiers.map((id): CardIdentifier => {
+    if (id.set && id.collector_number) {
+      return { set: id.set.toLowerCase(), collector_number: id.collector_number };
+    }
+    if (id.id) {
+      return { id: id.id };
+    }
+    // Normalize card names for split cards
+    return { name: id.name ? normalizeCardName(id.name) : undefined };
+  });
+
+  const { cards, notFound: missing } = await fetchCollection(requestIdentifiers);
+
+  const namesByPrinting = new Map<string, string>();
+  for (const id of identifiers) {
+    if (id.set && id.collector_number && id.name) {
+      namesByPrinting.set(printingKey(id.set, id.collector_number), id.name);
+    }
+  }
+
+  const notFound: string[] = [];
+  const retryNames = new Set<string>();
+
+  for (const item of missing) {
+    if (item.set && item.collector_number) {
+      const name = namesByPrinting.get(printingKey(item.set, item.collector_number));
+      if (name) {
+        retryNames.add(name);
+      } else {
+        notFound.push(`${item.set.toUpperCase()} ${item.collector_number}`);
       }
+    } else {
+      notFound.push(item.name || item.id || '');
     }
   }
 
-  return { cards: allCards, notFound };
-}
+  const downgraded: string[] = [];
 
-export async function searchCards(query: string, limit = 20): Promise<Card[]> {
-  await rateLimit();
+  if (retryNames.size > 0) {
+    const retry = await fetchCollection(
+      [...retryNames].map((name) => ({ name: normalizeCardName(name) }))
+    );
+    cards.push(...retry.cards);
 
-  const normalizedQuery = normalizeCardName(query);
-  const response = await fetch(
-    `${SCRYFALL_API}/cards/search?q=${encodeURIComponent(normalizedQuery)}&unique=cards`,
-    {
-      headers: {
-        Accept: 'application/json',
-        'User-Agent': 'DeckTutor/1.0',
-      },
+    const retryMissing = new Set(
+      retry.notFound.map((item) => (item.name || '').toLowerCase())
+    );
+    for (const name of retryNames) {
+      if (retryMissing.has(normalizeCardName(name).toLowerCase())) {
+        notFound.push(name);
+      } else {
+        downgraded.push(name);
+      }
     }
+  }
+
+  return { cards, notFound, downgraded };
+}
+
+export interface CardSearchFilters {
+  // Commander colour identity as WUBRG letters; empty means colourless only
+  colorIdentity?: string[];
+  // Only cards legal in this format
+  format?: string;
+}
+
+// Add the filters to a Scryfall query, keeping the user's own terms grouped
+export function buildSearchQuery(query: string, filters: CardSearchFilters = {}): string {
+  const terms = [`(${query})`];
+  if (filters.colorIdentity) {
+    terms.push(filters.colorIdentity.length > 0 ? `id<=${filters.colorIdentity.join('').toLowerCase()}` : 'id:c');
+  }
+  if (filters.format) {
+    terms.push(`f:${filters.format}`);
+  }
+  return terms.join(' ');
+}
+
+/**
+ * Search by name or full Scryfall syntax (o:, t:, cmc<=, otag:, ...).
+ * Unfiltered plain-name queries are answered from the card store when loaded.
+ */
+export async function searchCards(query: string, limit = 20, filters: CardSearchFilters = {}): Promise<Card[]> {
+  const plainName = isPlainNameQuery(query);
+  const normalizedQuery = plainName ? normalizeCardName(query) : query.trim();
+  const filtered = filters.colorIdentity !== undefined || filters.format !== undefined;
+
+  if (!filtered) {
+    const local = await searchCardsByName(normalizedQuery, limit);
+    if (local && local.length > 0) return local;
+  }
+
+  const fullQuery = filtered ? buildSearchQuery(normalizedQuery, filters) : normalizedQuery;
+  const response = await scryfallRequest<ScryfallList<ScryfallCard>>(
+    `/cards/search?q=${encodeURIComponent(fullQuery)}&unique=cards&order=edhrec`
   );
 
   if (!response.ok) {
     if (response.status === 404) {
       return [];
     }
-    throw new ScryfallError(`Scryfall API error: ${response.status}`, response.status);
+    // Bad syntax comes back as a 400 explaining which terms Scryfall couldn't read
+    const details = (response.data as { details?: string } | null)?.details;
+    throw new ScryfallError(details || `Scryfall API error: ${response.status}`, response.status);
   }
 
-  const data = await response.json();
-  return data.data.slice(0, limit).map(mapScryfallCard);
+  return response.data.data.slice(0, limit).map(mapScryfallCard);
 }
 
 /**
- * Get the cheapest USD price for a card by searching all printings.
- * Used to fill in missing price data during import.
+ * Get the cheapest price for a card in each currency/finish by searching all
+ * printings. Keys with no priced printing are left out.
+ * Used to fill in missing price data during import and for cheapest deck value.
  */
-export async function getCheapestPrice(cardName: string): Promise<string | null> {
-  await rateLimit();
+export async function getCheapestPrices(cardName: string): Promise<Partial<Record<PriceKey, number>>> {
+  const cheapest: Partial<Record<PriceKey, number>> = {};
 
   try {
     const encodedName = encodeURIComponent(`!"${cardName}"`);
-    const response = await fetch(
-      `${SCRYFALL_API}/cards/search?q=${encodedName}&unique=prints`,
-      {
-        headers: {
-          Accept: 'application/json',
-          'User-Agent': 'DeckTutor/1.0',
-        },
-      }
+    const response = await scryfallRequest<ScryfallList<ScryfallCard>>(
+      `/cards/search?q=${encodedName}&unique=prints`
     );
 
     if (!response.ok) {
-      return null;
+      return cheapest;
     }
 
-    const data = await response.json();
-    let cheapest: number | null = null;
-
-    for (const card of data.data || []) {
-      const priceStr = card.prices?.usd;
-      if (priceStr) {
-        const price = parseFloat(priceStr);
-        if (!isNaN(price) && price > 0) {
-          if (cheapest === null || price < cheapest) {
-            cheapest = price;
-          }
+    for (const printing of (response.data.data || []).map(mapScryfallCard)) {
+      for (const priceKey of PRICE_KEYS) {
+        const price = getCardPrice(printing, priceKey);
+        if (price !== null && price > 0 && (cheapest[priceKey] === undefined || price < cheapest[priceKey])) {
+          cheapest[priceKey] = price;
         }
       }
     }
 
-    return cheapest !== null ? cheapest.toFixed(2) : null;
+    return cheapest;
   } catch (error) {
     console.error(`Error fetching cheapest price for ${cardName}:`, error);
-    return null;
+    return cheapest;
   }
 }
 
 export async function autocomplete(query: string): Promise<string[]> {
   if (query.length < 2) return [];
 
-  const response = await fetch(
-    `${SCRYFALL_API}/cards/autocomplete?q=${encodeURIComponent(query)}`,
-    {
-      headers: {
-        Accept: 'application/json',
-        'User-Agent': 'DeckTutor/1.0',
-      },
-    }
-  );
+  const local = await autocompleteCardNames(query);
+  if (local) return local;
 
-  if (!response.ok) {
+  try {
+    return await cacheGetOrFetch(
+      `scryfall:autocomplete:${query.toLowerCase()}`,
+      async () => {
+        const response = await scryfallRequest<ScryfallList<string>>(
+          `/cards/autocomplete?q=${encodeURIComponent(query)}`
+        );
+        // Throwing keeps failed lookups out of the cache
+        if (!response.ok) {
+          throw new ScryfallError(`Scryfall API error: ${response.status}`, response.status);
+        }
+        return response.data.data;
+      },
+      CACHE_TTL.AUTOCOMPLETE
+    );
+  } catch {
     return [];
   }
-
-  const data = await response.json();
-  return data.data;
 }
@@ -0,0 +1,98 @@
+import type { DeckCard, SourceDeck, SourceDeckCard } from '@/types';
+
+const TAPPEDOUT_URL = 'https://tappedout.net';
+
+export class TappedOutError extends Error {
+  constructor(
+    message: string,
+    public status: number
+  ) {
+    super(message);
+    this.name = 'TappedOutError';
+  }
+}
+
+export function extractTappedOutDeckId(url: string): string | null {
+  // https://tappedout.net/mtg-decks/deck-slug/
+  const match = url.match(/tappedout\.net\/mtg-decks\/([a-zA-Z0-9_-]+)/);
+  return match ? match[1] : null;
+}
+
+/**
+ * TappedOut has no public JSON API, so we read the plain-text export.
+ * Commanders are tagged with *CMDR* and boards follow "Sideboard:" style headers.
+ */
+function parseTappedOutText(text: string): SourceDeckCard[] {
+  const cards: SourceDeckCard[] = [];
+  let board: DeckCard['board'] = 'mainboard';
+
+  for (const line of text.split('\n')) {
+    const trimmed = line.trim();
+    if (!trimmed) continue;
+
+    const header = trimmed.toLowerCase().replace(/:$/, '');
+    if (header === 'sideboard') {
+      board = 'sideboard';
+      continue;
+    }
+    if (header === 'maybeboard') {
+      board = 'maybeboard';
+      continue;
+    }
+
+    const match = trimmed.match(/^(\d+)x?\s+(.+)$/i);
+    if (!match) continue;
+
+    const isCommander = /\*CMDR\*/i.test(match[2]);
+    const name = match[2].replace(/\*[A-Z]+\*/gi, '').replace(/\s+\([^)]+\).*$/, '').trim();
+    if (!name) continue;
+
+    cards.push({
+      name,
+      quantity: parseInt(match[1], 10),
+      board: isCommander ? 'commanders' : board,
+    });
+  }
+
+  return cards;
+}
+
+function nameFromSlug(slug: string): string {
+  return slug
+    .split('-')
+    .filter(Boolean)
+    .map((word) => word.charAt(0).toUpperCase() + word.slice(1))
+    .join(' ');
+}
+
+export async function getTappedOutDeck(slug: string): Promise<SourceDeck> {
+  const response = await fetch(`${TAPPEDOUT_URL}/mtg-decks/${slug}/?fmt=txt`, {
+    headers: {
+      'Accept': 'text/plain',
+      'User-Agent': 'DeckTutor/1.0',
+    },
+    cache: 'no-store',
+  });
+
+  if (!response.ok) {
+    if (response.status === 404) {
+      throw new TappedOutError('Deck not found. Make sure the deck is public.', 404);
+    }
+    throw new TappedOutError(`TappedOut error: ${response.status}`, response.status);
+  }
+
+  const cards = parseTappedOutText(await response.text());
+  if (cards.length === 0) {
+    throw new TappedOutError('Deck list is empty or private.', 404);
+  }
+
+  return {
+    source: 'tappedout',
+    id: slug,
+    name: nameFromSlug(slug),
+    description: '',
+    format: 'commander',
+    url: `${TAPPEDOUT_URL}/mtg-decks/${slug}/`,
+    cards,
+  };
+}
@@ -0,0 +1,92 @@
+import { getCardPrice, type Card, type Deck, type PotentialCombo, type PriceKey } from '@/types';
+
+export interface ComboUpgrade {
+  potential: PotentialCombo;
+  // Card data for the missing pieces that could be looked up
+  missingCards: Card[];
+  missingCount: number;
+  // Total price of the missing pieces, null if any of them has no price
+  cost: number | null;
+  // Every missing piece fits the commander's colour identity
+  isLegal: boolean;
+  // Other near-miss combos these pieces would also complete
+  unlocks: number;
+}
+
+interface PlanOptions {
+  // Missing cards by lowercased name
+  cards: Map<string, Card>;
+  colorIdentity: string[];
+  priceKey: PriceKey;
+}
+
+// Ascending with missing values last; subtracting two Infinity stand-ins would give NaN
+function compareNullable(a: number | null | undefined, b: number | null | undefined): number {
+  const x = a ?? null;
+  const y = b ?? null;
+  if (x === null || y === null) return x === y ? 0 : x === null ? 1 : -1;
+  return x - y;
+}
+
+function fitsIdentity(card: Card, colorIdentity: string[]): boolean {
+  return card.colorIdentity.every((color) => colorIdentity.includes(color));
+}
+
+/**
+ * Rank near-miss combos as upgrades: legal ones first, then the fewest
+ * missing pieces, the most other combos completed along the way, and the
+ * cheapest (unknown prices last).
+ */
+export function rankComboUpgrades(potentials: PotentialCombo[], { cards, colorIdentity, priceKey }: PlanOptions): ComboUpgrade[] {
+  const missingSets = potentials.map((potential) => new Set(potential.missingPieces.map((name) => name.toLowerCase())));
+
+  const upgrades = potentials.map((potential, index): ComboUpgrade => {
+    const missing = missingSets[index];
+    const missingCards = [...missing].flatMap((name) => cards.get(name) ?? []);
+    const prices = missingCards.map((card) => getCardPrice(card, priceKey));
+    const allKnown = missingCards.length === missing.size;
+
+    const unlocks = missingSets.filter(
+      (other, otherIndex) => otherIndex !== index && [...other].every((name) => missing.has(name))
+    ).length;
+
+    return {
+      potential,
+      missingCards,
+      missingCount: missing.size,
+      cost: allKnown && prices.every((price) => price !== null)
+        ? prices.reduce<number>((sum, price) => sum + (price ?? 0), 0)
+        : null,
+      // Without card data, trust Spellbook's grouping
+      isLegal: allKnown
+        ? missingCards.every((card) => fitsIdentity(card, colorIdentity))
+        : potential.category !== 'extra-colors',
+      unlocks,
+    };
+  });
+
+  return upgrades.sort(
+    (a, b) =>
+      Number(b.isLegal) - Number(a.isLegal) ||
+      a.missingCount - b.missingCount ||
+      b.unlocks - a.unlocks ||
+      compareNullable(a.cost, b.cost)
+  );
+}
+
+/**
+ * Mainboard cards to make room for `count` new ones: nonland cards outside
+ * every protected name (commanders, combo pieces, synergies), highest mana
+ * value first and the least played on EDHREC (unranked first) breaking ties.
+ */
+export function suggestCuts(deck: Deck, count: number, protectedNames: Iterable<string>): Card[] {
+  const keep = new Set([...protectedNames].map((name) => name.toLowerCase()));
+  for (const commander of deck.commanders) keep.add(commander.name.toLowerCase());
+
+  return deck.mainboard
+    .filter((dc) => dc.board === 'mainboard')
+    .map((dc) => dc.card)
+    .filter((card) => !card.typeLine.includes('Land') && !keep.has(card.name.toLowerCase()))
+    .sort((a, b) => b.cmc - a.cmc || -compareNullable(a.edhrecRank, b.edhrecRank))
+    .slice(0, count);
+}
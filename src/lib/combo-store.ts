@@ -0,0 +1,296 @@
+import { and, asc, eq, gte, inArray, isNull, ne, or, sql } from 'drizzle-orm';
+import { db, combos, comboCards, userDecks, userDeckCombos } from '@/lib/db';
+import type {
+  Combo,
+  ComboCategory,
+  ComboCheckResponse,
+  ComboZone,
+  DeckCombo,
+  PotentialCombo,
+  SavedComboState,
+  StoredComboResults,
+} from '@/types';
+
+/**
+ * Commander Spellbook results kept in Postgres: every combo seen goes into
+ * `combos`/`combo_cards`, and the latest check for a saved deck is linked
+ * through `user_deck_combos`, which also holds the user's favourites and notes.
+ */
+
+export interface ComboStateUpdate {
+  isFavorited?: boolean;
+  notes?: string | null;
+}
+
+const excluded = (column: { name: string }) => sql.raw(`excluded.${column.name}`);
+
+/**
+ * Upsert combos by Spellbook id and rewrite their card lists.
+ * Returns the row id for each Spellbook id.
+ */
+export async function saveCombos(comboList: Combo[]): Promise<Map<string, string>> {
+  const unique = [...new Map(comboList.map((combo) => [combo.id, combo])).values()];
+  if (unique.length === 0) return new Map();
+
+  const rows = await db
+    .insert(combos)
+    .values(
+      unique.map((combo) => ({
+        spellbookId: combo.id,
+        name: combo.name ?? null,
+        description: combo.description,
+        prerequisite: combo.prerequisite ?? null,
+        prerequisites: combo.prerequisites ?? null,
+        manaNeeded: combo.manaNeeded ?? null,
+        result: combo.result,
+        produces: combo.produces ?? null,
+        colorIdentity: combo.colorIdentity,
+        steps: combo.steps,
+        sourceUrl: combo.sourceUrl ?? null,
+      }))
+    )
+    .onConflictDoUpdate({
+      target: combos.spellbookId,
+      set: {
+        name: excluded(combos.name),
+        description: excluded(combos.description),
+        prerequisite: excluded(combos.prerequisite),
+        prerequisites: excluded(combos.prerequisites),
+        manaNeeded: excluded(combos.manaNeeded),
+        result: excluded(combos.result),
+        produces: excluded(combos.produces),
+        colorIdentity: excluded(combos.colorIdentity),
+        steps: excluded(combos.steps),
+        sourceUrl: excluded(combos.sourceUrl),
+        cachedAt: sql`now()`,
+      },
+    })
+    .returning({ id: combos.id, spellbookId: combos.spellbookId });
+
+  const ids = new Map(rows.map((row) => [row.spellbookId!, row.id]));
+
+  // Upserted in place rather than cleared and re-inserted, so concurrent saves of the same combo don't collide
+  await db
+    .insert(comboCards)
+    .values(
+      unique.flatMap((combo) =>
+        combo.cards.map((cardName, position) => {
+          const requirement = combo.requirements?.[position];
+          return {
+            comboId: ids.get(combo.id)!,
+            position,
+            cardName,
+            oracleId: combo.cardOracleIds?.[position] ?? null,
+            zones: requirement?.zones ?? null,
+            cardState: requirement?.state ?? null,
+            mustBeCommander: !!requirement?.mustBeCommander,
+          };
+        })
+      )
+    )
+    .onConflictDoUpdate({
+      target: [comboCards.comboId, comboCards.position],
+      set: {
+        cardName: excluded(comboCards.cardName),
+        oracleId: excluded(comboCards.oracleId),
+        zones: excluded(comboCards.zones),
+        cardState: excluded(comboCards.cardState),
+        mustBeCommander: excluded(comboCards.mustBeCommander),
+      },
+    });
+
+  // Trim positions past the end, in case a combo's card list got shorter
+  const idsByLength = new Map<number, string[]>();
+  for (const combo of unique) {
+    const list = idsByLength.get(combo.cards.length) ?? [];
+    list.push(ids.get(combo.id)!);
+    idsByLength.set(combo.cards.length, list);
+  }
+  await db
+    .delete(comboCards)
+    .where(
+      or(
+        ...[...idsByLength].map(([length, comboIds]) =>
+          and(inArray(comboCards.comboId, comboIds), gte(comboCards.position, length))
+        )
+      )
+    );
+
+  return ids;
+}
+
+/**
+ * Store a check's results against a saved deck. Combos that dropped out are
+ * removed unless the user favourited them or wrote notes, so those come back
+ * intact if the combo returns to the deck.
+ */
+export async function saveDeckComboResults(
+  deckId: string,
+  keys: { fingerprint: string; cacheKey: string },
+  result: ComboCheckResponse
+): Promise<StoredComboResults> {
+  const deckCombos = [...result.combos, ...result.differentCommanderCombos];
+  const potentials = [...result.potentialCombos, ...result.extraColorCombos].filter((potential) => potential.combo);
+  const ids = await saveCombos([
+    ...deckCombos.map((deckCombo) => deckCombo.combo),
+    ...potentials.map((potential) => potential.combo!),
+  ]);
+
+  const checkedAt = result.checkedAt ? new Date(result.checkedAt) : new Date();
+  const links = [
+    ...deckCombos.map((deckCombo) => ({
+      comboId: ids.get(deckCombo.combo.id)!,
+      category: deckCombo.category,
+      isComplete: deckCombo.isComplete,
+      missingCards: deckCombo.missingCards,
+    })),
+    ...potentials.map((potential) => ({
+      comboId: ids.get(potential.combo!.id)!,
+      category: potential.category,
+      isComplete: false,
+      missingCards: potential.missingPieces,
+    })),
+  ];
+
+  if (links.length > 0) {
+    await db
+      .insert(userDeckCombos)
+      .values(links.map((link) => ({ ...link, deckId, detectedAt: checkedAt })))
+      .onConflictDoUpdate({
+        target: [userDeckCombos.deckId, userDeckCombos.comboId],
+        set: {
+          category: excluded(userDeckCombos.category),
+          isComplete: excluded(userDeckCombos.isComplete),
+          missingCards: excluded(userDeckCombos.missingCards),
+          detectedAt: excluded(userDeckCombos.detectedAt),
+        },
+      });
+  }
+
+  await db
+    .delete(userDeckCombos)
+    .where(
+      and(
+        eq(userDeckCombos.deckId, deckId),
+        ne(userDeckCombos.detectedAt, checkedAt),
+        or(isNull(userDeckCombos.isFavorited), eq(userDeckCombos.isFavorited, false)),
+        or(isNull(userDeckCombos.notes), eq(userDeckCombos.notes, ''))
+      )
+    );
+
+  await db
+    .update(userDecks)
+    .set({ comboFingerprint: keys.fingerprint, comboCacheKey: keys.cacheKey, combosCheckedAt: checkedAt })
+    .where(eq(userDecks.id, deckId));
+
+  return (await getDeckComboResults(deckId))!;
+}
+
+// The combos from the deck's latest check, or null if it has never been checked
+export async function getDeckComboResults(deckId: string): Promise<StoredComboResults | null> {
+  const [deck] = await db
+    .select({ fingerprint: userDecks.comboFingerprint, checkedAt: userDecks.combosCheckedAt })
+    .from(userDecks)
+    .where(eq(userDecks.id, deckId))
+    .limit(1);
+
+  if (!deck?.fingerprint || !deck.checkedAt) return null;
+
+  const links = await db
+    .select({ link: userDeckCombos, combo: combos })
+    .from(userDeckCombos)
+    .innerJoin(combos, eq(userDeckCombos.comboId, combos.id))
+    .where(and(eq(userDeckCombos.deckId, deckId), eq(userDeckCombos.detectedAt, deck.checkedAt)));
+
+  const cardRows = links.length > 0
+    ? await db
+        .select()
+        .from(comboCards)
+        .where(inArray(comboCards.comboId, links.map(({ combo }) => combo.id)))
+        .orderBy(asc(comboCards.position))
+    : [];
+
+  const cardsByCombo = new Map<string, typeof cardRows>();
+  for (const row of cardRows) {
+    const rows = cardsByCombo.get(row.comboId) ?? [];
+    rows.push(row);
+    cardsByCombo.set(row.comboId, rows);
+  }
+
+  const deckCombos: DeckCombo[] = [];
+  const potentialCombos: PotentialCombo[] = [];
+
+  for (const { link, combo: row } of links) {
+    const cards = cardsByCombo.get(row.id) ?? [];
+    const combo: Combo = {
+      id: row.spellbookId ?? row.id,
+      name: row.name ?? undefined,
+      cards: cards.map((card) => card.cardName),
+      description: row.description ?? '',
+      prerequisite: row.prerequisite ?? undefined,
+      steps: row.steps ?? [],
+      result: row.result ?? '',
+      colorIdentity: row.colorIdentity ?? [],
+      sourceUrl: row.sourceUrl ?? undefined,
+      cardOracleIds: cards.map((card) => card.oracleId),
+      requirements: cards.map((card) => ({
+        name: card.cardName,
+        zones: (card.zones ?? []) as ComboZone[],
+        state: card.cardState ?? undefined,
+        mustBeCommander: card.mustBeCommander || undefined,
+      })),
+      prerequisites: row.prerequisites ?? undefined,
+      manaNeeded: row.manaNeeded ?? undefined,
+      produces: row.produces ?? undefined,
+    };
+    const saved: SavedComboState = { id: link.id, isFavorited: !!link.isFavorited, notes: link.notes };
+
+    // Rows stored before categories existed only know whether they were complete
+    const category = (link.category as ComboCategory | null) ?? (link.isComplete ? 'complete' : 'one-card-away');
+    const missingCards = link.missingCards ?? [];
+    const missing = new Set(missingCards.map((name) => name.toLowerCase()));
+    const presentCards = combo.cards.filter((name) => !missing.has(name.toLowerCase()));
+
+    if (category === 'complete' || category === 'different-commander') {
+      deckCombos.push({ combo, category, isComplete: category === 'complete', presentCards, missingCards, saved });
+    } else {
+      potentialCombos.push({
+        category,
+        cards: presentCards,
+        missingPieces: missingCards,
+        description: combo.result,
+        sourceUrl: combo.sourceUrl,
+        combo,
+        saved,
+      });
+    }
+  }
+
+  // Favourites first
+  const byFavorite = (a: { saved?: SavedComboState }, b: { saved?: SavedComboState }) =>
+    Number(!!b.saved?.isFavorited) - Number(!!a.saved?.isFavorited);
+
+  return {
+    fingerprint: deck.fingerprint,
+    checkedAt: deck.checkedAt.toISOString(),
+    combos: deckCombos.filter((dc) => dc.category === 'complete').sort(byFavorite),
+    potentialCombos: potentialCombos.filter((pc) => pc.category === 'one-card-away').sort(byFavorite),
+    differentCommanderCombos: deckCombos.filter((dc) => dc.category === 'different-commander').sort(byFavorite),
+    extraColorCombos: potentialCombos.filter((pc) => pc.category === 'extra-colors').sort(byFavorite),
+  };
+}
+
+// Returns null when the combo isn't linked to the deck
+export async function updateDeckComboState(
+  deckId: string,
+  deckComboId: string,
+  update: ComboStateUpdate
+): Promise<SavedComboState | null> {
+  const [row] = await db
+    .update(userDeckCombos)
+    .set(update)
+    .where(and(eq(userDeckCombos.id, deckComboId), eq(userDeckCombos.deckId, deckId)))
+    .returning({ id: userDeckCombos.id, isFavorited: userDeckCombos.isFavorited, notes: userDeckCombos.notes });
+
+  return row ? { id: row.id, isFavorited: !!row.isFavorited, notes: row.notes } : null;
+}
@@ -0,0 +1,232 @@
+import { combineColorIdentity, type Card, type Deck, type DeckCard } from '@/types';
+
+export type CommanderPairing =
+  | 'none'
+  | 'single'
+  | 'partner'
+  | 'partner-with'
+  | 'friends-forever'
+  | 'background'
+  | 'doctors-companion';
+
+export const COMMANDER_PAIRING_NAMES: Record<CommanderPairing, string> = {
+  none: 'No commander',
+  single: 'Commander',
+  partner: 'Partners',
+  'partner-with': 'Partner with',
+  'friends-forever': 'Friends forever',
+  background: 'Commander + Background',
+  'doctors-companion': "Doctor + Doctor's companion",
+};
+
+type PairingAbility =
+  | { kind: 'partner'; group?: string }
+  | { kind: 'partner-with'; partner: string }
+  | { kind: 'friends-forever' }
+  | { kind: 'choose-background' }
+  | { kind: 'doctors-companion' };
+
+export interface CommanderAnalysis {
+  pairing: CommanderPairing;
+  colorIdentity: string[];
+  // Companion in the sideboard, if any
+  companion?: Card;
+  errors: string[];
+}
+
+function frontName(name: string): string {
+  return name.split(' // ')[0].trim().toLowerCase();
+}
+
+function frontTypeLine(card: Card): string {
+  return card.typeLine.split(' // ')[0];
+}
+
+function rulesText(card: Card): string {
+  return card.cardFaces?.map((face) => face.oracleText || '').join('\n') || card.oracleText || '';
+}
+
+/**
+ * Read a card's pairing keyword from its oracle text. Reminder text is
+ * ignored, and "Partner—Group" variants only pair within the same group.
+ */
+function getPairingAbility(card: Card): PairingAbility | null {
+  const text = rulesText(card);
+
+  const partnerWith = text.match(/^Partner with ([^(\n]+?)\s*(?:\(|$)/m);
+  if (partnerWith) return { kind: 'partner-with', partner: frontName(partnerWith[1]) };
+
+  const partnerGroup = text.match(/^Partner\s*—\s*([^(\n]+?)\s*(?:\(|$)/m);
+  if (partnerGroup) return { kind: 'partner', group: partnerGroup[1].toLowerCase() };
+
+  if (/^Partner\s*(?:\(|$)/m.test(text)) return { kind: 'partner' };
+  if (/^Friends forever\s*(?:\(|$)/m.test(text)) return { kind: 'friends-forever' };
+  if (/^Choose a Background\s*(?:\(|$)/m.test(text)) return { kind: 'choose-background' };
+  if (/^Doctor's companion\s*(?:\(|$)/m.test(text)) return { kind: 'doctors-companion' };
+
+  return null;
+}
+
+export function canBeCommander(card: Card): boolean {
+  const typeLine = frontTypeLine(card);
+  return (
+    (typeLine.includes('Legendary') && typeLine.includes('Creature')) ||
+    /can be your commander/i.test(rulesText(card))
+  );
+}
+
+export function isBackground(card: Card): boolean {
+  return /—.*\bBackground\b/.test(frontTypeLine(card));
+}
+
+// Doctor's companion pairs with a Time Lord Doctor that has no other creature types
+function isDoctor(card: Card): boolean {
+  return canBeCommander(card) && /—\s*Time Lord Doctor\s*$/.test(frontTypeLine(card));
+}
+
+export function isCompanion(card: Card): boolean {
+  return card.keywords.includes('Companion') || /^Companion\s*—/m.test(rulesText(card));
+}
+
+// How two cards share the command zone, or null if they can't
+function getPairing(a: Card, b: Card): CommanderPairing | null {
+  const abilityA = getPairingAbility(a);
+  const abilityB = getPairingAbility(b);
+
+  for (const [first, second, ability] of [
+    [a, b, abilityA],
+    [b, a, abilityB],
+  ] as const) {
+    if (ability?.kind === 'choose-background' && isBackground(second) && canBeCommander(first)) {
+      return 'background';
+    }
+    if (ability?.kind === 'doctors-companion' && canBeCommander(first) && isDoctor(second)) {
+      return 'doctors-companion';
+    }
+  }
+
+  if (!canBeCommander(a) || !canBeCommander(b)) return null;
+
+  if (
+    abilityA?.kind === 'partner-with' &&
+    abilityB?.kind === 'partner-with' &&
+    abilityA.partner === frontName(b.name) &&
+    abilityB.partner === frontName(a.name)
+  ) {
+    return 'partner-with';
+  }
+  if (abilityA?.kind === 'partner' && abilityB?.kind === 'partner' && abilityA.group === abilityB.group) {
+    return 'partner';
+  }
+  if (abilityA?.kind === 'friends-forever' && abilityB?.kind === 'friends-forever') {
+    return 'friends-forever';
+  }
+
+  return null;
+}
+
+function validateCommanders(commanders: Card[]): { pairing: CommanderPairing; errors: string[] } {
+  if (commanders.length === 0) {
+    return { pairing: 'none', errors: [] };
+  }
+
+  if (commanders.length === 1) {
+    const [commander] = commanders;
+    return canBeCommander(commander)
+      ? { pairing: 'single', errors: [] }
+      : { pairing: 'single', errors: [`${commander.name} can't be a commander on its own`] };
+  }
+
+  if (commanders.length > 2) {
+    return { pairing: 'none', errors: ['A deck can have at most two commanders'] };
+  }
+
+  const [a, b] = commanders;
+  const pairing = getPairing(a, b);
+  return pairing
+    ? { pairing, errors: [] }
+    : { pairing: 'none', errors: [`${a.name} and ${b.name} can't be commanders together`] };
+}
+
+export function analyzeCommanders(deck: Deck): CommanderAnalysis {
+  const { pairing, errors } = validateCommanders(deck.commanders);
+  const companion = deck.sideboard.find((dc) => dc.quantity === 1 && isCompanion(dc.card))?.card;
+
+  return {
+    pairing,
+    colorIdentity: combineColorIdentity(deck.commanders),
+    ...(companion && { companion }),
+    errors,
+  };
+}
+
+/**
+ * Deck lists only say which cards sit in the command zone by position, so fix
+ * up what the parser guessed using the cards' rules: move companions to the
+ * sideboard, drop cards that can't be commanders, and pull in a missing
+ * partner or Background. Only applies to Commander decks.
+ */
+export function normalizeCommandZone(deck: Deck): { deck: Deck; warnings: string[] } {
+  if (deck.format !== 'commander') {
+    return { deck, warnings: [] };
+  }
+
+  const warnings: string[] = [];
+  let commanders = [...deck.commanders];
+  const mainboard = [...deck.mainboard];
+  const sideboard = [...deck.sideboard];
+
+  // Cards that can never share the command zone go back to the deck
+  for (const card of commanders.filter((c) => !canBeCommander(c) && !isBackground(c))) {
+    commanders = commanders.filter((c) => c !== card);
+    mainboard.push({ card, quantity: 1, board: 'mainboard' });
+    warnings.push(`${card.name} can't be a commander, moved to the mainboard`);
+  }
+
+  // A companion listed with the commanders belongs in the sideboard
+  if (validateCommanders(commanders).errors.length > 0) {
+    const companion = commanders.find(
+      (c) => isCompanion(c) && validateCommanders(commanders.filter((other) => other !== c)).errors.length === 0
+    );
+    if (companion) {
+      commanders = commanders.filter((c) => c !== companion);
+      sideboard.push({ card: companion, quantity: 1, board: 'sideboard' });
+      warnings.push(`Moved ${companion.name} to the sideboard as the deck's companion`);
+    }
+  }
+
+  // A lone commander whose partner or Background was listed elsewhere
+  if (commanders.length === 1) {
+    const [commander] = commanders;
+    const ability = getPairingAbility(commander);
+    const pairsWith = (card: Card) => card.id !== commander.id && getPairing(commander, card) !== null;
+    const unique = (board: DeckCard[]) => {
+      const found = board.filter((dc) => dc.quantity === 1 && pairsWith(dc.card));
+      return found.length === 1 ? found[0] : undefined;
+    };
+
+    // Only a named partner or a Background is unambiguous enough to pull out of the main deck
+    const searchMainboard =
+      ability?.kind === 'partner-with' ||
+      ability?.kind === 'choose-background' ||
+      isBackground(commander);
+    const fromSideboard = unique(sideboard);
+    const fromMainboard = !fromSideboard && searchMainboard ? unique(mainboard) : undefined;
+    const partner = fromSideboard || fromMainboard;
+
+    if (partner) {
+      const board = fromSideboard ? sideboard : mainboard;
+      board.splice(board.indexOf(partner), 1);
+      // Keep the Background second, matching how it's usually listed
+      commanders = isBackground(commander) ? [partner.card, commander] : [commander, partner.card];
+      warnings.push(`Moved ${partner.card.name} to the command zone alongside ${commander.name}`);
+    }
+  }
+
+  warnings.push(...validateCommanders(commanders).errors);
+
+  return {
+    deck: { ...deck, commanders, mainboard, sideboard },
+    warnings,
+  };
+}
@@ -0,0 +1,84 @@
+import { getCardsInBulk } from '@/lib/clients/scryfall';
+import { combineColorIdentity, type Card, type DeckCard } from '@/types';
+
+/**
+ * User-defined combos on a saved deck. Card names are resolved against
+ * Scryfall on save, and on read each combo is checked against the deck's
+ * stored card list so combos whose pieces were cut show up as broken.
+ */
+
+export interface SavedDeckData {
+  commanders?: Card[];
+  mainboard?: DeckCard[];
+  sideboard?: DeckCard[];
+}
+
+export interface ResolvedComboCards {
+  // Canonical Oracle names, in the order given
+  cardNames: string[];
+  cardIds: string[];
+  colorIdentity: string[];
+  notFound: string[];
+}
+
+export interface CustomComboStatus {
+  // Pieces the saved deck no longer has
+  missingCards: string[];
+  isBroken: boolean;
+}
+
+// Double-faced and split cards can be named by their front face
+function nameKeys(name: string): string[] {
+  const full = name.trim().toLowerCase();
+  const front = full.split('//')[0].trim();
+  return front === full ? [full] : [full, front];
+}
+
+export async function resolveComboCards(names: string[]): Promise<ResolvedComboCards> {
+  const unique = [...new Map(names.map((name) => [name.trim().toLowerCase(), name.trim()])).values()];
+  const { cards } = await getCardsInBulk(unique.map((name) => ({ name })));
+
+  const byName = new Map<string, Card>();
+  for (const card of cards) {
+    for (const key of nameKeys(card.name)) {
+      if (!byName.has(key)) byName.set(key, card);
+    }
+  }
+
+  const resolved: Card[] = [];
+  const notFound: string[] = [];
+  for (const name of unique) {
+    const card = byName.get(name.toLowerCase());
+    if (!card) {
+      notFound.push(name);
+    } else if (!resolved.some((other) => other.oracleId === card.oracleId)) {
+      resolved.push(card);
+    }
+  }
+
+  return {
+    cardNames: resolved.map((card) => card.name),
+    cardIds: resolved.map((card) => card.id),
+    colorIdentity: combineColorIdentity(resolved),
+    notFound,
+  };
+}
+
+// Lowercased names (and front faces) of every card in a saved deck
+export function getSavedDeckCardNames(deckData: unknown): Set<string> {
+  const data = (deckData || {}) as SavedDeckData;
+  const names = new Set<string>();
+  const cards = [
+    ...(data.commanders || []),
+    ...[...(data.mainboard || []), ...(data.sideboard || [])].map((dc) => dc.card),
+  ];
+  for (const card of cards) {
+    for (const key of nameKeys(card.name)) names.add(key);
+  }
+  return names;
+}
+
+export function getCustomComboStatus(cardNames: string[], deckCardNames: Set<string>): CustomComboStatus {
+  const missingCards = cardNames.filter((name) => !deckCardNames.has(name.trim().toLowerCase()));
+  return { missingCards, isBroken: missingCards.length > 0 };
+}
@@ -8,8 +8,13 @@ import {
   boolean,
   jsonb,
   decimal,
+  date,
+  index,
+  uniqueIndex,
   primaryKey,
 } from 'drizzle-orm/pg-core';
+import { sql } from 'drizzle-orm';
+import type { CardFace, CardPrices, PriceKey } from '../../types/card';
 
 // ============================================
 // CARD DATA CACHE (from Scryfall)
@@ -32,16 +37,41 @@ export const cards = pgTable('cards', {
     large?: string;
     artCrop?: string;
   }>(),
-  prices: jsonb('prices').$type<{ usd?: string; eur?: string }>(),
+  prices: jsonb('prices').$type<CardPrices>(),
   scryfallUri: varchar('scryfall_uri', { length: 500 }),
   edhrecRank: integer('edhrec_rank'),
+  gameChanger: boolean('game_changer'),
   setCode: varchar('set_code', { length: 10 }),
   setName: varchar('set_name', { length: 255 }),
   collectorNumber: varchar('collector_number', { length: 20 }),
   rarity: varchar('rarity', { length: 20 }),
   layout: varchar('layout', { length: 50 }),
+  cardFaces: jsonb('card_faces').$type<CardFace[]>(),
+  releasedAt: date('released_at'),
+  // Loaded by the bulk ingest rather than cached from a single API lookup
+  fromBulkData: boolean('from_bulk_data').notNull().default(false),
   cachedAt: timestamp('cached_at', { withTimezone: true }).defaultNow(),
-});
+}, (table) => ({
+  // Name lookups match the front face case-insensitively, like Scryfall's named endpoint
+  nameIdx: index('cards_face_name_idx').on(sql`lower(split_part(${table.name}, ' // ', 1))`),
+  printingIdx: index('cards_printing_idx').on(table.setCode, table.collectorNumber),
+}));
+
+// ============================================
+// PRICE HISTORY (daily snapshots of cards in saved decks)
+// ============================================
+export const cardPriceHistory = pgTable('card_price_history', {
+  // Scryfall printing id, not a reference: snapshots outlive cached card rows
+  cardId: uuid('card_id').notNull(),
+  snapshotDate: date('snapshot_date').notNull(),
+  usd: decimal('usd', { precision: 10, scale: 2 }),
+  usdFoil: decimal('usd_foil', { precision: 10, scale: 2 }),
+  eur: decimal('eur', { precision: 10, scale: 2 }),
+  tix: decimal('tix', { precision: 10, scale: 2 }),
+  recordedAt: timestamp('recorded_at', { withTimezone: true }).defaultNow(),
+}, (table) => ({
+  pk: primaryKey({ columns: [table.cardId, table.snapshotDate] }),
+}));
 
 // ============================================
 // SESSION-BASED TEMPORARY STORAGE
@@ -83,31 +113,45 @@ export const sessionDeckCards = pgTable('session_deck_cards', {
 });
 
 // ============================================
-// COMBO DATA (from EDHREC)
+// COMBO DATA (from EDHREC and Commander Spellbook)
 // ============================================
 export const combos = pgTable('combos', {
   id: uuid('id').primaryKey().defaultRandom(),
   edhrecId: varchar('edhrec_id', { length: 100 }).unique(),
+  spellbookId: varchar('spellbook_id', { length: 100 }).unique(),
   name: varchar('name', { length: 255 }),
   description: text('description'),
+  prerequisite: text('prerequisite'),
+  prerequisites: text('prerequisites').array(),
+  manaNeeded: text('mana_needed'),
   result: text('result'),
+  produces: text('produces').array(),
   colorIdentity: text('color_identity').array(),
   steps: text('steps').array(),
   sourceUrl: varchar('source_url', { length: 500 }),
   cachedAt: timestamp('cached_at', { withTimezone: true }).defaultNow(),
 });
 
+// Cards in a combo, in the order the source lists them
 export const comboCards = pgTable(
   'combo_cards',
   {
     comboId: uuid('combo_id')
       .notNull()
       .references(() => combos.id, { onDelete: 'cascade' }),
-    oracleId: uuid('oracle_id').notNull(),
+    position: integer('position').notNull(),
+    cardName: varchar('card_name', { length: 255 }).notNull(),
+    // Missing when the source doesn't give one
+    oracleId: uuid('oracle_id'),
     isRequired: boolean('is_required').default(true),
+    // ComboZone values, any of which will do
+    zones: text('zones').array(),
+    cardState: text('card_state'),
+    mustBeCommander: boolean('must_be_commander').default(false),
   },
   (table) => ({
-    pk: primaryKey({ columns: [table.comboId, table.oracleId] }),
+    pk: primaryKey({ columns: [table.comboId, table.position] }),
+    oracleIdx: index('combo_cards_oracle_idx').on(table.oracleId),
   })
 );
 
@@ -138,7 +182,7 @@ export const users = pgTable('users', {
   moxfieldUsername: varchar('moxfield_username', { length: 100 }),
   createdAt: timestamp('created_at', { withTimezone: true }).defaultNow(),
   lastLoginAt: timestamp('last_login_at', { withTimezone: true }),
-  preferences: jsonb('preferences').$type<{ theme?: string }>(),
+  preferences: jsonb('preferences').$type<{ theme?: string; priceKey?: PriceKey }>(),
 });
 
 export const userDecks = pgTable('user_decks', {
@@ -152,6 +196,11 @@ export const userDecks = pgTable('user_decks', {
   format: varchar('format', { length: 50 }).default('commander'),
   commanderIds: uuid('commander_ids').array(),
   isPublic: boolean('is_public').default(false),
+  // Card list the stored combo results were detected for (the browser's marker
+  // and the server's SHA-256 key), and when
+  comboFingerprint: varchar('combo_fingerprint', { length: 64 }),
+  comboCacheKey: varchar('combo_cache_key', { length: 64 }),
+  combosCheckedAt: timestamp('combos_checked_at', { withTimezone: true }),
   viewCount: integer('view_count').default(0),
   createdAt: timestamp('created_at', { withTimezone: true }).defaultNow(),
   lastModifiedAt: timestamp('last_modified_at', { withTimezone: true }).defaultNow(),
@@ -181,10 +230,17 @@ export const userDeckCombos = pgTable('user_deck_combos', {
     .notNull()
     .references(() => combos.id),
   isComplete: boolean('is_complete').default(false),
-  missingCards: uuid('missing_cards').array(),
+  // ComboCategory the combo was detected in
+  category: varchar('category', { length: 30 }),
+  // Names of the pieces the deck is missing
+  missingCards: text('missing_cards').array(),
   isFavorited: boolean('is_favorited').default(false),
   notes: text('notes'),
-});
+  // Matches the deck's combosCheckedAt while the combo is still detected
+  detectedAt: timestamp('detected_at', { withTimezone: true }).defaultNow(),
+}, (table) => ({
+  deckComboIdx: uniqueIndex('user_deck_combos_deck_combo_idx').on(table.deckId, table.comboId),
+}));
 
 // ============================================
 // CUSTOM COMBOS (User-created, deck-specific)
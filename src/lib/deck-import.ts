@@ -0,0 +1,536 @@
+import { nanoid } from 'nanoid';
+import { getCardsInBulk, getCardByFuzzyName, getCheapestPrices } from '@/lib/clients/scryfall';
+import { parseDeckList, type ParsedCard } from '@/lib/deck-parser';
+import { normalizeCommandZone } from '@/lib/commander-rules';
+import type { ImportProgressReporter } from '@/lib/import-stream';
+import {
+  calculateDeckStats,
+  DECK_SOURCE_NAMES,
+  type Card,
+  type Deck,
+  type DeckCard,
+  type DeckListFormat,
+  type DeckStats,
+  type ImportReviewItem,
+  type SourceDeck,
+  type SourceDeckCard,
+} from '@/types';
+
+export class DeckImportError extends Error {
+  constructor(
+    public code: string,
+    message: string,
+    public status: number = 400
+  ) {
+    super(message);
+    this.name = 'DeckImportError';
+  }
+}
+
+// Fill in missing prices by looking up cheapest printings, one card at a time
+async function backfillPrices(cardsWithoutPrices: Card[], onProgress: ImportProgressReporter) {
+  if (cardsWithoutPrices.length === 0) return;
+
+  console.log(`Looking up prices for ${cardsWithoutPrices.length} cards without price data...`);
+  onProgress({ type: 'stage', stage: 'prices', total: cardsWithoutPrices.length });
+
+  for (const [index, card] of cardsWithoutPrices.entries()) {
+    const cheapest = await getCheapestPrices(card.name);
+    if (cheapest.usd !== undefined) {
+      // Only fill the gaps, so the printing's own EUR/tix prices win
+      card.prices = {
+        ...card.prices,
+        usd: cheapest.usd.toFixed(2),
+        eur: card.prices?.eur ?? cheapest.eur?.toFixed(2),
+        tix: card.prices?.tix ?? cheapest.tix?.toFixed(2),
+      };
+      console.log(`Set price for ${card.name}: $${card.prices.usd}`);
+    }
+    onProgress({
+      type: 'progress',
+      stage: 'prices',
+      current: index + 1,
+      total: cardsWithoutPrices.length,
+      card: card.name,
+    });
+  }
+}
+
+/**
+ * Apply the command zone rules and keep review items pointing at the board
+ * their matched card ended up on.
+ */
+function finalizeCommandZone(deck: Deck, review: ImportReviewItem[]): { deck: Deck; warnings: string[] } {
+  const result = normalizeCommandZone(deck);
+
+  const boardOf = (card: Card): DeckCard['board'] | undefined => {
+    if (result.deck.commanders.some((c) => c.id === card.id)) return 'commanders';
+    for (const board of ['mainboard', 'sideboard', 'maybeboard'] as const) {
+      if (result.deck[board].some((dc) => dc.card.id === card.id)) return board;
+    }
+    return undefined;
+  };
+
+  for (const item of review) {
+    const board = item.match && boardOf(item.match);
+    if (board) item.board = board;
+  }
+
+  return result;
+}
+
+export interface SourceDeckImport {
+  deck: Deck;
+  stats: DeckStats;
+  review: ImportReviewItem[];
+  warnings: string[];
+  info: string[];
+  // The not-found and converted summaries, which `review` covers line by line
+  reviewSummaries: string[];
+}
+
+/**
+ * Resolve a deck list fetched from a source site against Scryfall and build a Deck.
+ * Shared by URL import and re-syncing a saved deck with its upstream list.
+ */
+export async function buildDeckFromSource(
+  sourceDeck: SourceDeck,
+  onProgress: ImportProgressReporter = () => {}
+): Promise<SourceDeckImport> {
+  const cardEntries = sourceDeck.cards;
+
+  console.log(`=== DEBUG: ${DECK_SOURCE_NAMES[sourceDeck.source]} Import Summary ===`);
+  console.log('Total card entries:', cardEntries.length);
+  console.log('Commanders:', cardEntries.filter(e => e.board === 'commanders').map(e => e.name));
+
+  // Look up cards by Scryfall ID where the site provides one (more reliable than names)
+  const scryfallIds = [...new Set(
+    cardEntries.map((e) => e.scryfallId).filter((id): id is string => !!id)
+  )];
+  const namesWithoutId = [...new Set(
+    cardEntries.filter((e) => !e.scryfallId).map((e) => e.name)
+  )];
+  const lookupTotal = scryfallIds.length + namesWithoutId.length;
+  onProgress({ type: 'stage', stage: 'lookup', total: lookupTotal });
+
+  const [byId, byName] = await Promise.all([
+    scryfallIds.length > 0
+      ? getCardsInBulk(scryfallIds.map((id) => ({ id })))
+      : Promise.resolve({ cards: [] as Card[], notFound: [] as string[] }),
+    namesWithoutId.length > 0
+      ? getCardsInBulk(namesWithoutId.map((name) => ({ name })))
+      : Promise.resolve({ cards: [] as Card[], notFound: [] as string[] }),
+  ]);
+
+  console.log('Cards fetched from Scryfall:', byId.cards.length + byName.cards.length);
+  onProgress({ type: 'progress', stage: 'lookup', current: lookupTotal, total: lookupTotal });
+
+  const cardById = new Map(byId.cards.map((c) => [c.id, c]));
+  const cardByName = new Map<string, Card>();
+  for (const card of byName.cards) {
+    cardByName.set(card.name.toLowerCase(), card);
+    // Split/double-faced cards may be listed by their front face only
+    if (card.name.includes(' // ')) {
+      cardByName.set(card.name.split(' // ')[0].toLowerCase(), card);
+    }
+  }
+
+  // Resolve each entry to a card
+  const resolved = new Map<SourceDeckCard, Card>();
+  for (const entry of cardEntries) {
+    const card = entry.scryfallId
+      ? cardById.get(entry.scryfallId)
+      : cardByName.get(entry.name.toLowerCase());
+    if (card) {
+      resolved.set(entry, card);
+    }
+  }
+
+  // Fallback: fuzzy lookup for entries with missing IDs or names Scryfall didn't recognise
+  const missingEntries = cardEntries.filter((e) => !resolved.has(e));
+
+  // Track converted and not found cards
+  const convertedCards: Array<{ original: string; converted: string }> = [];
+  const notFoundCards: string[] = [];
+
+  if (missingEntries.length > 0) {
+    console.log('Attempting fuzzy lookup for missing cards:', missingEntries.map((e) => e.name));
+
+    // Cache fuzzy results so duplicate names are only looked up once
+    const fuzzyMatches = new Map<string, Card | null>();
+    const fuzzyTotal = new Set(missingEntries.map((e) => e.name.toLowerCase())).size;
+    onProgress({ type: 'stage', stage: 'fuzzy', total: fuzzyTotal });
+
+    for (const entry of missingEntries) {
+      const key = entry.name.toLowerCase();
+      if (!fuzzyMatches.has(key)) {
+        const result = await getCardByFuzzyName(entry.name);
+        fuzzyMatches.set(key, result?.card || null);
+        if (result) {
+          console.log(`Fuzzy match: "${entry.name}" -> "${result.card.name}"`);
+          convertedCards.push({ original: entry.name, converted: result.card.name });
+        } else {
+          console.warn(`Could not find card: "${entry.name}"`);
+          notFoundCards.push(entry.name);
+          onProgress({ type: 'warning', message: `Card not found: ${entry.name}` });
+        }
+        onProgress({
+          type: 'progress',
+          stage: 'fuzzy',
+          current: fuzzyMatches.size,
+          total: fuzzyTotal,
+          card: entry.name,
+        });
+      }
+
+      const match = fuzzyMatches.get(key);
+      if (match) {
+        resolved.set(entry, match);
+      }
+    }
+  }
+
+  // Fill in missing prices by looking up cheapest printings
+  const cardsWithoutPrices = Array.from(new Set(resolved.values())).filter(
+    (card) => !card.prices?.usd
+  );
+
+  await backfillPrices(cardsWithoutPrices, onProgress);
+
+  // Lines the user should confirm: not found, or resolved by fuzzy match
+  const fuzzyEntries = new Set(missingEntries);
+  const review: ImportReviewItem[] = [];
+  for (const [index, entry] of cardEntries.entries()) {
+    if (!fuzzyEntries.has(entry)) continue;
+
+    const match = resolved.get(entry);
+    review.push({
+      id: `line-${index}`,
+      name: entry.name,
+      quantity: entry.quantity,
+      board: entry.board,
+      status: match ? 'converted' : 'not-found',
+      match,
+    });
+  }
+
+  const commanders = cardEntries
+    .filter((e) => e.board === 'commanders')
+    .map((entry) => resolved.get(entry))
+    .filter((c): c is NonNullable<typeof c> => c !== undefined);
+
+  const buildDeckCards = (board: DeckCard['board']): DeckCard[] => {
+    return cardEntries
+      .filter((e) => e.board === board)
+      .map((entry) => {
+        const card = resolved.get(entry);
+        if (!card) {
+          return null;
+        }
+        return {
+          card,
+          quantity: entry.quantity,
+          board,
+          ...(entry.categories && { categories: entry.categories }),
+        };
+      })
+      .filter((c): c is NonNullable<typeof c> => c !== null);
+  };
+
+  const { deck, warnings: commandZoneWarnings } = finalizeCommandZone({
+    id: nanoid(),
+    name: sourceDeck.name,
+    description: sourceDeck.description,
+    format: (sourceDeck.format as Deck['format']) || 'commander',
+    commanders,
+    mainboard: buildDeckCards('mainboard'),
+    sideboard: buildDeckCards('sideboard'),
+    maybeboard: buildDeckCards('maybeboard'),
+    source: sourceDeck.source,
+    sourceUrl: sourceDeck.url,
+    ...(sourceDeck.source === 'moxfield' && {
+      moxfieldId: sourceDeck.id,
+      moxfieldUrl: sourceDeck.url,
+    }),
+    importedAt: new Date().toISOString(),
+    lastModifiedAt: new Date().toISOString(),
+  }, review);
+
+  const stats = calculateDeckStats(deck);
+
+  // Build appropriate warnings/info
+  const warnings: string[] = [...commandZoneWarnings];
+  const info: string[] = [];
+
+  const reviewSummaries: string[] = [];
+
+  // Cards converted from alternate printings (fuzzy matched)
+  if (convertedCards.length > 0) {
+    const summary = `${convertedCards.length} card${convertedCards.length > 1 ? 's' : ''} converted to original printing: ${convertedCards.map((c) => `${c.original} → ${c.converted}`).join(', ')}`;
+    info.push(summary);
+    reviewSummaries.push(summary);
+  }
+
+  // Cards truly not found
+  if (notFoundCards.length > 0) {
+    const summary = `${notFoundCards.length} card${notFoundCards.length > 1 ? 's' : ''} not found: ${notFoundCards.join(', ')}`;
+    warnings.push(summary);
+    reviewSummaries.push(summary);
+  }
+
+  return { deck, stats, review, warnings, info, reviewSummaries };
+}
+
+export interface TextDeckImport extends SourceDeckImport {
+  detectedFormat: DeckListFormat;
+}
+
+/**
+ * Parse a pasted deck list and resolve it against Scryfall.
+ * Throws DeckImportError when the list has no usable cards.
+ */
+export async function buildDeckFromText(
+  deckText: string,
+  deckName?: string,
+  onProgress: ImportProgressReporter = () => {}
+): Promise<TextDeckImport> {
+  onProgress({ type: 'stage', stage: 'parsing' });
+
+  // Parse the deck list, detecting which export format it came from
+  const { format: detectedFormat, cards: parsedCards, name: parsedName } = parseDeckList(deckText);
+
+  if (parsedCards.length === 0) {
+    throw new DeckImportError('NO_CARDS', 'No valid cards found in deck list');
+  }
+
+  // Get unique printings and card names for Scryfall lookup
+  const printingKey = (setCode: string, collectorNumber: string) =>
+    `${setCode.toLowerCase()}:${collectorNumber.toLowerCase()}`;
+
+  const uniquePrintings = new Map<string, ParsedCard>();
+  const uniqueNames = new Set<string>();
+  for (const parsed of parsedCards) {
+    if (parsed.setCode && parsed.collectorNumber) {
+      uniquePrintings.set(printingKey(parsed.setCode, parsed.collectorNumber), parsed);
+    } else {
+      uniqueNames.add(parsed.name);
+    }
+  }
+
+  // Fetch card data from Scryfall; exact printings fall back to name if unknown
+  const lookupTotal = uniquePrintings.size + uniqueNames.size;
+  onProgress({ type: 'stage', stage: 'lookup', total: lookupTotal });
+  const { cards, notFound, downgraded } = await getCardsInBulk([
+    ...[...uniquePrintings.values()].map((p) => ({
+      name: p.name,
+      set: p.setCode,
+      collector_number: p.collectorNumber,
+    })),
+    ...[...uniqueNames].map((name) => ({ name })),
+  ]);
+
+  if (cards.length === 0) {
+    throw new DeckImportError('NO_CARDS_FOUND', 'None of the cards could be found');
+  }
+
+  onProgress({ type: 'progress', stage: 'lookup', current: lookupTotal, total: lookupTotal });
+  if (downgraded.length > 0) {
+    onProgress({ type: 'warning', message: `Printing not found, using default: ${downgraded.join(', ')}` });
+  }
+
+  console.log('=== DEBUG: Text Import ===');
+  console.log('Detected format:', detectedFormat);
+  console.log('Parsed cards:', parsedCards.length);
+  console.log('Unique printings:', uniquePrintings.size);
+  console.log('Unique names:', uniqueNames.size);
+  console.log('Cards from Scryfall:', cards.length);
+  console.log('Not found:', notFound);
+  console.log('Downgraded printings:', downgraded);
+
+  // Build card lookup map with multiple name variations
+  const cardMap = new Map<string, typeof cards[0]>();
+  const printingMap = new Map<string, typeof cards[0]>();
+  for (const card of cards) {
+    printingMap.set(printingKey(card.setCode, card.collectorNumber), card);
+
+    // Map by exact Scryfall name (lowercase)
+    cardMap.set(card.name.toLowerCase(), card);
+
+    // For split/double-faced cards (e.g., "Dead // Gone"), also map by variations
+    if (card.name.includes(' // ')) {
+      const [firstHalf, secondHalf] = card.name.split(' // ');
+      // Map by first half only
+      cardMap.set(firstHalf.toLowerCase(), card);
+      // Map by second half only
+      cardMap.set(secondHalf.toLowerCase(), card);
+      // Map by common separator variations
+      cardMap.set(`${firstHalf}/${secondHalf}`.toLowerCase(), card);
+      cardMap.set(`${firstHalf} / ${secondHalf}`.toLowerCase(), card);
+    }
+  }
+
+  console.log('CardMap entries:', cardMap.size);
+
+  // Prefer the exact printing, falling back to the card by name
+  const resolveCard = (parsed: ParsedCard) =>
+    (parsed.setCode && parsed.collectorNumber
+      ? printingMap.get(printingKey(parsed.setCode, parsed.collectorNumber))
+      : undefined) || cardMap.get(parsed.name.toLowerCase());
+
+  // Find cards that won't match and try fuzzy lookup
+  const potentiallyMissing = parsedCards.filter((p) => !resolveCard(p));
+
+  // Track cards converted via fuzzy search (alternate printings)
+  const convertedCards: Array<{ original: string; converted: string }> = [];
+
+  if (potentiallyMissing.length > 0) {
+    console.log('Attempting fuzzy lookup for:', potentiallyMissing.map((p) => p.name));
+
+    onProgress({ type: 'stage', stage: 'fuzzy', total: potentiallyMissing.length });
+
+    // Fuzzy lookup for alternate-named cards (Secret Lair, promos, etc.)
+    for (const [index, parsed] of potentiallyMissing.entries()) {
+      const result = await getCardByFuzzyName(parsed.name);
+      if (result) {
+        console.log(`Fuzzy match: "${parsed.name}" -> "${result.card.name}"`);
+        // Track the conversion
+        convertedCards.push({ original: parsed.name, converted: result.card.name });
+        // Map the alternate name to the found card
+        cardMap.set(parsed.name.toLowerCase(), result.card);
+        // Also add the canonical name if not already present
+        if (!cardMap.has(result.card.name.toLowerCase())) {
+          cardMap.set(result.card.name.toLowerCase(), result.card);
+        }
+      } else {
+        onProgress({ type: 'warning', message: `Card not found: ${parsed.name}` });
+      }
+      onProgress({
+        type: 'progress',
+        stage: 'fuzzy',
+        current: index + 1,
+        total: potentiallyMissing.length,
+        card: parsed.name,
+      });
+    }
+
+    console.log('CardMap entries after fuzzy lookup:', cardMap.size);
+  }
+
+  // Fill in missing prices by looking up cheapest printings
+  const cardsWithoutPrices = Array.from(new Set([...cardMap.values(), ...printingMap.values()])).filter(
+    (card) => !card.prices?.usd
+  );
+  await backfillPrices(cardsWithoutPrices, onProgress);
+
+  // Group parsed cards by board
+  const commanders: DeckCard[] = [];
+  const mainboard: DeckCard[] = [];
+  const sideboard: DeckCard[] = [];
+  const maybeboard: DeckCard[] = [];
+
+  // Lines the user should confirm: not found, or resolved by fuzzy match
+  const convertedNames = new Set(convertedCards.map((c) => c.original.toLowerCase()));
+  const review: ImportReviewItem[] = [];
+
+  const unmatchedCards: string[] = [];
+  for (const [index, parsed] of parsedCards.entries()) {
+    const reviewItem = {
+      id: `line-${index}`,
+      name: parsed.name,
+      quantity: parsed.quantity,
+      board: parsed.board,
+    };
+
+    const card = resolveCard(parsed);
+    if (!card) {
+      unmatchedCards.push(parsed.name);
+      review.push({ ...reviewItem, status: 'not-found' });
+      continue;
+    }
+
+    if (convertedNames.has(parsed.name.toLowerCase())) {
+      review.push({ ...reviewItem, status: 'converted', match: card });
+    }
+
+    const deckCard: DeckCard = {
+      card,
+      quantity: parsed.quantity,
+      board: parsed.board,
+      ...(parsed.categories && { categories: parsed.categories }),
+    };
+
+    switch (parsed.board) {
+      case 'commanders':
+        commanders.push(deckCard);
+        break;
+      case 'sideboard':
+        sideboard.push(deckCard);
+        break;
+      case 'maybeboard':
+        maybeboard.push(deckCard);
+        break;
+      default:
+        mainboard.push(deckCard);
+    }
+  }
+
+  if (unmatchedCards.length > 0) {
+    console.log('Unmatched cards (not in cardMap):', unmatchedCards);
+  }
+
+  // Extract commander cards for the deck structure
+  const commanderCards = commanders.map((dc) => dc.card);
+
+  const { deck: resolvedDeck, warnings: commandZoneWarnings } = finalizeCommandZone({
+    id: nanoid(),
+    name: '',
+    format: 'commander',
+    commanders: commanderCards,
+    mainboard,
+    sideboard,
+    maybeboard,
+    importedAt: new Date().toISOString(),
+    lastModifiedAt: new Date().toISOString(),
+  }, review);
+
+  // Generate deck name from commander if not provided
+  const generatedName = resolvedDeck.commanders.length > 0
+    ? `${resolvedDeck.commanders.map(c => c.name.split(',')[0]).join(' & ')} Deck`
+    : 'Commander Deck';
+
+  const deck: Deck = {
+    ...resolvedDeck,
+    name: deckName || parsedName || generatedName,
+  };
+
+  const stats = calculateDeckStats(deck);
+
+  // Build response with appropriate warnings
+  const warnings: string[] = [...commandZoneWarnings];
+  const info: string[] = [];
+
+  const reviewSummaries: string[] = [];
+
+  // Cards converted from alternate printings (fuzzy matched)
+  if (convertedCards.length > 0) {
+    const summary = `${convertedCards.length} card${convertedCards.length > 1 ? 's' : ''} converted to original printing: ${convertedCards.map((c) => `${c.original} → ${c.converted}`).join(', ')}`;
+    info.push(summary);
+    reviewSummaries.push(summary);
+  }
+
+  // Cards whose requested printing wasn't on Scryfall
+  if (downgraded.length > 0) {
+    warnings.push(
+      `${downgraded.length} card${downgraded.length > 1 ? 's' : ''} downgraded to default printing: ${downgraded.join(', ')}`
+    );
+  }
+
+  // Cards truly not found (after all lookup attempts)
+  if (unmatchedCards.length > 0) {
+    const summary = `${unmatchedCards.length} card${unmatchedCards.length > 1 ? 's' : ''} not found: ${unmatchedCards.join(', ')}`;
+    warnings.push(summary);
+    reviewSummaries.push(summary);
+  }
+
+  return { deck, stats, detectedFormat, review, warnings, info, reviewSummaries };
+}
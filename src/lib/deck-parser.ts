@@ -0,0 +1,433 @@
+import type { DeckCard, DeckListFormat } from '@/types';
+
+export interface ParsedCard {
+  name: string;
+  quantity: number;
+  board: DeckCard['board'];
+  // Exact printing, when the list specifies one
+  setCode?: string;
+  collectorNumber?: string;
+  // Role tags such as "Ramp" or "Wincon"
+  categories?: string[];
+}
+
+export interface ParsedDeckList {
+  format: DeckListFormat;
+  cards: ParsedCard[];
+  // Deck name when the format carries one (Arena "About" section)
+  name?: string;
+}
+
+const ARENA_HEADERS = ['about', 'commander', 'companion', 'deck', 'sideboard', 'maybeboard'];
+
+const CSV_QUANTITY_COLUMNS = ['count', 'quantity', 'qty', 'amount'];
+const CSV_NAME_COLUMNS = ['name', 'card name', 'card'];
+const CSV_BOARD_COLUMNS = ['board', 'section'];
+const CSV_CATEGORY_COLUMNS = ['category', 'categories', 'tags'];
+const CSV_SET_COLUMNS = ['edition', 'set', 'set code'];
+const CSV_COLLECTOR_NUMBER_COLUMNS = ['collector number', 'collector_number', 'number'];
+
+function getLines(text: string): string[] {
+  return text.split(/\r?\n/);
+}
+
+function isArenaHeader(line: string): boolean {
+  return ARENA_HEADERS.includes(line.trim().toLowerCase());
+}
+
+// Split a single CSV row, honouring quoted fields and escaped quotes
+function splitCsvRow(row: string): string[] {
+  const fields: string[] = [];
+  let field = '';
+  let inQuotes = false;
+
+  for (let i = 0; i < row.length; i++) {
+    const char = row[i];
+    if (inQuotes) {
+      if (char === '"' && row[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        inQuotes = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"') {
+      inQuotes = true;
+    } else if (char === ',') {
+      fields.push(field);
+      field = '';
+    } else {
+      field += char;
+    }
+  }
+  fields.push(field);
+
+  return fields.map((f) => f.trim());
+}
+
+function findColumn(headers: string[], candidates: string[]): number {
+  return headers.findIndex((h) => candidates.includes(h));
+}
+
+function getCsvHeaders(text: string): string[] | null {
+  const firstLine = getLines(text).find((l) => l.trim());
+  if (!firstLine || !firstLine.includes(',')) return null;
+
+  const headers = splitCsvRow(firstLine).map((h) => h.toLowerCase());
+  if (findColumn(headers, CSV_NAME_COLUMNS) === -1) return null;
+  if (findColumn(headers, CSV_QUANTITY_COLUMNS) === -1) return null;
+  return headers;
+}
+
+function boardFromLabel(label: string): DeckCard['board'] | null {
+  const lower = label.toLowerCase();
+  if (lower.includes('commander')) return 'commanders';
+  if (lower.includes('sideboard') || lower.includes('companion')) return 'sideboard';
+  if (lower.includes('maybe') || lower.includes('considering')) return 'maybeboard';
+  return null;
+}
+
+export function detectDeckFormat(text: string): DeckListFormat {
+  const trimmed = text.trim();
+
+  if (/^<\?xml/i.test(trimmed) || (/<Deck[\s>]/.test(trimmed) && /<Cards\s/.test(trimmed))) {
+    return 'mtgo';
+  }
+
+  if (getCsvHeaders(trimmed)) {
+    return 'csv';
+  }
+
+  // Arena uses bare section headers with no colon; plain-text exports don't
+  if (getLines(trimmed).some(isArenaHeader)) {
+    return 'arena';
+  }
+
+  return 'text';
+}
+
+function decodeXmlEntities(value: string): string {
+  return value
+    .replace(/&apos;/g, "'")
+    .replace(/&quot;/g, '"')
+    .replace(/&lt;/g, '<')
+    .replace(/&gt;/g, '>')
+    .replace(/&amp;/g, '&');
+}
+
+/**
+ * MTGO .dek files list every card as a <Cards> element with a Sideboard flag.
+ * Commander decks put the commander(s) and any companion in the sideboard, so
+ * a 1-3 card sideboard alongside a ~99 card main deck is treated as the
+ * command zone. The companion is moved back once the cards are resolved.
+ */
+function parseMtgoDek(text: string): ParsedCard[] {
+  const cards: ParsedCard[] = [];
+
+  for (const element of text.match(/<Cards\s[^>]*>/g) || []) {
+    const attrs: Record<string, string> = {};
+    for (const [, key, value] of element.matchAll(/(\w+)="([^"]*)"/g)) {
+      attrs[key.toLowerCase()] = decodeXmlEntities(value);
+    }
+
+    const quantity = parseInt(attrs.quantity, 10);
+    const name = attrs.name?.trim();
+    if (!name || !quantity) continue;
+
+    cards.push({
+      name,
+      quantity,
+      board: attrs.sideboard === 'true' ? 'sideboard' : 'mainboard',
+    });
+  }
+
+  const count = (board: DeckCard['board']) =>
+    cards.filter((c) => c.board === board).reduce((sum, c) => sum + c.quantity, 0);
+  const sideboardCount = count('sideboard');
+  const mainCount = count('mainboard');
+
+  if (sideboardCount >= 1 && sideboardCount <= 3 && mainCount >= 97 && mainCount + sideboardCount <= 101) {
+    for (const card of cards) {
+      if (card.board === 'sideboard') card.board = 'commanders';
+    }
+  }
+
+  return cards;
+}
+
+// Trailing "(NEO) 123" printing suffix, optionally followed by markers like *F*
+const PRINTING_SUFFIX = /\s+\(([A-Za-z0-9]+)\)(?:\s+([^\s*]+))?((?:\s+\*[A-Z]+\*)*)\s*$/i;
+
+function splitPrinting(text: string): { name: string; setCode?: string; collectorNumber?: string } {
+  const match = text.match(PRINTING_SUFFIX);
+  if (!match) {
+    return { name: text.trim() };
+  }
+  return {
+    name: text.slice(0, match.index).trim(),
+    setCode: match[1].toLowerCase(),
+    collectorNumber: match[2],
+  };
+}
+
+// "1 Sol Ring", "1x Sol Ring", "1 Sol Ring (C21) 263", "1 Sol Ring (C21) 263 *F*"
+function parseQuantityLine(line: string): Omit<ParsedCard, 'board'> | null {
+  const match = line.trim().match(/^(\d+)x?\s+(.+)$/i);
+  if (!match) return null;
+
+  const quantity = parseInt(match[1], 10);
+  const { name: rawName, setCode, collectorNumber } = splitPrinting(match[2]);
+  const name = rawName.replace(/\s+\*[A-Z]+\*\s*$/i, '').trim();
+
+  return name && quantity > 0 ? { name, quantity, setCode, collectorNumber } : null;
+}
+
+/**
+ * Arena exports group cards under bare "Commander", "Companion", "Deck" and
+ * "Sideboard" headers. Cards following the deck after a blank line with no
+ * new header are the sideboard, matching how Arena itself reads the list.
+ */
+function parseArena(text: string): { cards: ParsedCard[]; name?: string } {
+  const cards: ParsedCard[] = [];
+  let section = '';
+  let board: DeckCard['board'] = 'mainboard';
+  let blankSinceHeader = false;
+  let name: string | undefined;
+
+  for (const line of getLines(text)) {
+    const trimmed = line.trim();
+
+    if (!trimmed) {
+      blankSinceHeader = true;
+      continue;
+    }
+
+    if (isArenaHeader(trimmed)) {
+      section = trimmed.toLowerCase();
+      board = section === 'deck' ? 'mainboard' : boardFromLabel(section) || 'mainboard';
+      blankSinceHeader = false;
+      continue;
+    }
+
+    if (section === 'about') {
+      const nameMatch = trimmed.match(/^Name\s+(.+)$/i);
+      if (nameMatch) name = nameMatch[1].trim();
+      continue;
+    }
+
+    const parsed = parseQuantityLine(trimmed);
+    if (!parsed) continue;
+
+    if (section === 'deck' && blankSinceHeader) {
+      board = 'sideboard';
+    }
+
+    cards.push({ ...parsed, board });
+  }
+
+  return { cards, name };
+}
+
+/**
+ * Moxfield and Archidekt CSV exports. Column names vary between sites and
+ * export settings, so columns are located by header rather than position.
+ */
+function parseCsv(text: string): ParsedCard[] {
+  const lines = getLines(text).filter((l) => l.trim());
+  const headers = getCsvHeaders(text);
+  if (!headers) return [];
+
+  const quantityCol = findColumn(headers, CSV_QUANTITY_COLUMNS);
+  const nameCol = findColumn(headers, CSV_NAME_COLUMNS);
+  const boardCol = findColumn(headers, CSV_BOARD_COLUMNS);
+  const categoryCol = findColumn(headers, CSV_CATEGORY_COLUMNS);
+  const setCol = findColumn(headers, CSV_SET_COLUMNS);
+  const collectorNumberCol = findColumn(headers, CSV_COLLECTOR_NUMBER_COLUMNS);
+
+  const cards: ParsedCard[] = [];
+
+  for (const line of lines.slice(1)) {
+    const fields = splitCsvRow(line);
+    const name = fields[nameCol];
+    const quantity = parseInt(fields[quantityCol], 10);
+    if (!name || !quantity) continue;
+
+    const board =
+      (boardCol !== -1 && fields[boardCol] && boardFromLabel(fields[boardCol])) ||
+      (categoryCol !== -1 && fields[categoryCol] && boardFromLabel(fields[categoryCol])) ||
+      'mainboard';
+
+    // Remaining categories that don't name a board are the card's tags
+    const categories = categoryCol !== -1
+      ? (fields[categoryCol] || '')
+          .split(',')
+          .map((c) => c.trim())
+          .filter((c) => c && !boardFromLabel(c) && c.toLowerCase() !== 'mainboard')
+      : [];
+
+    const setCode = setCol !== -1 ? fields[setCol]?.toLowerCase() : undefined;
+    const collectorNumber = collectorNumberCol !== -1 ? fields[collectorNumberCol] : undefined;
+
+    cards.push({
+      name,
+      quantity,
+      board,
+      ...(setCode && collectorNumber && { setCode, collectorNumber }),
+      ...(categories.length > 0 && { categories }),
+    });
+  }
+
+  return cards;
+}
+
+/**
+ * Plain-text lists (Moxfield text export and hand-written lists).
+ * Moxfield puts the commander(s) last, after a blank line.
+ */
+function parseText(text: string): ParsedCard[] {
+  const lines = getLines(text);
+  const cards: ParsedCard[] = [];
+  let currentBoard: DeckCard['board'] = 'mainboard';
+
+  // Moxfield format: main deck, then blank line, then commander(s) at the end
+  // First, let's find sections separated by blank lines
+  const sections: string[][] = [];
+  let currentSection: string[] = [];
+
+  for (const line of lines) {
+    const trimmed = line.trim();
+    if (!trimmed) {
+      if (currentSection.length > 0) {
+        sections.push(currentSection);
+        currentSection = [];
+      }
+    } else {
+      currentSection.push(trimmed);
+    }
+  }
+  if (currentSection.length > 0) {
+    sections.push(currentSection);
+  }
+
+  // If we have multiple sections, the last section (1-3 cards) is likely the commander
+  // Moxfield puts commander at the end after a blank line
+  let commanderSection: string[] = [];
+  let mainSection: string[] = [];
+
+  if (sections.length >= 2) {
+    const lastSection = sections[sections.length - 1];
+    // Commander section has 1-2 cards (commander + partner or Background), plus maybe a
+    // companion; the command zone rules sort these out once the cards are resolved
+    if (lastSection.length <= 3) {
+      commanderSection = lastSection;
+      mainSection = sections.slice(0, -1).flat();
+    } else {
+      mainSection = sections.flat();
+    }
+  } else {
+    mainSection = sections.flat();
+  }
+
+  // Parse helper function
+  const parseCardLine = (line: string): (Omit<ParsedCard, 'board'> & { isCommander?: boolean }) | null => {
+    const trimmed = line.trim();
+
+    // Handle section headers (skip them)
+    const isHeader = trimmed.startsWith('//') ||
+                     trimmed.startsWith('#') ||
+                     /^[A-Z]+:$/.test(trimmed) ||
+                     /^[A-Z][A-Z\s]+:$/.test(trimmed);
+
+    if (isHeader) {
+      return null;
+    }
+
+    // Check for commander tags: *CMDR*, *Commander*, #!Commander
+    const isCommander = /\*CMDR\*|\*Commander\*|#!Commander/i.test(trimmed);
+
+    // Parse card line: "1 Sol Ring", "1x Sol Ring", "1 Sol Ring *CMDR*"
+    const match = trimmed.match(/^(\d+)x?\s+(.+)$/i);
+
+    if (match) {
+      const quantity = parseInt(match[1], 10);
+      // Commander tags can sit before or after the printing, so strip them first
+      const withoutTags = match[2].replace(/\s*(\*CMDR\*|\*Commander\*|#!Commander)\s*/gi, ' ').trim();
+      // Keep set codes like (NEO) 123 as the exact printing
+      const { name: rawName, setCode, collectorNumber } = splitPrinting(withoutTags);
+      let name = rawName;
+      // Remove commander tags
+      name = name.replace(/\s*\*CMDR\*\s*/gi, '').trim();
+      name = name.replace(/\s*\*Commander\*\s*/gi, '').trim();
+      name = name.replace(/\s*#!Commander\s*/gi, '').trim();
+      // Remove stray asterisks
+      name = name.replace(/^\*+|\*+$/g, '').trim();
+
+      if (name && quantity > 0) {
+        return { name, quantity, isCommander, setCode, collectorNumber };
+      }
+    }
+
+    return null;
+  };
+
+  // Parse commander section
+  for (const line of commanderSection) {
+    const parsed = parseCardLine(line);
+    if (parsed) {
+      cards.push({
+        name: parsed.name,
+        quantity: parsed.quantity,
+        board: 'commanders',
+        setCode: parsed.setCode,
+        collectorNumber: parsed.collectorNumber,
+      });
+    }
+  }
+
+  // Parse main section
+  for (const line of mainSection) {
+    const lowerLine = line.toLowerCase();
+
+    // Check for inline section headers
+    if (line.startsWith('//') || line.startsWith('#') || /^[A-Z]+:$/.test(line)) {
+      const header = lowerLine.replace(/^[/#]+\s*/, '').replace(/:$/, '');
+      if (header.includes('commander')) {
+        currentBoard = 'commanders';
+      } else if (header.includes('sideboard')) {
+        currentBoard = 'sideboard';
+      } else if (header.includes('maybe') || header.includes('considering')) {
+        currentBoard = 'maybeboard';
+      } else {
+        currentBoard = 'mainboard';
+      }
+      continue;
+    }
+
+    const parsed = parseCardLine(line);
+    if (parsed) {
+      // If card has *CMDR* tag, treat it as a commander regardless of section
+      const { isCommander, ...card } = parsed;
+      cards.push({ ...card, board: isCommander ? 'commanders' : currentBoard });
+    }
+  }
+
+  return cards;
+}
+
+export function parseDeckList(text: string): ParsedDeckList {
+  const format = detectDeckFormat(text);
+
+  switch (format) {
+    case 'mtgo':
+      return { format, cards: parseMtgoDek(text) };
+    case 'arena': {
+      const { cards, name } = parseArena(text);
+      return { format, cards, name };
+    }
+    case 'csv':
+      return { format, cards: parseCsv(text) };
+    default:
+      return { format, cards: parseText(text) };
+  }
+}
@@ -0,0 +1,86 @@
+import type { ImportDeckResponse, ImportProgressEvent } from '@/types';
+
+export type ImportProgressReporter = (event: ImportProgressEvent) => void;
+
+// Clients opt in to progress events; everything else gets a single JSON response
+export function wantsEventStream(request: Request): boolean {
+  return request.headers.get('accept')?.includes('text/event-stream') ?? false;
+}
+
+/**
+ * Run an import, streaming its progress as Server-Sent Events and finishing
+ * with either a `result` or an `error` event.
+ */
+export function createImportStream(
+  run: (report: ImportProgressReporter) => Promise<ImportDeckResponse>,
+  toError: (error: unknown) => { error: string; message: string }
+): Response {
+  const encoder = new TextEncoder();
+
+  const stream = new ReadableStream<Uint8Array>({
+    async start(controller) {
+      const send: ImportProgressReporter = (event) => {
+        controller.enqueue(encoder.encode(`data: ${JSON.stringify(event)}\n\n`));
+      };
+
+      try {
+        const result = await run(send);
+        send({ type: 'result', result });
+      } catch (error) {
+        send({ type: 'error', ...toError(error) });
+      } finally {
+        controller.close();
+      }
+    },
+  });
+
+  return new Response(stream, {
+    headers: {
+      'Content-Type': 'text/event-stream',
+      'Cache-Control': 'no-cache, no-transform',
+      Connection: 'keep-alive',
+    },
+  });
+}
+
+/**
+ * Read an import event stream on the client, passing progress to `onEvent`.
+ * Resolves with the import result or throws with the server's error message.
+ */
+export async function readImportStream(
+  response: Response,
+  onEvent: (event: ImportProgressEvent) => void
+): Promise<ImportDeckResponse> {
+  if (!response.body) {
+    throw new Error('Import stream was empty');
+  }
+
+  const reader = response.body.pipeThrough(new TextDecoderStream()).getReader();
+  let buffer = '';
+
+  while (true) {
+    const { done, value } = await reader.read();
+    if (done) break;
+    buffer += value;
+
+    let boundary: number;
+    while ((boundary = buffer.indexOf('\n\n')) !== -1) {
+      const frame = buffer.slice(0, boundary);
+      buffer = buffer.slice(boundary + 2);
+
+      const data = frame
+        .split('\n')
+        .filter((line) => line.startsWith('data:'))
+        .map((line) => line.slice(5).trimStart())
+        .join('\n');
+      if (!data) continue;
+
+      const event: ImportProgressEvent = JSON.parse(data);
+      if (event.type === 'result') return event.result;
+      if (event.type === 'error') throw new Error(event.message);
+      onEvent(event);
+    }
+  }
+
+  throw new Error('Import ended unexpectedly');
+}
@@ -0,0 +1,164 @@
+import { and, asc, gte, inArray, sql } from 'drizzle-orm';
+import { db, userDecks, cardPriceHistory } from '@/lib/db';
+import { fetchCardsById } from '@/lib/clients/scryfall';
+import { getCardPrice, PRICE_KEYS, type Card, type DeckCard, type DeckValuePoint, type PriceKey, type PricePoint } from '@/types';
+
+const INSERT_BATCH_SIZE = 500;
+
+const SCRYFALL_ID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+export const DEFAULT_HISTORY_DAYS = 90;
+export const MAX_HISTORY_DAYS = 365;
+
+interface SavedDeckData {
+  commanders?: Card[];
+  mainboard?: DeckCard[];
+  sideboard?: DeckCard[];
+  maybeboard?: DeckCard[];
+}
+
+function today(): string {
+  return new Date().toISOString().slice(0, 10);
+}
+
+function toPrice(value: string | null | undefined): number | null {
+  if (value == null) return null;
+  const price = parseFloat(value);
+  return isNaN(price) ? null : price;
+}
+
+// Every printing used by a saved deck, from the deck data stored on save
+async function getSavedDeckCardIds(): Promise<string[]> {
+  const decks = await db.select({ deckData: userDecks.moxfieldData }).from(userDecks);
+  const ids = new Set<string>();
+
+  for (const { deckData } of decks) {
+    const data = (deckData || {}) as SavedDeckData;
+    for (const card of data.commanders || []) ids.add(card.id);
+    for (const dc of [...(data.mainboard || []), ...(data.sideboard || []), ...(data.maybeboard || [])]) {
+      ids.add(dc.card.id);
+    }
+  }
+
+  return [...ids];
+}
+
+/**
+ * Record today's price for every card in a saved deck. Running it again on
+ * the same day overwrites that day's snapshot.
+ */
+export async function snapshotDeckPrices(): Promise<{ date: string; cards: number }> {
+  const date = today();
+  const ids = await getSavedDeckCardIds();
+  const cards = await fetchCardsById(ids);
+
+  const toColumn = (card: Card, priceKey: PriceKey) => getCardPrice(card, priceKey)?.toFixed(2) ?? null;
+  const rows = cards.map((card) => ({
+    cardId: card.id,
+    snapshotDate: date,
+    usd: toColumn(card, 'usd'),
+    usdFoil: toColumn(card, 'usdFoil'),
+    eur: toColumn(card, 'eur'),
+    tix: toColumn(card, 'tix'),
+  }));
+
+  for (let i = 0; i < rows.length; i += INSERT_BATCH_SIZE) {
+    await db
+      .insert(cardPriceHistory)
+      .values(rows.slice(i, i + INSERT_BATCH_SIZE))
+      .onConflictDoUpdate({
+        target: [cardPriceHistory.cardId, cardPriceHistory.snapshotDate],
+        set: {
+          usd: sql`excluded.usd`,
+          usdFoil: sql`excluded.usd_foil`,
+          eur: sql`excluded.eur`,
+          tix: sql`excluded.tix`,
+          recordedAt: sql`now()`,
+        },
+      });
+  }
+
+  return { date, cards: rows.length };
+}
+
+export async function getPriceHistory(
+  cardIds: string[],
+  days: number = DEFAULT_HISTORY_DAYS
+): Promise<Map<string, PricePoint[]>> {
+  const history = new Map<string, PricePoint[]>();
+  if (cardIds.length === 0) return history;
+
+  const since = new Date(Date.now() - days * 24 * 60 * 60 * 1000).toISOString().slice(0, 10);
+  const rows = await db
+    .select()
+    .from(cardPriceHistory)
+    .where(and(inArray(cardPriceHistory.cardId, cardIds), gte(cardPriceHistory.snapshotDate, since)))
+    .orderBy(asc(cardPriceHistory.snapshotDate));
+
+  for (const row of rows) {
+    const points = history.get(row.cardId) ?? [];
+    points.push({
+      date: row.snapshotDate,
+      usd: toPrice(row.usd),
+      usdFoil: toPrice(row.usdFoil),
+      eur: toPrice(row.eur),
+      tix: toPrice(row.tix),
+    });
+    history.set(row.cardId, points);
+  }
+
+  return history;
+}
+
+/**
+ * Deck value on each snapshot date for the given cards. A card missing from
+ * a day's snapshot keeps its last known price so gaps don't read as drops.
+ */
+export function buildDeckValueHistory(
+  history: Map<string, PricePoint[]>,
+  cards: Array<{ id: string; quantity: number }>,
+  priceKey: PriceKey = 'usd'
+): DeckValuePoint[] {
+  const quantities = new Map<string, number>();
+  for (const { id, quantity } of cards) {
+    quantities.set(id, (quantities.get(id) ?? 0) + quantity);
+  }
+
+  const pricesByDate = new Map<string, Array<[cardId: string, price: number]>>();
+  for (const [cardId, points] of history) {
+    for (const point of points) {
+      const price = point[priceKey];
+      if (price === null) continue;
+      const prices = pricesByDate.get(point.date) ?? [];
+      prices.push([cardId, price]);
+      pricesByDate.set(point.date, prices);
+    }
+  }
+
+  const lastKnown = new Map<string, number>();
+  return [...pricesByDate.keys()].sort().map((date) => {
+    for (const [cardId, price] of pricesByDate.get(date)!) {
+      lastKnown.set(cardId, price);
+    }
+
+    let value = 0;
+    for (const [cardId, price] of lastKnown) {
+      value += price * (quantities.get(cardId) ?? 0);
+    }
+    return { date, value: Math.round(value * 100) / 100 };
+  });
+}
+
+export function isScryfallId(id: unknown): id is string {
+  return typeof id === 'string' && SCRYFALL_ID_PATTERN.test(id);
+}
+
+export function parsePriceKey(value: unknown): PriceKey {
+  return PRICE_KEYS.includes(value as PriceKey) ? (value as PriceKey) : 'usd';
+}
+
+export function parseHistoryDays(value: unknown): number {
+  const days = Math.floor(Number(value));
+  if (!Number.isFinite(days) || days < 1) return DEFAULT_HISTORY_DAYS;
+  return Math.min(days, MAX_HISTORY_DAYS);
+}
@@ -293,13 +293,13 @@ const SYNERGY_PATTERNS: SynergyPattern[] = [
   },
 ];
 
-export function detectSynergies(cards: Card[], commander?: Card): Synergy[] {
+export function detectSynergies(cards: Card[], commanders: Card[] = []): Synergy[] {
   const synergies: Synergy[] = [];
   let idCounter = 0;
 
   // Check each synergy pattern
   for (const pattern of SYNERGY_PATTERNS) {
-    const matchedCards = pattern.detect(cards, commander);
+    const matchedCards = pattern.detect(cards, commanders[0]);
     if (matchedCards && matchedCards.length >= pattern.minCards) {
       synergies.push({
         id: `synergy-${idCounter++}`,
@@ -355,16 +355,18 @@ export function detectSynergies(cards: Card[], commander?: Card): Synergy[] {
     }
   }
 
-  // Commander synergy - cards that specifically work with the commander
-  if (commander) {
-    const commanderKeywords = commander.keywords || [];
-    const commanderText = (commander.oracleText || '').toLowerCase();
+  // Commander synergy - cards that specifically work with the commander(s)
+  if (commanders.length > 0) {
+    // Partners and Backgrounds are read together as one strategy
+    const commanderKeywords = commanders.flatMap((c) => c.keywords || []);
+    const commanderText = commanders.map((c) => c.oracleText || '').join('\n').toLowerCase();
+    const commanderIds = new Set(commanders.map((c) => c.id));
 
     const commanderSynergyCards: string[] = [];
 
     // Find cards that match commander's strategy
     for (const card of cards) {
-      if (card.id === commander.id) continue;
+      if (commanderIds.has(card.id)) continue;
 
       const cardText = (card.oracleText || '').toLowerCase();
 
@@ -390,7 +392,7 @@ export function detectSynergies(cards: Card[], commander?: Card): Synergy[] {
         id: 'synergy-commander',
         type: 'commander',
         cards: commanderSynergyCards.slice(0, 10),
-        description: `${commanderSynergyCards.length} cards that synergize with ${commander.name.split(',')[0]}`,
+        description: `${commanderSynergyCards.length} cards that synergize with ${commanders.map((c) => c.name.split(',')[0]).join(' & ')}`,
         strength: commanderSynergyCards.length >= 8 ? 'strong' : 'moderate',
       });
     }
@@ -1,10 +1,20 @@
 import { create } from 'zustand';
 import { persist } from 'zustand/middleware';
-import type { Card, Deck, DeckCard } from '@/types';
+import type { Card, Deck, DeckCard, PriceKey } from '@/types';
 
 export type ViewMode = 'grid' | 'list' | 'visual';
 export type SortBy = 'name' | 'cmc' | 'type' | 'color' | 'cost';
-export type GroupBy = 'type' | 'cmc' | 'color' | 'none';
+export type GroupBy = 'type' | 'cmc' | 'color' | 'category' | 'none';
+export type ImportStage =
+  | 'idle'
+  | 'parsing'
+  | 'fetching'
+  | 'loading-cards'
+  | 'matching'
+  | 'pricing'
+  | 'reviewing'
+  | 'ready'
+  | 'error';
 
 interface DeckState {
   // Current working deck
@@ -20,6 +30,8 @@ interface DeckState {
   viewMode: ViewMode;
   sortBy: SortBy;
   groupBy: GroupBy;
+  // Currency and finish used for every price and total
+  priceKey: PriceKey;
 
   // Card preview
   hoveredCard: Card | null;
@@ -28,7 +40,10 @@ interface DeckState {
   // Import state
   isImporting: boolean;
   importProgress: number;
-  importStage: 'idle' | 'parsing' | 'fetching' | 'loading-cards' | 'ready' | 'error';
+  importStage: ImportStage;
+  // Card counts for the running stage, as reported by the server
+  importDetail: { current: number; total: number; card?: string } | null;
+  importWarnings: string[];
 
   // Actions
   setCurrentDeck: (deck: Deck | null) => void;
@@ -38,12 +53,16 @@ interface DeckState {
   updateCardQuantity: (cardId: string, board: DeckCard['board'], quantity: number) => void;
   removeCard: (cardId: string, board: DeckCard['board']) => void;
   addCard: (card: Card, board: DeckCard['board']) => void;
+  setCardCategories: (cardId: string, board: DeckCard['board'], categories: string[]) => void;
   setViewMode: (mode: ViewMode) => void;
   setSortBy: (sort: SortBy) => void;
   setGroupBy: (group: GroupBy) => void;
+  setPriceKey: (priceKey: PriceKey) => void;
   setHoveredCard: (card: Card | null) => void;
   setSelectedCard: (card: Card | null) => void;
-  setImportState: (state: Partial<Pick<DeckState, 'isImporting' | 'importProgress' | 'importStage'>>) => void;
+  setImportState: (
+    state: Partial<Pick<DeckState, 'isImporting' | 'importProgress' | 'importStage' | 'importDetail' | 'importWarnings'>>
+  ) => void;
   clearDeck: () => void;
 }
 
@@ -56,11 +75,14 @@ export const useDeckStore = create<DeckState>()(
       viewMode: 'grid',
       sortBy: 'name',
       groupBy: 'type',
+      priceKey: 'usd',
       hoveredCard: null,
       selectedCard: null,
       isImporting: false,
       importProgress: 0,
       importStage: 'idle',
+      importDetail: null,
+      importWarnings: [],
 
       setCurrentDeck: (deck) => set({ currentDeck: deck }),
 
@@ -144,9 +166,30 @@ export const useDeckStore = create<DeckState>()(
         });
       },
 
+      setCardCategories: (cardId, board, categories) => {
+        const { currentDeck } = get();
+        if (!currentDeck) return;
+
+        const boardKey = board === 'commanders' ? 'mainboard' : board;
+        const updatedBoard = currentDeck[boardKey].map((dc) =>
+          dc.card.id === cardId && dc.board === board
+            ? { ...dc, categories }
+            : dc
+        );
+
+        set({
+          currentDeck: {
+            ...currentDeck,
+            [boardKey]: updatedBoard,
+            lastModifiedAt: new Date().toISOString(),
+          },
+        });
+      },
+
       setViewMode: (viewMode) => set({ viewMode }),
       setSortBy: (sortBy) => set({ sortBy }),
       setGroupBy: (groupBy) => set({ groupBy }),
+      setPriceKey: (priceKey) => set({ priceKey }),
       setHoveredCard: (hoveredCard) => set({ hoveredCard }),
       setSelectedCard: (selectedCard) => set({ selectedCard }),
 
@@ -161,6 +204,8 @@ export const useDeckStore = create<DeckState>()(
           selectedCard: null,
           importStage: 'idle',
           importProgress: 0,
+          importDetail: null,
+          importWarnings: [],
         }),
     }),
     {
@@ -169,6 +214,7 @@ export const useDeckStore = create<DeckState>()(
         viewMode: state.viewMode,
         sortBy: state.sortBy,
         groupBy: state.groupBy,
+        priceKey: state.priceKey,
         // Don't persist current deck in localStorage for now
       }),
     }
@@ -31,9 +31,12 @@ export interface ScryfallCard {
     };
   }>;
   prices?: {
-    usd?: string;
-    usd_foil?: string;
-    eur?: string;
+    usd?: string | null;
+    usd_foil?: string | null;
+    usd_etched?: string | null;
+    eur?: string | null;
+    eur_foil?: string | null;
+    tix?: string | null;
   };
   rarity: string;
   set: string;
@@ -41,6 +44,8 @@ export interface ScryfallCard {
   collector_number: string;
   scryfall_uri: string;
   edhrec_rank?: number;
+  // On the Commander Game Changers list
+  game_changer?: boolean;
   layout: string;
 }
 
@@ -57,6 +62,55 @@ export interface CardFace {
   };
 }
 
+// Prices as decimal strings, missing when Scryfall has none for that finish
+export interface CardPrices {
+  usd?: string;
+  usdFoil?: string;
+  usdEtched?: string;
+  eur?: string;
+  eurFoil?: string;
+  tix?: string;
+}
+
+// Which price to show and total: a currency, plus finish for USD
+export type PriceKey = 'usd' | 'usdFoil' | 'eur' | 'tix';
+
+export const PRICE_OPTIONS: Record<PriceKey, { label: string }> = {
+  usd: { label: 'USD' },
+  usdFoil: { label: 'USD (foil)' },
+  eur: { label: 'EUR' },
+  tix: { label: 'MTGO tix' },
+};
+
+export const PRICE_KEYS = Object.keys(PRICE_OPTIONS) as PriceKey[];
+
+// Fallbacks for printings that only exist in one finish
+const PRICE_FALLBACKS: Record<PriceKey, Array<keyof CardPrices>> = {
+  usd: ['usd', 'usdFoil', 'usdEtched'],
+  usdFoil: ['usdFoil', 'usdEtched', 'usd'],
+  eur: ['eur', 'eurFoil'],
+  tix: ['tix'],
+};
+
+export function getCardPrice(card: Pick<Card, 'prices'>, priceKey: PriceKey): number | null {
+  for (const key of PRICE_FALLBACKS[priceKey]) {
+    const price = parseFloat(card.prices?.[key] || '');
+    if (!isNaN(price)) return price;
+  }
+  return null;
+}
+
+export function formatPrice(amount: number, priceKey: PriceKey): string {
+  switch (priceKey) {
+    case 'eur':
+      return `€${amount.toFixed(2)}`;
+    case 'tix':
+      return `${amount.toFixed(2)} tix`;
+    default:
+      return `$${amount.toFixed(2)}`;
+  }
+}
+
 export interface Card {
   id: string;
   oracleId: string;
@@ -76,19 +130,45 @@ export interface Card {
     artCrop: string;
   };
   cardFaces?: CardFace[];
-  prices?: {
-    usd?: string;
-    eur?: string;
-  };
+  prices?: CardPrices;
   rarity: string;
   setCode: string;
   setName: string;
   collectorNumber: string;
   scryfallUri: string;
   edhrecRank?: number;
+  gameChanger?: boolean;
   layout: string;
 }
 
+// One daily price snapshot per price key, as getCardPrice saw it; dates are YYYY-MM-DD
+export interface PricePoint {
+  date: string;
+  usd: number | null;
+  usdFoil: number | null;
+  eur: number | null;
+  tix: number | null;
+}
+
+export interface DeckValuePoint {
+  date: string;
+  value: number;
+}
+
+export interface ScryfallRuling {
+  oracle_id: string;
+  source: 'wotc' | 'scryfall';
+  published_at: string;
+  comment: string;
+}
+
+// Official (wotc) rulings and Scryfall's own notes, oldest first
+export interface CardRuling {
+  source: 'wotc' | 'scryfall';
+  publishedAt: string;
+  comment: string;
+}
+
 export interface DeckCard {
   card: Card;
   quantity: number;
@@ -106,6 +186,12 @@ export const MTG_COLOR_MAP: Record<MtgColor, { name: string; hex: string }> = {
   G: { name: 'Green', hex: '#00733E' },
 };
 
+// Union of the cards' colour identities in WUBRG order, e.g. for partner commanders
+export function combineColorIdentity(cards: Card[]): string[] {
+  const colors = new Set(cards.flatMap((card) => card.colorIdentity));
+  return (Object.keys(MTG_COLOR_MAP) as MtgColor[]).filter((color) => colors.has(color));
+}
+
 export function mapScryfallCard(scryfall: ScryfallCard): Card {
   const imageUris = scryfall.image_uris || scryfall.card_faces?.[0]?.image_uris;
 
@@ -143,8 +229,12 @@ export function mapScryfallCard(scryfall: ScryfallCard): Card {
     },
     cardFaces,
     prices: scryfall.prices ? {
-      usd: scryfall.prices.usd,
-      eur: scryfall.prices.eur,
+      usd: scryfall.prices.usd ?? undefined,
+      usdFoil: scryfall.prices.usd_foil ?? undefined,
+      usdEtched: scryfall.prices.usd_etched ?? undefined,
+      eur: scryfall.prices.eur ?? undefined,
+      eurFoil: scryfall.prices.eur_foil ?? undefined,
+      tix: scryfall.prices.tix ?? undefined,
     } : undefined,
     rarity: scryfall.rarity,
     setCode: scryfall.set,
@@ -152,6 +242,7 @@ export function mapScryfallCard(scryfall: ScryfallCard): Card {
     collectorNumber: scryfall.collector_number,
     scryfallUri: scryfall.scryfall_uri,
     edhrecRank: scryfall.edhrec_rank,
+    gameChanger: scryfall.game_changer,
     layout: scryfall.layout,
   };
 }
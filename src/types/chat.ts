@@ -1,4 +1,4 @@
-import type { DeckStats, Synergy, DeckCombo, PotentialCombo } from './';
+import type { DeckStats, Synergy, DeckCombo, PotentialCombo, CardRuling } from './';
 
 // Commander Bracket power levels (1-5 scale)
 export type CommanderBracket = 1 | 2 | 3 | 4 | 5;
@@ -66,9 +66,19 @@ export interface DeckContext {
   combos: DeckCombo[];
   potentialCombos: PotentialCombo[];
   colorIdentity: string[];
+  // How the commanders pair up, e.g. "Commander + Background"
+  commanderPairing?: string;
+  companion?: string;
   format: string;
 }
 
+// Rulings for a card the user asked about, added to the system prompt
+export interface CardRulingContext {
+  name: string;
+  oracleText: string;
+  rulings: CardRuling[];
+}
+
 // Chat conversation
 export interface ChatConversation {
   id: string;
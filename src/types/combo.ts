@@ -1,3 +1,24 @@
+export type ComboZone = 'battlefield' | 'hand' | 'graveyard' | 'exile' | 'library' | 'command';
+
+export const COMBO_ZONE_LABELS: Record<ComboZone, string> = {
+  battlefield: 'On the battlefield',
+  hand: 'In hand',
+  graveyard: 'In the graveyard',
+  exile: 'In exile',
+  library: 'In the library',
+  command: 'In the command zone',
+};
+
+// Where one combo piece has to be, and in what state, before the combo starts
+export interface ComboCardRequirement {
+  name: string;
+  // Any one of these zones will do
+  zones: ComboZone[];
+  // Extra condition in that zone, e.g. "tapped" or "with a +1/+1 counter on it"
+  state?: string;
+  mustBeCommander?: boolean;
+}
+
 export interface Combo {
   id: string;
   edhrecId?: string;
@@ -9,13 +30,49 @@ export interface Combo {
   result: string;
   colorIdentity: string[];
   sourceUrl?: string;
+  // Oracle ids lined up with `cards`, null where the source has none
+  cardOracleIds?: Array<string | null>;
+  // Setup for each card, lined up with `cards`
+  requirements?: ComboCardRequirement[];
+  // Other setup, such as "A creature with power 3 or greater on the battlefield"
+  prerequisites?: string[];
+  // Mana to have available before starting, in {W}{U} notation
+  manaNeeded?: string;
+  // Everything the combo produces; `result` joins these
+  produces?: string[];
+}
+
+/**
+ * Where a combo stands against the deck, following Commander Spellbook's
+ * result groups. Only `complete` combos can actually be run as built.
+ */
+export type ComboCategory =
+  | 'complete'
+  | 'one-card-away'
+  | 'different-commander'
+  | 'extra-colors';
+
+export const COMBO_CATEGORY_LABELS: Record<ComboCategory, string> = {
+  complete: 'Complete',
+  'one-card-away': 'One card away',
+  'different-commander': 'Needs a different commander',
+  'extra-colors': 'Needs colours outside your identity',
+};
+
+// A user's favourite and notes on a combo found in one of their saved decks
+export interface SavedComboState {
+  id: string;
+  isFavorited: boolean;
+  notes: string | null;
 }
 
 export interface DeckCombo {
   combo: Combo;
+  category: ComboCategory;
   isComplete: boolean;
   presentCards: string[];
   missingCards: string[];
+  saved?: SavedComboState;
 }
 
 export interface Synergy {
@@ -47,19 +104,79 @@ export interface ComboCheckRequest {
   deckId?: string;
   cards: string[];
   commander?: string;
+  // Every commander, including partners; takes precedence over `commander`
+  commanders?: string[];
+  // Skip the cached result and ask Commander Spellbook again
+  refresh?: boolean;
 }
 
 export interface ComboCheckResponse {
+  // Complete combos the deck can run
   combos: DeckCombo[];
+  // Combos one card away
   potentialCombos: PotentialCombo[];
+  // Every piece is in the deck, but one of them would have to be the commander
+  differentCommanderCombos: DeckCombo[];
+  // The missing pieces are outside the commander's colour identity
+  extraColorCombos: PotentialCombo[];
   synergies: Synergy[];
   analyzedCards: number;
   processingTime: number;
+  fingerprint?: string;
+  // When Commander Spellbook was asked for these results
+  checkedAt?: string;
+  // Served from the cache rather than a fresh lookup
+  cached?: boolean;
+  // Commander Spellbook was unavailable, so these are the last known results
+  stale?: boolean;
 }
 
 export interface PotentialCombo {
+  category: ComboCategory;
   cards: string[];
   missingPieces: string[];
   description: string;
   sourceUrl?: string;
+  // The full combo, when the source returned it
+  combo?: Combo;
+  saved?: SavedComboState;
+}
+
+// Combo results last stored for a saved deck
+export interface StoredComboResults
+  extends Pick<ComboCheckResponse, 'combos' | 'potentialCombos' | 'differentCommanderCombos' | 'extraColorCombos'> {
+  fingerprint: string;
+  checkedAt: string;
+}
+
+export function getComboCommanders(request: Pick<ComboCheckRequest, 'commander' | 'commanders'>): string[] {
+  return request.commanders ?? (request.commander ? [request.commander] : []);
+}
+
+// The card list a combo check runs against; order and case don't matter
+export function getComboFingerprintInput(
+  request: Pick<ComboCheckRequest, 'cards' | 'commander' | 'commanders'>
+): string {
+  const normalize = (list: string[]) => [...new Set(list.map((name) => name.toLowerCase()))].sort();
+  return `${normalize(getComboCommanders(request)).join('|')}||${normalize(request.cards).join('|')}`;
+}
+
+/**
+ * Short marker for the card list, so the browser can tell whether stored
+ * results still match the deck. Being a 32-bit hash it can collide, so shared
+ * cache keys use the server's SHA-256 key instead.
+ */
+export function getComboFingerprint(
+  request: Pick<ComboCheckRequest, 'cards' | 'commander' | 'commanders'>
+): string {
+  const names = new Set(request.cards.map((name) => name.toLowerCase()));
+  const input = getComboFingerprintInput(request);
+
+  // FNV-1a, so the browser and server agree without an async digest
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < input.length; i++) {
+    hash ^= input.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193) >>> 0;
+  }
+  return `${names.size}-${hash.toString(16).padStart(8, '0')}`;
 }
@@ -1,4 +1,4 @@
-import type { Card, DeckCard } from './card';
+import { combineColorIdentity, type Card, type DeckCard } from './card';
 
 export interface Deck {
   id: string;
@@ -11,6 +11,8 @@ export interface Deck {
   maybeboard: DeckCard[];
   moxfieldId?: string;
   moxfieldUrl?: string;
+  source?: DeckSourceId;
+  sourceUrl?: string;
   importedAt: string;
   lastModifiedAt: string;
 }
@@ -21,17 +23,88 @@ export interface DeckStats {
   colorDistribution: Record<string, number>;
   typeDistribution: Record<string, number>;
   manaCurve: Record<number, number>;
+  // Combined colour identity of the commanders
+  colorIdentity: string[];
 }
 
 export interface ImportDeckRequest {
-  moxfieldUrl: string;
+  url: string;
+}
+
+// Deck-building sites we can import a list from by URL
+export type DeckSourceId = 'moxfield' | 'archidekt' | 'deckstats' | 'tappedout';
+
+export const DECK_SOURCE_NAMES: Record<DeckSourceId, string> = {
+  moxfield: 'Moxfield',
+  archidekt: 'Archidekt',
+  deckstats: 'Deckstats',
+  tappedout: 'TappedOut',
+};
+
+// Layouts a pasted deck list can be in
+export type DeckListFormat = 'mtgo' | 'arena' | 'csv' | 'text';
+
+export const DECK_LIST_FORMAT_NAMES: Record<DeckListFormat, string> = {
+  mtgo: 'MTGO .dek',
+  arena: 'MTG Arena',
+  csv: 'CSV',
+  text: 'Plain text',
+};
+
+// A deck list as fetched from a source site, before Scryfall enrichment
+export interface SourceDeck {
+  source: DeckSourceId;
+  id: string;
+  name: string;
+  description: string;
+  format: string;
+  url: string;
+  cards: SourceDeckCard[];
+}
+
+export interface SourceDeckCard {
+  name: string;
+  quantity: number;
+  board: DeckCard['board'];
+  scryfallId?: string;
+  categories?: string[];
+}
+
+// A line from an imported list that the user should confirm before the deck is used
+export interface ImportReviewItem {
+  id: string;
+  // Card name as written in the source list
+  name: string;
+  quantity: number;
+  board: DeckCard['board'];
+  status: 'not-found' | 'converted';
+  // Fuzzy match the importer picked, for converted lines
+  match?: Card;
 }
 
 export interface ImportDeckResponse {
   deck: Deck;
   stats: DeckStats;
+  // Set by text import
+  detectedFormat?: DeckListFormat;
+  review?: ImportReviewItem[];
+  warnings?: string[];
+  info?: string[];
+  // Entries of warnings and info that only sum up `review`, dropped once it's confirmed
+  reviewSummaries?: string[];
 }
 
+// Server-side import stages, in the order they run
+export type ImportProgressStage = 'fetching' | 'parsing' | 'lookup' | 'fuzzy' | 'prices';
+
+// Events streamed by the import routes when the client asks for text/event-stream
+export type ImportProgressEvent =
+  | { type: 'stage'; stage: ImportProgressStage; total?: number }
+  | { type: 'progress'; stage: ImportProgressStage; current: number; total: number; card?: string }
+  | { type: 'warning'; message: string }
+  | { type: 'result'; result: ImportDeckResponse }
+  | { type: 'error'; error: string; message: string };
+
 export interface MoxfieldDeck {
   id: string;
   name: string;
@@ -42,6 +115,8 @@ export interface MoxfieldDeck {
   sideboard: Record<string, MoxfieldCard>;
   maybeboard: Record<string, MoxfieldCard>;
   commanders: Record<string, MoxfieldCard>;
+  // Author-defined tags keyed by card name
+  authorTags: Record<string, string[]>;
 }
 
 export interface MoxfieldCard {
@@ -52,6 +127,17 @@ export interface MoxfieldCard {
   };
 }
 
+// A public deck as listed on a Moxfield user's profile
+export interface MoxfieldDeckSummary {
+  id: string;
+  publicId: string;
+  name: string;
+  format: string;
+  url: string;
+  mainboardCount: number;
+  lastUpdatedAt: string;
+}
+
 export function calculateDeckStats(deck: Deck): DeckStats {
   const allCards = [
     ...deck.mainboard,
@@ -94,5 +180,6 @@ export function calculateDeckStats(deck: Deck): DeckStats {
     colorDistribution,
     typeDistribution,
     manaCurve,
+    colorIdentity: combineColorIdentity(deck.commanders),
   };
 }